@@ -3,10 +3,16 @@ import React from 'react';
 
 import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { watchNotifications } from '@/lib/notifications';
 import { useTheme } from '@/lib/theme';
+import { useUnreadCounts, watchUnreadCounts } from '@/lib/unread';
 
 export default function TabLayout() {
   const { colors } = useTheme();
+  const unread = useUnreadCounts();
+
+  React.useEffect(() => watchUnreadCounts(), []);
+  React.useEffect(() => watchNotifications(), []);
 
   return (
     <Tabs
@@ -42,6 +48,8 @@ export default function TabLayout() {
         name="chats"
         options={{
           title: 'Чаты',
+          tabBarBadge: unread.total > 0 ? (unread.total > 99 ? '99+' : unread.total) : undefined,
+          tabBarBadgeStyle: { backgroundColor: colors.accent, color: '#FFFFFF' },
           tabBarIcon: ({ color }) => (
             <IconSymbol size={26} name="bubble.left.and.bubble.right.fill" color={color} />
           ),
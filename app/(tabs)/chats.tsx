@@ -3,17 +3,17 @@ import React from 'react';
 import { Image, Pressable, RefreshControl, SectionList, StyleSheet, Text, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { SyncStatusBanner } from '@/components/sync-status-banner';
 import { ThemedText } from '@/components/themed-text';
 import { listDMChats, type DMChat } from '@/lib/local-dms';
-import { listEvents, listMessages, type LocalEvent, type LocalMessage } from '@/lib/local-events';
+import { listMyEventChats, type EventChatSummary, type LocalMessage } from '@/lib/local-events';
 import { getOrCreateLocalUserId } from '@/lib/local-user';
+import { messagePreview } from '@/lib/message-content';
+import { peekCache, useOnReconnect } from '@/lib/offline-cache';
 import { useTheme } from '@/lib/theme';
+import { refreshUnreadCounts, useUnreadCounts } from '@/lib/unread';
 
-type ChatEvent = {
-  event: LocalEvent;
-  lastMessage: LocalMessage | null;
-  unreadCount: number;
-};
+type ChatEvent = EventChatSummary;
 
 type SectionData = {
   title: string;
@@ -29,6 +29,22 @@ export default function ChatsScreen() {
   const [chatEvents, setChatEvents] = React.useState<ChatEvent[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [currentUserId, setCurrentUserId] = React.useState<string | null>(null);
+  const unread = useUnreadCounts();
+  const pageRef = React.useRef(0);
+  const hasMoreRef = React.useRef(false);
+  const loadingMoreRef = React.useRef(false);
+
+  const loaded = React.useRef(false);
+
+  // Cached lists for an instant first render; load() replaces them once the server answers
+  React.useEffect(() => {
+    Promise.all([peekCache<DMChat[]>('dm-chats'), peekCache<ChatEvent[]>('event-chats')]).then(([dms, events]) => {
+      if (loaded.current) return;
+      if (dms) setDmChats(dms);
+      if (events) setChatEvents(events);
+      if (dms?.length || events?.length) setLoading(false);
+    });
+  }, []);
 
   const load = React.useCallback(async () => {
     setLoading(true);
@@ -36,61 +52,47 @@ export default function ChatsScreen() {
       const userId = await getOrCreateLocalUserId();
       setCurrentUserId(userId);
 
-      // Load DM chats
-      const dms = await listDMChats();
+      // Load DM chats (and fresh unread counts alongside)
+      const [dms] = await Promise.all([listDMChats(), refreshUnreadCounts()]);
       setDmChats(dms);
 
-      // Load Event chats
-      const allEvents = await listEvents();
-      const allMessages = await Promise.all(allEvents.map((e) => listMessages(e.id)));
-
-      // Фильтруем: ивенты с сообщениями ИЛИ созданные пользователем
-      const activeChats: ChatEvent[] = [];
-
-      for (let i = 0; i < allEvents.length; i++) {
-        const event = allEvents[i];
-        const messages = allMessages[i];
-
-        // Проверяем, есть ли сообщения или ивент создан пользователем
-        const hasMessages = messages.length > 0;
-        // В локальном режиме считаем, что все ивенты "созданы" пользователем
-        // (так как нет поля created_by в LocalEvent)
-        // Но можно проверить по сообщениям пользователя
-        const userHasMessages = messages.some((m) => m.user_id === userId);
-
-        if (hasMessages || userHasMessages) {
-          // Находим последнее сообщение
-          const sortedMessages = [...messages].sort((a, b) => (a.created_at > b.created_at ? -1 : 1));
-          const lastMessage = sortedMessages[0] || null;
-
-          activeChats.push({
-            event,
-            lastMessage,
-            unreadCount: 0, // В локальном режиме не считаем непрочитанные
-          });
-        }
-      }
-
-      // Сортируем по времени последнего сообщения (или создания ивента)
-      activeChats.sort((a, b) => {
-        const timeA = a.lastMessage?.created_at || a.event.created_at;
-        const timeB = b.lastMessage?.created_at || b.event.created_at;
-        return timeA > timeB ? -1 : 1;
-      });
-
-      setChatEvents(activeChats);
+      // Load Event chats (first page; more on scroll)
+      const { chats, hasMore } = await listMyEventChats(userId, 0);
+      pageRef.current = 0;
+      hasMoreRef.current = hasMore;
+      loaded.current = true;
+      setChatEvents(chats);
     } catch (e) {
       console.error('Ошибка загрузки чатов:', e);
     }
     setLoading(false);
   }, []);
 
+  const loadMore = React.useCallback(async () => {
+    if (!currentUserId || !hasMoreRef.current || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    try {
+      const nextPage = pageRef.current + 1;
+      const { chats, hasMore } = await listMyEventChats(currentUserId, nextPage);
+      pageRef.current = nextPage;
+      hasMoreRef.current = hasMore;
+      setChatEvents((prev) => {
+        const seen = new Set(prev.map((c) => c.event.id));
+        return [...prev, ...chats.filter((c) => !seen.has(c.event.id))];
+      });
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, [currentUserId]);
+
   useFocusEffect(
     React.useCallback(() => {
       void load();
     }, [load])
   );
 
+  useOnReconnect(() => void load());
+
   function formatTime(dateString: string): string {
     const date = new Date(dateString);
     const now = new Date();
@@ -107,7 +109,23 @@ export default function ChatsScreen() {
 
   function getMessagePreview(message: LocalMessage | null): string {
     if (!message) return 'Нет сообщений';
-    return message.body.length > 50 ? message.body.substring(0, 50) + '...' : message.body;
+    return messagePreview(message);
+  }
+
+  // Unread count pill, or the chevron when everything is read
+  function renderBadge(count: number) {
+    if (count > 0) {
+      return (
+        <View style={[styles.unreadBadge, { backgroundColor: colors.accent }]}>
+          <Text style={styles.unreadBadgeText}>{count > 99 ? '99+' : count}</Text>
+        </View>
+      );
+    }
+    return (
+      <View style={[styles.chevron, { backgroundColor: colors.border }]}>
+        <ThemedText style={[styles.chevronText, { color: colors.accent }]}>›</ThemedText>
+      </View>
+    );
   }
 
   // Build sections for SectionList
@@ -143,6 +161,8 @@ export default function ChatsScreen() {
         </ThemedText>
       </View>
 
+      <SyncStatusBanner />
+
       {isEmpty && !loading ? (
         <View style={styles.emptyContainer}>
           <View style={[styles.emptyState, { backgroundColor: colors.card }]}>
@@ -165,6 +185,8 @@ export default function ChatsScreen() {
           }
           contentContainerStyle={[styles.listContent, { paddingBottom: 24 + insets.bottom }]}
           showsVerticalScrollIndicator={false}
+          onEndReached={() => void loadMore()}
+          onEndReachedThreshold={0.5}
           stickySectionHeadersEnabled={false}
           renderSectionHeader={({ section }) => (
             <View style={styles.sectionHeader}>
@@ -214,9 +236,7 @@ export default function ChatsScreen() {
 
                   <View style={styles.right}>
                     <ThemedText style={[styles.chatTime, { color: colors.textMuted }]}>{formatTime(dm.updatedAt)}</ThemedText>
-                    <View style={[styles.chevron, { backgroundColor: colors.border }]}>
-                      <ThemedText style={[styles.chevronText, { color: colors.accent }]}>›</ThemedText>
-                    </View>
+                    {renderBadge(unread.dms[dm.id] ?? 0)}
                   </View>
                 </Pressable>
               );
@@ -235,7 +255,9 @@ export default function ChatsScreen() {
                   style={[styles.chatCard, { backgroundColor: colors.card }]}
                   onPress={() => router.push({ pathname: '/event/[id]', params: { id: chatEvent.event.id } })}>
                   <View style={[styles.leftIcon, { backgroundColor: colors.border }]}>
-                    {showEventIcon ? (
+                    {showEventIcon && chatEvent.event.cover_thumbnail_url ? (
+                      <Image source={{ uri: chatEvent.event.cover_thumbnail_url }} style={styles.leftIconImage} />
+                    ) : showEventIcon ? (
                       <Text style={styles.leftIconText}>{chatEvent.event.emoji || '📌'}</Text>
                     ) : lastMessage && lastMessage.author.avatar_url ? (
                       <Image source={{ uri: lastMessage.author.avatar_url }} style={styles.leftIconImage} />
@@ -265,9 +287,7 @@ export default function ChatsScreen() {
                     ) : (
                       <ThemedText style={[styles.chatTime, { color: colors.textMuted }]}>{formatTime(chatEvent.event.created_at)}</ThemedText>
                     )}
-                    <View style={[styles.chevron, { backgroundColor: colors.border }]}>
-                      <ThemedText style={[styles.chevronText, { color: colors.accent }]}>›</ThemedText>
-                    </View>
+                    {renderBadge(unread.events[chatEvent.event.id] ?? chatEvent.unread)}
                   </View>
                 </Pressable>
               );
@@ -343,4 +363,13 @@ const styles = StyleSheet.create({
   chatPreview: { fontSize: 14, lineHeight: 18 },
   chevron: { width: 28, height: 28, borderRadius: 14, alignItems: 'center', justifyContent: 'center' },
   chevronText: { fontSize: 20, marginTop: -2 },
+  unreadBadge: {
+    minWidth: 24,
+    height: 24,
+    borderRadius: 12,
+    paddingHorizontal: 7,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadBadgeText: { color: '#FFFFFF', fontSize: 12, fontWeight: '700' },
 });
@@ -1,74 +1,148 @@
+import { Ionicons } from '@expo/vector-icons';
 import { Link, useFocusEffect } from 'expo-router';
 import React from 'react';
 import { FlatList, Pressable, RefreshControl, StyleSheet, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { EventFiltersPanel } from '@/components/event-filters-panel';
+import { SyncStatusBanner } from '@/components/sync-status-banner';
 import { ThemedText } from '@/components/themed-text';
+import {
+  applyEventFilters,
+  countActiveFilters,
+  DEFAULT_EVENT_FILTERS,
+  loadEventFilters,
+  saveEventFilters,
+  type EventFilters,
+} from '@/lib/event-filters';
+import { formatEventSchedule } from '@/lib/event-schedule';
 import { listEvents, type LocalEvent } from '@/lib/local-events';
+import { useUnreadNotificationCount } from '@/lib/notifications';
+import { peekCache, useOnReconnect } from '@/lib/offline-cache';
 import { useTheme } from '@/lib/theme';
 
 export default function EventsScreen() {
   const insets = useSafeAreaInsets();
   const { colors } = useTheme();
+  const unreadNotifications = useUnreadNotificationCount();
   const [events, setEvents] = React.useState<LocalEvent[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [refreshing, setRefreshing] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
+  const [filters, setFilters] = React.useState<EventFilters>(DEFAULT_EVENT_FILTERS);
+  const [filtersLoaded, setFiltersLoaded] = React.useState(false);
+  // load() reads the latest filters without re-running the focus effect on every keystroke
+  const filtersRef = React.useRef(filters);
+  filtersRef.current = filters;
+
+  const cacheShown = React.useRef(false);
+  // Bumped on every load so a slower response for an older query is dropped
+  const requestIdRef = React.useRef(0);
 
   const load = React.useCallback(async (showLoadingSpinner = false) => {
-    if (showLoadingSpinner) setLoading(true);
+    const requestId = ++requestIdRef.current;
     setError(null);
     try {
-      const rows = await listEvents();
-      setEvents(rows);
+      const current = filtersRef.current;
+      // First open: cached list right away instead of a spinner while the request is in flight
+      if (!cacheShown.current && !current.query) {
+        cacheShown.current = true;
+        const cached = await peekCache<LocalEvent[]>('events:upcoming');
+        if (cached?.length) {
+          const filtered = await applyEventFilters(cached, current);
+          if (requestId !== requestIdRef.current) return;
+          setEvents(filtered);
+          setLoading(false);
+          showLoadingSpinner = false;
+        }
+      }
+      if (showLoadingSpinner) setLoading(true);
+      // Text search runs on the server; the rest is applied to the result
+      const rows = await listEvents({ search: current.query });
+      const filtered = await applyEventFilters(rows, { ...current, query: '' });
+      if (requestId !== requestIdRef.current) return;
+      setEvents(filtered);
     } catch (e) {
+      if (requestId !== requestIdRef.current) return;
       setError(e instanceof Error ? e.message : 'Ошибка загрузки');
     }
     setLoading(false);
   }, []);
 
+  React.useEffect(() => {
+    loadEventFilters().then((saved) => {
+      setFilters(saved);
+      setFiltersLoaded(true);
+    });
+  }, []);
+
   useFocusEffect(
     React.useCallback(() => {
+      if (!filtersLoaded) return;
       void load(true); // initial load: show loading for empty state
-    }, [load])
+    }, [load, filtersLoaded])
   );
 
+  useOnReconnect(() => void load(false));
+
+  // Debounced reload while typing / toggling filters
+  const isFirstFilterRun = React.useRef(true);
+  React.useEffect(() => {
+    if (!filtersLoaded) return;
+    if (isFirstFilterRun.current) {
+      isFirstFilterRun.current = false;
+      return;
+    }
+    const timer = setTimeout(() => void load(false), 300);
+    return () => clearTimeout(timer);
+  }, [filters, filtersLoaded, load]);
+
+  const handleFiltersChange = React.useCallback((next: EventFilters) => {
+    setFilters(next);
+    void saveEventFilters(next);
+  }, []);
+
+  const isFiltered = filters.query.trim().length > 0 || countActiveFilters(filters) > 0;
+
   const onRefresh = React.useCallback(async () => {
     setRefreshing(true);
     await load(false);
     setRefreshing(false);
   }, [load]);
 
-  function formatDate(dateString: string): string {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 1) return 'Только что';
-    if (diffMins < 60) return `${diffMins} мин назад`;
-    if (diffHours < 24) return `${diffHours} ч назад`;
-    if (diffDays < 7) return `${diffDays} дн назад`;
-    return date.toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' });
-  }
-
   return (
     <View style={[styles.container, { backgroundColor: colors.background, paddingTop: 16 + insets.top }]}>
       <View style={styles.header}>
         <ThemedText type="title" style={[styles.headerTitle, { color: colors.text }]}>
           Ивенты
         </ThemedText>
-        <Link href="/create-event" asChild>
-          <Pressable style={[styles.createButton, { backgroundColor: colors.accent }]}>
-            <ThemedText type="defaultSemiBold" style={styles.createButtonText}>
-              + Создать
-            </ThemedText>
-          </Pressable>
-        </Link>
+        <View style={styles.headerActions}>
+          <Link href="/notifications" asChild>
+            <Pressable style={[styles.bellButton, { backgroundColor: colors.card }]} hitSlop={6}>
+              <Ionicons name="notifications-outline" size={22} color={colors.text} />
+              {unreadNotifications > 0 ? (
+                <View style={[styles.bellBadge, { backgroundColor: colors.accent }]}>
+                  <ThemedText style={styles.bellBadgeText}>
+                    {unreadNotifications > 99 ? '99+' : unreadNotifications}
+                  </ThemedText>
+                </View>
+              ) : null}
+            </Pressable>
+          </Link>
+          <Link href="/create-event" asChild>
+            <Pressable style={[styles.createButton, { backgroundColor: colors.accent }]}>
+              <ThemedText type="defaultSemiBold" style={styles.createButtonText}>
+                + Создать
+              </ThemedText>
+            </Pressable>
+          </Link>
+        </View>
       </View>
 
+      <SyncStatusBanner style={styles.syncBanner} />
+
+      <EventFiltersPanel value={filters} onChange={handleFiltersChange} />
+
       {error ? (
         <View style={[styles.errorCard, { backgroundColor: colors.border }]}>
           <ThemedText style={[styles.errorText, { color: colors.accent }]}>Ошибка: {error}</ThemedText>
@@ -86,8 +160,12 @@ export default function EventsScreen() {
         ListEmptyComponent={
           !loading ? (
             <View style={[styles.emptyCard, { backgroundColor: colors.card }]}>
-              <ThemedText style={[styles.emptyText, { color: colors.text }]}>Пока нет ивентов</ThemedText>
-              <ThemedText style={[styles.emptySubtext, { color: colors.textMuted }]}>Создайте первый ивент, чтобы начать!</ThemedText>
+              <ThemedText style={[styles.emptyText, { color: colors.text }]}>
+                {isFiltered ? 'Ничего не найдено' : 'Пока нет ивентов'}
+              </ThemedText>
+              <ThemedText style={[styles.emptySubtext, { color: colors.textMuted }]}>
+                {isFiltered ? 'Попробуйте изменить поиск или фильтры' : 'Создайте первый ивент, чтобы начать!'}
+              </ThemedText>
             </View>
           ) : (
             <View />
@@ -100,7 +178,7 @@ export default function EventsScreen() {
                 <ThemedText type="title" style={[styles.cardTitle, { color: colors.text }]}>
                   {item.title}
                 </ThemedText>
-                <ThemedText style={[styles.cardTime, { color: colors.textMuted }]}>{formatDate(item.created_at)}</ThemedText>
+                <ThemedText style={[styles.cardTime, { color: colors.textMuted }]}>{formatEventSchedule(item)}</ThemedText>
               </View>
 
               {item.description ? (
@@ -143,6 +221,21 @@ const styles = StyleSheet.create({
     paddingBottom: 16,
   },
   headerTitle: { fontSize: 28 },
+  headerActions: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  bellButton: { width: 40, height: 40, borderRadius: 20, alignItems: 'center', justifyContent: 'center' },
+  bellBadge: {
+    position: 'absolute',
+    top: -2,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  bellBadgeText: { color: '#FFFFFF', fontSize: 11, lineHeight: 14, fontWeight: '700' },
+  syncBanner: { marginHorizontal: 16, marginBottom: 12, borderRadius: 10, borderWidth: StyleSheet.hairlineWidth },
   createButton: {
     paddingHorizontal: 16,
     paddingVertical: 10,
@@ -1,17 +1,44 @@
 import * as Location from 'expo-location';
 import { router, useFocusEffect } from 'expo-router';
 import React from 'react';
-import { Animated, Image, Platform, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Animated, FlatList, Image, Platform, Pressable, StyleSheet, Text, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { LoadingScreen } from '@/components/LoadingScreen';
+import { SyncStatusBanner } from '@/components/sync-status-banner';
 import { ThemedText } from '@/components/themed-text';
 import { MAPBOX_ACCESS_TOKEN } from '@/constants/keys';
-import { listEvents, type LocalEvent } from '@/lib/local-events';
+import { applyEventFilters, countActiveFilters, DEFAULT_EVENT_FILTERS, loadEventFilters, type EventFilters } from '@/lib/event-filters';
+import { listEventsInArea, type EventArea, type LocalEvent } from '@/lib/local-events';
 import { getCurrentUserId, getNearbyUsers, type NearbyUser } from '@/lib/local-profile';
 import { updateMyLocation } from '@/lib/location';
+import { useOnReconnect } from '@/lib/offline-cache';
 import { useTheme } from '@/lib/theme';
-import Mapbox from '@rnmapbox/maps';
+import Mapbox, { type Camera, type MapState, type MapView, type ShapeSource } from '@rnmapbox/maps';
+
+const DEFAULT_CENTER: [number, number] = [74.589, 42.8746]; // Bishkek
+/** Used until the map reports its first viewport */
+const DEFAULT_RADIUS_KM = 15;
+/** Pages fetched per viewport before we stop, so a zoomed-out map stays bounded */
+const MAX_MAP_PAGES = 5;
+/** Above this zoom points are never clustered; a cluster that only splits past it opens the list sheet */
+const CLUSTER_MAX_ZOOM = 15;
+/** How long a shape source takes to show new data before its rendered points can be queried */
+const SOURCE_RENDER_DELAY_MS = 150;
+const EVENT_POINTS_LAYER = 'event-points';
+const USER_POINTS_LAYER = 'user-points';
+
+type PointFeatures = GeoJSON.FeatureCollection<GeoJSON.Point, { id: string }>;
+
+function toPointFeatures<T>(items: T[], getId: (item: T) => string, getCoords: (item: T) => [number, number] | null): PointFeatures {
+  const features: PointFeatures['features'] = [];
+  for (const item of items) {
+    const coords = getCoords(item);
+    if (!coords) continue;
+    features.push({ type: 'Feature', id: getId(item), properties: { id: getId(item) }, geometry: { type: 'Point', coordinates: coords } });
+  }
+  return { type: 'FeatureCollection', features };
+}
 
 // Helper function to get emoji from event (use event.emoji if available, otherwise fallback)
 function getEventEmoji(event: LocalEvent): string {
@@ -38,6 +65,9 @@ export default function MapScreen() {
   const insets = useSafeAreaInsets();
   const { isDark, colors } = useTheme();
   const [events, setEvents] = React.useState<LocalEvent[]>([]);
+  // Same filters as the Events tab (persisted there), applied to the pins
+  const [filters, setFilters] = React.useState<EventFilters>(DEFAULT_EVENT_FILTERS);
+  const [visibleEvents, setVisibleEvents] = React.useState<LocalEvent[]>([]);
   const [nearbyUsers, setNearbyUsers] = React.useState<NearbyUser[]>([]);
   const [selectedPoint, setSelectedPoint] = React.useState<{ lat: number; lng: number } | null>(null);
   const [selectedEvent, setSelectedEvent] = React.useState<LocalEvent | null>(null);
@@ -47,6 +77,20 @@ export default function MapScreen() {
   const cardAnimation = React.useRef(new Animated.Value(0)).current;
   const userCardAnimation = React.useRef(new Animated.Value(0)).current;
   const isFirstLoad = React.useRef(true);
+  const mapRef = React.useRef<MapView>(null);
+  const cameraRef = React.useRef<Camera>(null);
+  const eventSourceRef = React.useRef<ShapeSource>(null);
+  const userSourceRef = React.useRef<ShapeSource>(null);
+  const [showEventsLayer, setShowEventsLayer] = React.useState(true);
+  const [showPeopleLayer, setShowPeopleLayer] = React.useState(true);
+  // Ids of points the clusterer currently renders on their own; only these get a custom marker view
+  const [unclusteredEventIds, setUnclusteredEventIds] = React.useState<Set<string>>(new Set());
+  const [unclusteredUserIds, setUnclusteredUserIds] = React.useState<Set<string>>(new Set());
+  // Events of a tapped cluster that can't be zoomed apart any further
+  const [clusterEvents, setClusterEvents] = React.useState<LocalEvent[] | null>(null);
+  const areaRef = React.useRef<EventArea>({ kind: 'radius', center: DEFAULT_CENTER, radiusKm: DEFAULT_RADIUS_KM });
+  // Bumped on every fetch so pages from a stale viewport are dropped
+  const requestIdRef = React.useRef(0);
 
   React.useEffect(() => {
     Mapbox.setAccessToken(MAPBOX_ACCESS_TOKEN);
@@ -88,11 +132,21 @@ export default function MapScreen() {
     }
   }, [selectedUser, userCardAnimation]);
 
+  // Fetch events for the current viewport page by page; later pages are appended as they arrive
   const loadEvents = React.useCallback(async (showLoader = false) => {
     if (showLoader) setLoading(true);
+    const requestId = ++requestIdRef.current;
+    const area = areaRef.current;
     try {
-      const data = await listEvents();
-      setEvents(data);
+      let data: LocalEvent[] = [];
+      for (let page = 0; page < MAX_MAP_PAGES; page++) {
+        const result = await listEventsInArea(area, page);
+        if (requestId !== requestIdRef.current) return data;
+        data = page === 0 ? result.events : [...data, ...result.events];
+        setEvents(data);
+        if (page === 0) setLoading(false);
+        if (!result.hasMore) break;
+      }
       return data;
     } catch (e) {
       console.error('Ошибка загрузки ивентов:', e);
@@ -140,13 +194,135 @@ export default function MapScreen() {
     }, [loadEvents, refreshLocationAndUsers, selectedEvent?.id])
   );
 
+  useOnReconnect(() => void loadEvents(false));
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadEventFilters().then(setFilters);
+    }, [])
+  );
+
+  React.useEffect(() => {
+    let cancelled = false;
+    applyEventFilters(events, filters).then((filtered) => {
+      if (!cancelled) setVisibleEvents(filtered);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [events, filters]);
+
+  const activeFilterCount = countActiveFilters(filters) + (filters.query.trim() ? 1 : 0);
+
   const handleRefresh = React.useCallback(async () => {
     setRefreshing(true);
     await Promise.all([loadEvents(), refreshLocationAndUsers()]);
     setRefreshing(false);
   }, [loadEvents, refreshLocationAndUsers]);
 
+  const eventShape = React.useMemo(
+    () =>
+      toPointFeatures(
+        visibleEvents,
+        (ev) => ev.id,
+        (ev) => (ev.meeting_lat != null && ev.meeting_lng != null ? [ev.meeting_lng, ev.meeting_lat] : null)
+      ),
+    [visibleEvents]
+  );
+  const userShape = React.useMemo(
+    () => toPointFeatures(nearbyUsers, (u) => u.id, (u) => [u.longitude, u.latitude]),
+    [nearbyUsers]
+  );
+
+  // Ask the map which points ended up outside clusters at the current zoom
+  const refreshUnclustered = React.useCallback(async () => {
+    const map = mapRef.current;
+    if (!map) return;
+    // A hidden layer isn't in the style at all, so it just yields an empty set
+    const idsIn = async (layerId: string) => {
+      try {
+        const rendered = await map.queryRenderedFeaturesInRect([], [], [layerId]);
+        return new Set((rendered?.features ?? []).map((f) => String(f.properties?.id)));
+      } catch (e) {
+        console.warn('Map query:', e);
+        return new Set<string>();
+      }
+    };
+    const [eventIds, userIds] = await Promise.all([idsIn(EVENT_POINTS_LAYER), idsIn(USER_POINTS_LAYER)]);
+    setUnclusteredEventIds(eventIds);
+    setUnclusteredUserIds(userIds);
+  }, []);
+
+  // New data re-clusters without moving the map, and idle doesn't reliably follow a source
+  // update; give the source a moment to re-render, then ask again
+  React.useEffect(() => {
+    const timer = setTimeout(() => void refreshUnclustered(), SOURCE_RENDER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [eventShape, userShape, showEventsLayer, showPeopleLayer, refreshUnclustered]);
+
+  // Only refetch when the viewport actually moved
+  const handleMapIdle = React.useCallback(
+    (state: MapState) => {
+      const { ne, sw } = state.properties.bounds;
+      const prev = areaRef.current;
+      const moved =
+        prev.kind !== 'bounds' ||
+        prev.ne[0] !== ne[0] ||
+        prev.ne[1] !== ne[1] ||
+        prev.sw[0] !== sw[0] ||
+        prev.sw[1] !== sw[1];
+      if (moved) {
+        areaRef.current = { kind: 'bounds', ne: [ne[0], ne[1]], sw: [sw[0], sw[1]] };
+        loadEvents();
+      }
+      refreshUnclustered();
+    },
+    [loadEvents, refreshUnclustered]
+  );
+
+  const zoomIntoCluster = React.useCallback(async (source: ShapeSource | null, cluster: GeoJSON.Feature) => {
+    if (!source) return null;
+    const zoom = await source.getClusterExpansionZoom(cluster);
+    if (zoom > CLUSTER_MAX_ZOOM) return zoom;
+    cameraRef.current?.setCamera({
+      centerCoordinate: (cluster.geometry as GeoJSON.Point).coordinates,
+      zoomLevel: zoom,
+      animationDuration: 400,
+    });
+    return zoom;
+  }, []);
+
+  const handleEventClusterPress = React.useCallback(
+    async (e: { features: GeoJSON.Feature[] }) => {
+      const cluster = e.features.find((f) => f.properties?.cluster);
+      if (!cluster) return;
+      try {
+        const zoom = await zoomIntoCluster(eventSourceRef.current, cluster);
+        if (zoom === null || zoom <= CLUSTER_MAX_ZOOM || !eventSourceRef.current) return;
+        // Same spot (or nearly): zooming won't help, list them instead
+        const leaves: PointFeatures = await eventSourceRef.current.getClusterLeaves(cluster, 100, 0);
+        const ids = new Set(leaves.features.map((f) => f.properties.id));
+        setClusterEvents(visibleEvents.filter((ev) => ids.has(ev.id)));
+        setSelectedEvent(null);
+        setSelectedUser(null);
+        setSelectedPoint(null);
+      } catch (err) {
+        console.warn('Cluster:', err);
+      }
+    },
+    [visibleEvents, zoomIntoCluster]
+  );
+
+  const handleUserClusterPress = React.useCallback(
+    (e: { features: GeoJSON.Feature[] }) => {
+      const cluster = e.features.find((f) => f.properties?.cluster);
+      if (cluster) zoomIntoCluster(userSourceRef.current, cluster).catch((err) => console.warn('Cluster:', err));
+    },
+    [zoomIntoCluster]
+  );
+
   const handleMarkerPress = React.useCallback((event: LocalEvent) => {
+    setClusterEvents(null);
     setSelectedEvent(event);
     setSelectedUser(null);
     setSelectedPoint(null);
@@ -160,6 +336,7 @@ export default function MapScreen() {
 
   const handleMapPress = React.useCallback((e: any) => {
     const coords = e.geometry?.coordinates as number[] | undefined;
+    setClusterEvents(null);
     if (coords && coords.length >= 2) {
       const [lng, lat] = coords;
       setSelectedPoint({ lat, lng });
@@ -231,53 +408,135 @@ export default function MapScreen() {
       ) : (
         <View style={styles.mapContainer}>
           <Mapbox.MapView
+            ref={mapRef}
             style={{ flex: 1 }}
             styleURL={isDark ? Mapbox.StyleURL.Dark : Mapbox.StyleURL.Light}
-            onPress={handleMapPress}>
+            onPress={handleMapPress}
+            onMapIdle={handleMapIdle}>
             <Mapbox.Camera
+              ref={cameraRef}
               defaultSettings={{
-                centerCoordinate: [74.589, 42.8746], // Bishkek
+                centerCoordinate: DEFAULT_CENTER,
                 zoomLevel: 11,
               }}
             />
 
-            {events
-              .filter((ev) => ev.meeting_lat != null && ev.meeting_lng != null)
-              .map((ev) => {
-                const emoji = getEventEmoji(ev);
-                return (
+            {showEventsLayer && (
+              <Mapbox.ShapeSource
+                ref={eventSourceRef}
+                id="events"
+                shape={eventShape}
+                cluster
+                clusterRadius={50}
+                clusterMaxZoomLevel={CLUSTER_MAX_ZOOM}
+                onPress={handleEventClusterPress}>
+                <Mapbox.CircleLayer
+                  id="event-clusters"
+                  filter={['has', 'point_count']}
+                  style={{
+                    circleColor: colors.accent,
+                    circleRadius: ['step', ['get', 'point_count'], 18, 10, 24, 50, 30],
+                    circleStrokeWidth: 3,
+                    circleStrokeColor: colors.card,
+                  }}
+                />
+                <Mapbox.SymbolLayer
+                  id="event-cluster-count"
+                  filter={['has', 'point_count']}
+                  style={{
+                    textField: ['get', 'point_count_abbreviated'],
+                    textSize: 14,
+                    textColor: '#FFFFFF',
+                    textAllowOverlap: true,
+                  }}
+                />
+                {/* Invisible: only used to find unclustered points, which get an emoji marker view */}
+                <Mapbox.CircleLayer
+                  id={EVENT_POINTS_LAYER}
+                  filter={['!', ['has', 'point_count']]}
+                  style={{ circleRadius: 1, circleOpacity: 0 }}
+                />
+              </Mapbox.ShapeSource>
+            )}
+
+            {showPeopleLayer && (
+              <Mapbox.ShapeSource
+                ref={userSourceRef}
+                id="people"
+                shape={userShape}
+                cluster
+                clusterRadius={40}
+                clusterMaxZoomLevel={CLUSTER_MAX_ZOOM}
+                onPress={handleUserClusterPress}>
+                <Mapbox.CircleLayer
+                  id="user-clusters"
+                  filter={['has', 'point_count']}
+                  style={{
+                    circleColor: colors.text,
+                    circleRadius: ['step', ['get', 'point_count'], 15, 10, 20, 50, 25],
+                    circleStrokeWidth: 2,
+                    circleStrokeColor: colors.accent,
+                  }}
+                />
+                <Mapbox.SymbolLayer
+                  id="user-cluster-count"
+                  filter={['has', 'point_count']}
+                  style={{
+                    textField: ['get', 'point_count_abbreviated'],
+                    textSize: 13,
+                    textColor: colors.card,
+                    textAllowOverlap: true,
+                  }}
+                />
+                <Mapbox.CircleLayer
+                  id={USER_POINTS_LAYER}
+                  filter={['!', ['has', 'point_count']]}
+                  style={{ circleRadius: 1, circleOpacity: 0 }}
+                />
+              </Mapbox.ShapeSource>
+            )}
+
+            {showEventsLayer &&
+              visibleEvents
+                .filter((ev) => ev.meeting_lat != null && ev.meeting_lng != null && unclusteredEventIds.has(ev.id))
+                .map((ev) => {
+                  const emoji = getEventEmoji(ev);
+                  return (
+                    <Mapbox.MarkerView
+                      key={ev.id}
+                      id={`event:${ev.id}`}
+                      coordinate={[ev.meeting_lng!, ev.meeting_lat!]}
+                      anchor={{ x: 0.5, y: 0.5 }}>
+                      <Pressable
+                        onPress={() => handleMarkerPress(ev)}
+                        style={[styles.vibePin, { backgroundColor: colors.card, borderColor: colors.accent }]}>
+                        <Text style={styles.vibePinEmoji}>{emoji}</Text>
+                      </Pressable>
+                    </Mapbox.MarkerView>
+                  );
+                })}
+            {showPeopleLayer &&
+              nearbyUsers
+                .filter((user) => unclusteredUserIds.has(user.id))
+                .map((user) => (
                   <Mapbox.MarkerView
-                    key={ev.id}
-                    id={`event:${ev.id}`}
-                    coordinate={[ev.meeting_lng!, ev.meeting_lat!]}
+                    key={user.id}
+                    id={`user:${user.id}`}
+                    coordinate={[user.longitude, user.latitude]}
                     anchor={{ x: 0.5, y: 0.5 }}>
                     <Pressable
-                      onPress={() => handleMarkerPress(ev)}
-                      style={[styles.vibePin, { backgroundColor: colors.card, borderColor: colors.accent }]}>
-                      <Text style={styles.vibePinEmoji}>{emoji}</Text>
+                      onPress={() => handleUserMarkerPress(user)}
+                      style={[styles.userPin, { backgroundColor: colors.card, borderColor: colors.accent }]}>
+                      {user.avatar_url ? (
+                        <Image source={{ uri: user.avatar_url }} style={styles.userPinImage} />
+                      ) : (
+                        <Text style={[styles.userPinInitial, { color: colors.accent }]}>
+                          {(user.name || '?').charAt(0).toUpperCase()}
+                        </Text>
+                      )}
                     </Pressable>
                   </Mapbox.MarkerView>
-                );
-              })}
-            {nearbyUsers.map((user) => (
-              <Mapbox.MarkerView
-                key={user.id}
-                id={`user:${user.id}`}
-                coordinate={[user.longitude, user.latitude]}
-                anchor={{ x: 0.5, y: 0.5 }}>
-                <Pressable
-                  onPress={() => handleUserMarkerPress(user)}
-                  style={[styles.userPin, { backgroundColor: colors.card, borderColor: colors.accent }]}>
-                  {user.avatar_url ? (
-                    <Image source={{ uri: user.avatar_url }} style={styles.userPinImage} />
-                  ) : (
-                    <Text style={[styles.userPinInitial, { color: colors.accent }]}>
-                      {(user.name || '?').charAt(0).toUpperCase()}
-                    </Text>
-                  )}
-                </Pressable>
-              </Mapbox.MarkerView>
-            ))}
+                ))}
           </Mapbox.MapView>
 
           {/* Floating Refresh Button */}
@@ -293,6 +552,34 @@ export default function MapScreen() {
             )}
           </Pressable>
 
+          {/* Offline / cached data notice */}
+          <SyncStatusBanner style={[styles.syncBanner, { top: 72 + insets.top }]} />
+
+          {/* Layer toggles */}
+          <View style={[styles.layerToggles, { top: 72 + insets.top }]}>
+            {[
+              { label: '📍 Ивенты', on: showEventsLayer, toggle: () => setShowEventsLayer((v) => !v) },
+              { label: '👤 Люди', on: showPeopleLayer, toggle: () => setShowPeopleLayer((v) => !v) },
+            ].map(({ label, on, toggle }) => (
+              <Pressable
+                key={label}
+                style={[styles.layerToggle, { backgroundColor: on ? colors.accent : colors.card }]}
+                onPress={toggle}>
+                <ThemedText style={[styles.layerToggleText, { color: on ? '#FFFFFF' : colors.text }]}>{label}</ThemedText>
+              </Pressable>
+            ))}
+          </View>
+
+          {activeFilterCount > 0 && (
+            <Pressable
+              style={[styles.filtersBadge, { top: 16 + insets.top, backgroundColor: colors.card }]}
+              onPress={() => router.push('/(tabs)/explore')}>
+              <ThemedText style={[styles.refreshButtonLabel, { color: colors.text }]}>
+                Фильтры · {activeFilterCount}
+              </ThemedText>
+            </Pressable>
+          )}
+
           {/* Selected User Card (floating at bottom) */}
           {selectedUser && (
             <Animated.View
@@ -372,7 +659,7 @@ export default function MapScreen() {
                       {selectedEvent.title}
                     </ThemedText>
                     <ThemedText style={[styles.eventCardTime, { color: colors.textMuted }]}>
-                      {formatEventTime(selectedEvent.created_at)}
+                      {formatEventTime(selectedEvent.start_time ?? selectedEvent.created_at)}
                     </ThemedText>
                   </View>
                 </View>
@@ -390,6 +677,37 @@ export default function MapScreen() {
             </Animated.View>
           )}
 
+          {/* Events of a cluster that can't be split by zooming */}
+          {clusterEvents && !selectedEvent && (
+            <View style={[styles.clusterSheet, { bottom: 16 + insets.bottom, backgroundColor: colors.card }]}>
+              <View style={styles.clusterSheetHeader}>
+                <ThemedText type="defaultSemiBold" style={{ color: colors.text }}>
+                  Ивенты здесь: {clusterEvents.length}
+                </ThemedText>
+                <Pressable onPress={() => setClusterEvents(null)} hitSlop={8}>
+                  <ThemedText style={{ color: colors.textMuted }}>✕</ThemedText>
+                </Pressable>
+              </View>
+              <FlatList
+                data={clusterEvents}
+                keyExtractor={(ev) => ev.id}
+                renderItem={({ item }) => (
+                  <Pressable style={[styles.clusterRow, { borderColor: colors.border }]} onPress={() => handleMarkerPress(item)}>
+                    <ThemedText style={styles.clusterRowEmoji}>{getEventEmoji(item)}</ThemedText>
+                    <View style={styles.eventCardInfo}>
+                      <ThemedText type="defaultSemiBold" style={{ color: colors.text }} numberOfLines={1}>
+                        {item.title}
+                      </ThemedText>
+                      <ThemedText style={[styles.eventCardTime, { color: colors.textMuted }]}>
+                        {formatEventTime(item.start_time ?? item.created_at)}
+                      </ThemedText>
+                    </View>
+                  </Pressable>
+                )}
+              />
+            </View>
+          )}
+
           {/* Create Event Overlay (when point is selected) */}
           {selectedPoint && !selectedEvent && (
             <View style={[styles.overlay, { bottom: 16 + insets.bottom, backgroundColor: colors.card }]}>
@@ -422,7 +740,7 @@ export default function MapScreen() {
           )}
 
           {/* Hint when nothing is selected */}
-          {!selectedPoint && !selectedEvent && !selectedUser && !loading && (
+          {!selectedPoint && !selectedEvent && !selectedUser && !clusterEvents && !loading && (
             <View style={[styles.hint, { bottom: 16 + insets.bottom, backgroundColor: colors.card }]}>
               <ThemedText style={[styles.hintText, { color: colors.textMuted }]}>Тапни по маркеру, чтобы увидеть детали</ThemedText>
             </View>
@@ -576,6 +894,18 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 6,
   },
+  filtersBadge: {
+    position: 'absolute',
+    left: 16,
+    borderRadius: 24,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
   refreshButtonText: {
     fontSize: 18,
   },
@@ -699,6 +1029,62 @@ const styles = StyleSheet.create({
     fontSize: 14,
   },
   // Hint
+  syncBanner: {
+    position: 'absolute',
+    left: 16,
+    maxWidth: '60%',
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  layerToggles: {
+    position: 'absolute',
+    right: 16,
+    gap: 8,
+    alignItems: 'flex-end',
+  },
+  layerToggle: {
+    borderRadius: 18,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  layerToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  clusterSheet: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    maxHeight: 320,
+    borderRadius: 20,
+    padding: 16,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  clusterSheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  clusterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  clusterRowEmoji: {
+    fontSize: 22,
+  },
   hint: {
     position: 'absolute',
     left: 16,
@@ -10,9 +10,19 @@ import { LoadingScreen } from '@/components/LoadingScreen';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { VibeBadge } from '@/components/vibe-badge';
+import { getAttendanceStats, type AttendanceStats } from '@/lib/attendance';
+import { formatEventSchedule } from '@/lib/event-schedule';
 import { getMyFriends } from '@/lib/friends';
-import { listEvents } from '@/lib/local-events';
+import { listPastEventsForUser, type LocalEvent } from '@/lib/local-events';
 import { getProfile, updateProfile, type LocalProfile, type VibeIntent } from '@/lib/local-profile';
+import {
+  getNotificationPrefs,
+  NOTIFICATION_TYPES,
+  unregisterPushNotifications,
+  updateNotificationPrefs,
+  type NotificationPrefs,
+  type NotificationType,
+} from '@/lib/push-notifications';
 import { supabase, type Profile as SupabaseProfile } from '@/lib/supabase';
 import { useTheme } from '@/lib/theme';
 
@@ -30,8 +40,10 @@ export default function ProfileScreen() {
   const { colors, isDark, toggleTheme, wallpaperUri, setWallpaper } = useTheme();
   const [profile, setProfile] = React.useState<LocalProfile | null>(null);
   const [supabaseProfile, setSupabaseProfile] = React.useState<SupabaseProfile | null>(null);
-  const [eventsCount, setEventsCount] = React.useState(0);
+  const [attendance, setAttendance] = React.useState<AttendanceStats | null>(null);
   const [friendsCount, setFriendsCount] = React.useState(0);
+  const [pastEvents, setPastEvents] = React.useState<LocalEvent[]>([]);
+  const [notificationPrefs, setNotificationPrefs] = React.useState<NotificationPrefs | null>(null);
   const [loading, setLoading] = React.useState(true);
 
   // Load profile on focus: silent refresh if we already have profile
@@ -45,7 +57,13 @@ export default function ProfileScreen() {
     const isInitialLoad = profile === null;
     if (isInitialLoad) setLoading(true);
 
-    await Promise.all([loadSupabaseProfile(), loadLocalProfile(), loadStats()]);
+    await Promise.all([
+      loadSupabaseProfile(),
+      loadLocalProfile(),
+      loadStats(),
+      loadPastEvents(),
+      getNotificationPrefs().then(setNotificationPrefs),
+    ]);
 
     setLoading(false);
   }
@@ -82,11 +100,21 @@ export default function ProfileScreen() {
   }
 
   async function loadStats() {
-    const [events, friends] = await Promise.all([listEvents(), getMyFriends()]);
-    setEventsCount(events.length);
+    const { data: { user } } = await supabase.auth.getUser();
+    const [stats, friends] = await Promise.all([
+      getAttendanceStats(user ? [user.id] : []),
+      getMyFriends(),
+    ]);
+    setAttendance((user && stats.get(user.id)) ?? null);
     setFriendsCount(friends.length);
   }
 
+  async function loadPastEvents() {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    setPastEvents(await listPastEventsForUser(user.id));
+  }
+
   async function toggleGhostMode(value: boolean) {
     if (!profile) return;
     const updated = await updateProfile({
@@ -97,8 +125,23 @@ export default function ProfileScreen() {
     setProfile(updated);
   }
 
+  async function toggleNotification(type: NotificationType, value: boolean) {
+    if (!notificationPrefs) return;
+    const previous = notificationPrefs;
+    const next = { ...notificationPrefs, [type]: value };
+    setNotificationPrefs(next);
+    try {
+      await updateNotificationPrefs(next);
+    } catch {
+      setNotificationPrefs(previous);
+      Alert.alert('Ошибка', 'Не удалось сохранить настройки уведомлений.');
+    }
+  }
+
   async function handleLogout() {
     try {
+      // Stop pushes to this device while the session can still delete its token
+      await unregisterPushNotifications();
       // Sign out from Supabase
       const { error } = await supabase.auth.signOut();
       if (error) {
@@ -191,15 +234,15 @@ export default function ProfileScreen() {
         </View>
       </ThemedView>
 
-      {/* Stats Row: Events, Rating, Friends */}
+      {/* Stats Row: Attended, Hosted, Friends */}
       <View style={styles.statsRow}>
         <View style={[styles.statBlock, { backgroundColor: colors.card }]}>
-          <ThemedText type="title" style={[styles.statNumber, { color: colors.text }]}>{eventsCount}</ThemedText>
-          <ThemedText style={[styles.statLabel, { color: colors.textMuted }]}>Events</ThemedText>
+          <ThemedText type="title" style={[styles.statNumber, { color: colors.text }]}>{attendance?.attended ?? 0}</ThemedText>
+          <ThemedText style={[styles.statLabel, { color: colors.textMuted }]}>Attended</ThemedText>
         </View>
         <View style={[styles.statBlock, { backgroundColor: colors.card }]}>
-          <ThemedText type="title" style={[styles.statNumber, { color: colors.text }]}>5.0 ★</ThemedText>
-          <ThemedText style={[styles.statLabel, { color: colors.textMuted }]}>Rating</ThemedText>
+          <ThemedText type="title" style={[styles.statNumber, { color: colors.text }]}>{attendance?.hosted ?? 0}</ThemedText>
+          <ThemedText style={[styles.statLabel, { color: colors.textMuted }]}>Hosted</ThemedText>
         </View>
         <TouchableOpacity
           style={[styles.statBlock, { backgroundColor: colors.card }]}
@@ -209,6 +252,12 @@ export default function ProfileScreen() {
           <ThemedText style={[styles.statLabel, { color: colors.textMuted }]}>Friends</ThemedText>
         </TouchableOpacity>
       </View>
+      {attendance ? (
+        <ThemedText style={[styles.statsFootnote, { color: colors.textMuted }]}>
+          {attendance.check_ins_allowed ? `No-shows: ${attendance.no_shows}` : 'Check-ins off: attendance not tracked'}
+          {attendance.avg_group_size != null ? ` · Avg group: ${attendance.avg_group_size}` : ''}
+        </ThemedText>
+      ) : null}
 
       {/* Card 3: Bio */}
       {displayProfile.bio && (
@@ -291,6 +340,29 @@ export default function ProfileScreen() {
         </ThemedView>
       )}
 
+      {/* Past events: ended events I created or joined */}
+      {pastEvents.length > 0 && (
+        <ThemedView style={[styles.card, { backgroundColor: colors.card }]}>
+          <ThemedText type="defaultSemiBold" style={[styles.cardTitle, { color: colors.text }]}>
+            Прошедшие ивенты
+          </ThemedText>
+          <View style={styles.spotsList}>
+            {pastEvents.map((ev) => (
+              <TouchableOpacity
+                key={ev.id}
+                style={[styles.spotItem, { borderBottomColor: colors.border }]}
+                onPress={() => router.push({ pathname: '/event/[id]', params: { id: ev.id } })}
+                activeOpacity={0.8}>
+                <ThemedText type="defaultSemiBold" style={[styles.spotName, { color: colors.text }]} numberOfLines={1}>
+                  {ev.emoji} {ev.title}
+                </ThemedText>
+                <ThemedText style={[styles.spotAddress, { color: colors.textMuted }]}>{formatEventSchedule(ev)}</ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ThemedView>
+      )}
+
       {/* Card 8: Privacy Settings */}
       <ThemedView style={[styles.card, { backgroundColor: colors.card }]}>
         <ThemedText type="defaultSemiBold" style={[styles.cardTitle, { color: colors.text }]}>
@@ -314,6 +386,31 @@ export default function ProfileScreen() {
         </View>
       </ThemedView>
 
+      {/* Push notifications: one switch per type */}
+      {notificationPrefs && (
+        <ThemedView style={[styles.card, { backgroundColor: colors.card }]}>
+          <ThemedText type="defaultSemiBold" style={[styles.cardTitle, { color: colors.text }]}>
+            Уведомления
+          </ThemedText>
+          {NOTIFICATION_TYPES.map(({ type, label, hint }) => (
+            <View key={type} style={styles.privacyRow}>
+              <View style={styles.privacyItem}>
+                <View style={styles.privacyLabel}>
+                  <Text style={[styles.privacyText, { color: colors.text }]}>{label}</Text>
+                  <Text style={[styles.privacyHint, { color: colors.textMuted }]}>{hint}</Text>
+                </View>
+                <Switch
+                  value={notificationPrefs[type]}
+                  onValueChange={(value) => void toggleNotification(type, value)}
+                  trackColor={{ false: colors.border, true: colors.accent }}
+                  thumbColor={notificationPrefs[type] ? colors.card : colors.textMuted}
+                />
+              </View>
+            </View>
+          ))}
+        </ThemedView>
+      )}
+
       {/* Settings: Appearance */}
       <ThemedView style={[styles.card, { backgroundColor: colors.card }]}>
         <ThemedText type="defaultSemiBold" style={[styles.cardTitle, { color: colors.text }]}>
@@ -371,6 +468,9 @@ export default function ProfileScreen() {
       <TouchableOpacity style={styles.logoutButton} onPress={handleLogout} activeOpacity={0.8}>
         <Text style={[styles.logoutButtonText, { color: colors.textMuted }]}>Log Out</Text>
       </TouchableOpacity>
+      <TouchableOpacity style={styles.deleteAccountButton} onPress={() => router.push('/delete-account')} activeOpacity={0.8}>
+        <Text style={styles.deleteAccountButtonText}>Delete Account</Text>
+      </TouchableOpacity>
     </ScrollView>
   );
 }
@@ -578,6 +678,10 @@ const styles = StyleSheet.create({
     color: '#6E6E73',
     marginTop: 4,
   },
+  statsFootnote: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
   actionRow: {
     flexDirection: 'row',
     gap: 12,
@@ -638,4 +742,13 @@ const styles = StyleSheet.create({
   logoutButtonText: {
     fontSize: 14,
   },
+  deleteAccountButton: {
+    paddingVertical: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deleteAccountButtonText: {
+    fontSize: 13,
+    color: '#FF6B6B',
+  },
 });
@@ -1,5 +1,5 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack, useRouter, useSegments } from 'expo-router';
+import { Stack, usePathname, useRouter, useSegments, type Href } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import React from 'react';
 import { ImageBackground, StyleSheet, View } from 'react-native';
@@ -9,7 +9,12 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { BrandedLoading } from '@/components/BrandedLoading';
 import { ThemeProvider as AppThemeProvider, useTheme } from '@/lib/theme';
 import { checkAndSeedData } from '@/lib/seed-data';
+import { savePendingLink, takePendingLink } from '@/lib/deep-links';
+import { resumeUploads } from '@/lib/image-upload';
+import { migrateLocalDMs } from '@/lib/local-dms';
 import { hasCompleteProfile } from '@/lib/local-profile';
+import { resumeOutbox } from '@/lib/outbox';
+import { notificationHref, registerForPushNotifications, subscribeToNotificationTaps } from '@/lib/push-notifications';
 import { supabase } from '@/lib/supabase';
 import type { Session } from '@supabase/supabase-js';
 
@@ -43,9 +48,12 @@ function ThemedStack() {
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="create-event" options={{ presentation: 'modal', title: 'Создать ивент' }} />
         <Stack.Screen name="edit-profile" options={{ presentation: 'modal', title: 'Редактировать профиль' }} />
+        <Stack.Screen name="delete-account" options={{ presentation: 'modal', title: 'Удаление аккаунта' }} />
         <Stack.Screen name="event/[id]" options={{ title: 'Ивент' }} />
         <Stack.Screen name="user/[id]" options={{ title: 'Профиль' }} />
+        <Stack.Screen name="invite/[code]" options={{ title: 'Приглашение' }} />
         <Stack.Screen name="friends" options={{ title: 'Friends' }} />
+        <Stack.Screen name="notifications" options={{ title: 'Уведомления' }} />
         <Stack.Screen name="dm/[id]" options={{ title: 'Чат' }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
@@ -60,6 +68,7 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const segments = useSegments();
+  const pathname = usePathname();
   const router = useRouter();
   const [isLoading, setIsLoading] = React.useState(true);
   const [session, setSession] = React.useState<Session | null>(null);
@@ -91,6 +100,12 @@ export default function RootLayout() {
 
     // Seed data in the background - don't wait for it
     void checkAndSeedData();
+    // Upload DM history from the old AsyncStorage-only version (no-op once done)
+    void migrateLocalDMs();
+    // Finish photo messages queued before the app was closed
+    void resumeUploads();
+    void resumeOutbox();
+    void registerForPushNotifications();
   }, [isLoading, session]);
 
   // Handle navigation after auth check: session + profile completeness
@@ -121,6 +136,12 @@ export default function RootLayout() {
     return () => { cancelled = true; };
   }, [session, segments[0]]);
 
+  // Tapped notifications open the event, DM or friend requests they're about
+  React.useEffect(() => {
+    if (!session || !hasProfile) return;
+    return subscribeToNotificationTaps((target) => router.push(notificationHref(target)));
+  }, [session, hasProfile, router]);
+
   React.useEffect(() => {
     if (isLoading || !profileChecked) return;
 
@@ -129,19 +150,27 @@ export default function RootLayout() {
     const inTabs = segments[0] === '(tabs)';
     const isAuthenticated = !!session;
 
+    // A shared event/profile link opened before sign-in is kept and opened afterwards
     if (!isAuthenticated) {
-      if (!inOnboarding) router.replace('/onboarding');
+      if (!inOnboarding) void savePendingLink(pathname).finally(() => router.replace('/onboarding'));
       return;
     }
 
     if (!hasProfile && !inCreateProfile) {
-      router.replace('/create-profile');
+      void savePendingLink(pathname).finally(() => router.replace('/create-profile'));
       return;
     }
     if (hasProfile && (inOnboarding || inCreateProfile)) {
       router.replace('/(tabs)');
     }
-  }, [isLoading, session, segments, router, profileChecked, hasProfile]);
+  }, [isLoading, session, segments, pathname, router, profileChecked, hasProfile]);
+
+  React.useEffect(() => {
+    if (isLoading || !profileChecked || !session || !hasProfile) return;
+    void takePendingLink().then((path) => {
+      if (path) router.push(path as Href);
+    });
+  }, [isLoading, profileChecked, session, hasProfile, router]);
 
   if (isLoading) {
     return <BrandedLoading />;
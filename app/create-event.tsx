@@ -3,32 +3,20 @@ import React from 'react';
 import { Modal, Pressable, ScrollView, StyleSheet, Switch, TextInput, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { EventSchedulePicker } from '@/components/event-schedule-picker';
+import { RecurrencePicker } from '@/components/recurrence-picker';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { EVENT_EMOJI_OPTIONS } from '@/constants/event-emoji';
+import { CHECK_IN_RADIUS_OPTIONS, DEFAULT_CHECK_IN_RADIUS_M } from '@/lib/event-checkins';
+import type { RecurrenceRule } from '@/lib/event-recurrence';
+import { DEFAULT_EVENT_DURATION_MIN, nextQuarterHour } from '@/lib/event-schedule';
+import { EVENT_VISIBILITY_OPTIONS, type EventVisibility } from '@/lib/event-visibility';
 import { getEmojiFromPlace, reverseGeocode } from '@/lib/geocoding';
-import { createEvent } from '@/lib/local-events';
+import { createEvent, createEventSeries } from '@/lib/local-events';
 import { getOrCreateLocalUserId } from '@/lib/local-user';
 import { useTheme } from '@/lib/theme';
 
-const EMOJI_OPTIONS = [
-  '📍', // Default
-  '☕', // Coffee
-  '🍷', // Wine/Bar
-  '🌳', // Park
-  '🏋️', // Gym
-  '💻', // Work
-  '🍽️', // Restaurant
-  '🎵', // Music
-  '🎨', // Art
-  '🗣️', // Language
-  '💕', // Date
-  '🤝', // Networking
-  '🏃', // Sports
-  '🎬', // Cinema
-  '📚', // Books
-  '🎮', // Games
-];
-
 export default function CreateEventScreen() {
   const insets = useSafeAreaInsets();
   const { colors } = useTheme();
@@ -46,6 +34,15 @@ export default function CreateEventScreen() {
   const [showEmojiPicker, setShowEmojiPicker] = React.useState(false);
   /** Require Approval (Face Control): creator must approve guests before they join */
   const [requireApproval, setRequireApproval] = React.useState(false);
+  /** Empty = unlimited */
+  const [maxParticipants, setMaxParticipants] = React.useState('');
+  const [visibility, setVisibility] = React.useState<EventVisibility>('public');
+  const [checkInRadius, setCheckInRadius] = React.useState(DEFAULT_CHECK_IN_RADIUS_M);
+  const [startTime, setStartTime] = React.useState(() => nextQuarterHour());
+  const [durationMin, setDurationMin] = React.useState(DEFAULT_EVENT_DURATION_MIN);
+  const [recurrence, setRecurrence] = React.useState<RecurrenceRule | null>(null);
+  /** Recurring only: all occurrences share one chat */
+  const [sharedChat, setSharedChat] = React.useState(true);
 
   // Auto-fetch place when coordinates are provided
   React.useEffect(() => {
@@ -76,7 +73,10 @@ export default function CreateEventScreen() {
     }
   }, [meetingLat, meetingLng]);
 
-  const canSave = title.trim().length >= 3 && !saving;
+  const parsedMax = maxParticipants.trim() ? Number(maxParticipants.trim()) : null;
+  const maxValid = parsedMax === null || (Number.isInteger(parsedMax) && parsedMax > 0);
+
+  const canSave = title.trim().length >= 3 && maxValid && !saving;
 
   const parsedLat = meetingLat.trim() ? Number(meetingLat.trim().replace(',', '.')) : null;
   const parsedLng = meetingLng.trim() ? Number(meetingLng.trim().replace(',', '.')) : null;
@@ -91,7 +91,7 @@ export default function CreateEventScreen() {
     // Get current user ID as creator
     const creatorId = await getOrCreateLocalUserId();
     
-    const ev = await createEvent({
+    const input = {
       title: title.trim(),
       description: description.trim() ? description.trim() : null,
       meeting_place: meetingPlace.trim() ? meetingPlace.trim() : null,
@@ -102,7 +102,15 @@ export default function CreateEventScreen() {
       place_category: placeCategory,
       creator_id: creatorId,
       auto_accept: !requireApproval, // false = require approval
-    });
+      max_participants: maxValid ? parsedMax : null,
+      visibility,
+      checkin_radius_m: checkInRadius,
+      start_time: startTime.toISOString(),
+      end_time: new Date(startTime.getTime() + durationMin * 60000).toISOString(),
+    };
+    const ev = recurrence
+      ? await createEventSeries(input, recurrence, { shared_chat: sharedChat })
+      : await createEvent(input);
     setSaving(false);
     router.back();
     router.push({ pathname: '/event/[id]', params: { id: ev.id } });
@@ -111,7 +119,10 @@ export default function CreateEventScreen() {
   const inputStyle = [styles.input, { backgroundColor: colors.card, color: colors.text, borderColor: colors.border }];
 
   return (
-    <ThemedView style={[styles.container, { backgroundColor: colors.background, paddingTop: 16 + insets.top }]}>
+    <ScrollView
+      style={[styles.scroll, { backgroundColor: colors.background }]}
+      contentContainerStyle={[styles.container, { paddingTop: 16 + insets.top, paddingBottom: 16 + insets.bottom }]}
+      keyboardShouldPersistTaps="handled">
       <ThemedText type="title">Создать ивент</ThemedText>
 
       <ThemedView style={styles.field}>
@@ -138,6 +149,36 @@ export default function CreateEventScreen() {
         />
       </ThemedView>
 
+      <ThemedView style={styles.field}>
+        <ThemedText type="defaultSemiBold">Когда</ThemedText>
+        <EventSchedulePicker
+          start={startTime}
+          durationMinutes={durationMin}
+          onChangeStart={setStartTime}
+          onChangeDuration={setDurationMin}
+          minimumDate={new Date()}
+        />
+      </ThemedView>
+
+      <ThemedView style={styles.field}>
+        <ThemedText type="defaultSemiBold">Повтор</ThemedText>
+        <RecurrencePicker value={recurrence} onChange={setRecurrence} start={startTime} />
+        {recurrence ? (
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <ThemedText type="defaultSemiBold">Общий чат</ThemedText>
+              <ThemedText style={[styles.switchHint, { color: colors.textMuted }]}>Одна история сообщений для всех встреч серии.</ThemedText>
+            </View>
+            <Switch
+              value={sharedChat}
+              onValueChange={setSharedChat}
+              trackColor={{ false: colors.border, true: colors.accent }}
+              thumbColor={sharedChat ? colors.card : colors.textMuted}
+            />
+          </View>
+        ) : null}
+      </ThemedView>
+
       {/* Meeting Point Section */}
       <ThemedView style={styles.field}>
         <ThemedText type="defaultSemiBold">Meeting Point</ThemedText>
@@ -187,6 +228,48 @@ export default function CreateEventScreen() {
         ) : null}
       </ThemedView>
 
+      {/* Who can see the event */}
+      <ThemedView style={styles.field}>
+        <ThemedText type="defaultSemiBold">Кто видит ивент</ThemedText>
+        <View style={styles.chips}>
+          {EVENT_VISIBILITY_OPTIONS.map((option) => {
+            const selected = visibility === option.value;
+            return (
+              <Pressable
+                key={option.value}
+                style={[styles.chip, { backgroundColor: selected ? colors.accent : colors.card, borderColor: colors.border }]}
+                onPress={() => setVisibility(option.value)}>
+                <ThemedText style={[styles.chipText, { color: selected ? colors.card : colors.text }]}>{option.label}</ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+        <ThemedText style={[styles.switchHint, { color: colors.textMuted }]}>
+          {EVENT_VISIBILITY_OPTIONS.find((o) => o.value === visibility)?.hint}
+        </ThemedText>
+      </ThemedView>
+
+      {/* Check-in geofence around the meeting point */}
+      <ThemedView style={styles.field}>
+        <ThemedText type="defaultSemiBold">Радиус чек-ина</ThemedText>
+        <View style={styles.chips}>
+          {CHECK_IN_RADIUS_OPTIONS.map((meters) => {
+            const selected = checkInRadius === meters;
+            return (
+              <Pressable
+                key={meters}
+                style={[styles.chip, { backgroundColor: selected ? colors.accent : colors.card, borderColor: colors.border }]}
+                onPress={() => setCheckInRadius(meters)}>
+                <ThemedText style={[styles.chipText, { color: selected ? colors.card : colors.text }]}>{meters} м</ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+        <ThemedText style={[styles.switchHint, { color: colors.textMuted }]}>
+          Участники смогут отметиться во время ивента, если будут не дальше {checkInRadius} м от точки встречи.
+        </ThemedText>
+      </ThemedView>
+
       {/* Require Approval (Face Control) */}
       <ThemedView style={styles.field}>
         <View style={styles.switchRow}>
@@ -203,6 +286,24 @@ export default function CreateEventScreen() {
         </View>
       </ThemedView>
 
+      {/* Capacity: extra joins go to the waitlist */}
+      <ThemedView style={styles.field}>
+        <ThemedText type="defaultSemiBold">Максимум участников</ThemedText>
+        <TextInput
+          value={maxParticipants}
+          onChangeText={setMaxParticipants}
+          placeholder="Без ограничений"
+          placeholderTextColor={colors.textMuted}
+          keyboardType="number-pad"
+          style={inputStyle}
+        />
+        {!maxValid ? (
+          <ThemedText style={styles.warn}>Укажи целое число больше нуля (или оставь пустым).</ThemedText>
+        ) : (
+          <ThemedText style={[styles.switchHint, { color: colors.textMuted }]}>Когда мест не останется, новые гости попадут в лист ожидания.</ThemedText>
+        )}
+      </ThemedView>
+
       <Pressable
         style={[styles.button, { backgroundColor: colors.accent }, !canSave ? styles.buttonDisabled : null]}
         disabled={!canSave}
@@ -227,7 +328,7 @@ export default function CreateEventScreen() {
               Выбери эмодзи
             </ThemedText>
             <ScrollView contentContainerStyle={styles.emojiGrid}>
-              {EMOJI_OPTIONS.map((emojiOption) => (
+              {EVENT_EMOJI_OPTIONS.map((emojiOption) => (
                 <Pressable
                   key={emojiOption}
                   style={[
@@ -246,13 +347,16 @@ export default function CreateEventScreen() {
           </View>
         </Pressable>
       </Modal>
-    </ThemedView>
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
-  container: {
+  scroll: {
     flex: 1,
+  },
+  container: {
+    flexGrow: 1,
     padding: 16,
     gap: 14,
   },
@@ -304,6 +408,20 @@ const styles = StyleSheet.create({
   coordInput: {
     flex: 1,
   },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  chipText: {
+    fontSize: 14,
+  },
   switchRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -14,7 +14,7 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { ThemedText } from '@/components/themed-text';
-import { uploadImage } from '@/lib/image-upload';
+import { cancelUpload, enqueueImageUpload, waitForUpload } from '@/lib/image-upload';
 import { upsertProfile } from '@/lib/local-profile';
 import { useTheme } from '@/lib/theme';
 
@@ -29,6 +29,8 @@ export default function CreateProfileScreen() {
   const [vibe, setVibe] = React.useState('');
   const [saving, setSaving] = React.useState(false);
   const [uploadingAvatar, setUploadingAvatar] = React.useState(false);
+  /** Queued avatar upload; cleared when the user cancels it */
+  const avatarJobId = React.useRef<string | null>(null);
 
   async function pickAvatar() {
     const perm = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -46,14 +48,25 @@ export default function CreateProfileScreen() {
 
     setUploadingAvatar(true);
     try {
-      const url = await uploadImage(result.assets[0].uri);
-      if (url) setAvatarUri(url);
-      else Alert.alert('Ошибка', 'Не удалось загрузить фото.');
+      const job = await enqueueImageUpload(result.assets[0].uri, result.assets[0].mimeType, { type: 'avatar' });
+      avatarJobId.current = job.id;
+      const { image } = await waitForUpload(job.id);
+      setAvatarUri(image.url);
+    } catch {
+      // No alert when the user cancelled it
+      if (avatarJobId.current) Alert.alert('Ошибка', 'Не удалось загрузить фото.');
     } finally {
+      avatarJobId.current = null;
       setUploadingAvatar(false);
     }
   }
 
+  function cancelAvatarUpload() {
+    const id = avatarJobId.current;
+    avatarJobId.current = null;
+    if (id) void cancelUpload(id);
+  }
+
   async function handleComplete() {
     const name = displayName.trim();
     if (!name) {
@@ -87,15 +100,17 @@ export default function CreateProfileScreen() {
       </ThemedText>
 
       <Pressable
-        onPress={pickAvatar}
-        style={styles.avatarWrap}
-        disabled={uploadingAvatar}>
+        onPress={uploadingAvatar ? cancelAvatarUpload : pickAvatar}
+        style={styles.avatarWrap}>
         {avatarUri ? (
           <Image source={{ uri: avatarUri }} style={styles.avatarImage} />
         ) : (
           <View style={[styles.avatarPlaceholder, { backgroundColor: colors.border, borderColor: colors.accent }]}>
             {uploadingAvatar ? (
-              <ActivityIndicator size="large" color={colors.accent} />
+              <>
+                <ActivityIndicator size="large" color={colors.accent} />
+                <ThemedText style={[styles.avatarHint, { color: colors.textMuted }]}>Нажми, чтобы отменить</ThemedText>
+              </>
             ) : (
               <>
                 <Ionicons name="camera" size={48} color={colors.textMuted} />
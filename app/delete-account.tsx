@@ -0,0 +1,184 @@
+import React from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { formatEventSchedule } from '@/lib/event-schedule';
+import { listHostedEventsForHandover, type EventParticipant, type LocalEvent } from '@/lib/local-events';
+import { deleteAccount } from '@/lib/local-profile';
+import { getCurrentUserId } from '@/lib/local-user';
+import { useTheme } from '@/lib/theme';
+
+type HostedEvent = { event: LocalEvent; candidates: EventParticipant[] };
+
+/** New owner per event; null = cancel the event */
+type Choices = Record<string, string | null>;
+
+export default function DeleteAccountScreen() {
+  const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+  const [hosted, setHosted] = React.useState<HostedEvent[] | null>(null);
+  const [choices, setChoices] = React.useState<Choices>({});
+  const [error, setError] = React.useState<string | null>(null);
+  const [deleting, setDeleting] = React.useState(false);
+
+  React.useEffect(() => {
+    (async () => {
+      try {
+        const userId = await getCurrentUserId();
+        const list = userId ? await listHostedEventsForHandover(userId) : [];
+        setHosted(list);
+        // Nobody gets an event they weren't explicitly picked for: cancel unless chosen
+        setChoices(Object.fromEntries(list.map(({ event }) => [event.id, null])));
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Не удалось загрузить ивенты');
+        setHosted([]);
+      }
+    })();
+  }, []);
+
+  function confirmDelete() {
+    Alert.alert(
+      'Удалить аккаунт?',
+      'Профиль, сообщения и дружбы удалятся навсегда. Это действие нельзя отменить.',
+      [
+        { text: 'Отмена', style: 'cancel' },
+        { text: 'Удалить', style: 'destructive', onPress: () => void handleDelete() },
+      ]
+    );
+  }
+
+  async function handleDelete() {
+    setDeleting(true);
+    setError(null);
+    try {
+      const handover = Object.fromEntries(
+        Object.entries(choices).filter((entry): entry is [string, string] => entry[1] !== null)
+      );
+      await deleteAccount(handover);
+      // The auth state change listener in _layout.tsx redirects to onboarding
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Не удалось удалить аккаунт');
+      setDeleting(false);
+    }
+  }
+
+  function chip(label: string, selected: boolean, onPress: () => void) {
+    return (
+      <Pressable
+        key={label}
+        style={[styles.chip, { backgroundColor: selected ? colors.accent : colors.background, borderColor: colors.border }]}
+        onPress={onPress}>
+        <ThemedText style={[styles.chipText, { color: selected ? colors.card : colors.text }]}>{label}</ThemedText>
+      </Pressable>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={[styles.scroll, { backgroundColor: colors.background }]}
+      contentContainerStyle={[styles.container, { paddingBottom: 24 + insets.bottom }]}>
+      <ThemedText style={[styles.intro, { color: colors.text }]}>
+        Вместе с аккаунтом удалятся профиль и сообщения. Прошедшие ивенты останутся у гостей, предстоящие можно передать или отменить.
+      </ThemedText>
+
+      {hosted === null ? (
+        <ActivityIndicator color={colors.accent} />
+      ) : hosted.length > 0 ? (
+        <>
+          <ThemedText type="defaultSemiBold">Твои предстоящие ивенты</ThemedText>
+          <ThemedText style={[styles.hint, { color: colors.textMuted }]}>
+            Передай ивент участнику, чтобы встреча состоялась, или отмени его: гости получат уведомление.
+          </ThemedText>
+          {hosted.map(({ event, candidates }) => (
+            <View key={event.id} style={[styles.card, { backgroundColor: colors.card }]}>
+              <ThemedText type="defaultSemiBold" style={{ color: colors.text }}>
+                {event.emoji} {event.title}
+              </ThemedText>
+              <ThemedText style={[styles.hint, { color: colors.textMuted }]}>{formatEventSchedule(event)}</ThemedText>
+              <View style={styles.chips}>
+                {candidates.map((p) =>
+                  chip(p.role === 'cohost' ? `★ ${p.name}` : p.name, choices[event.id] === p.id, () =>
+                    setChoices((prev) => ({ ...prev, [event.id]: p.id }))
+                  )
+                )}
+                {chip('Отменить ивент', choices[event.id] === null, () =>
+                  setChoices((prev) => ({ ...prev, [event.id]: null }))
+                )}
+              </View>
+              {candidates.length === 0 ? (
+                <ThemedText style={[styles.hint, { color: colors.textMuted }]}>
+                  Передать некому: участников пока нет.
+                </ThemedText>
+              ) : null}
+            </View>
+          ))}
+        </>
+      ) : null}
+
+      {error ? <ThemedText style={styles.error}>{error}</ThemedText> : null}
+
+      <Pressable
+        style={[styles.deleteButton, (deleting || hosted === null) && styles.deleteButtonDisabled]}
+        onPress={confirmDelete}
+        disabled={deleting || hosted === null}>
+        <ThemedText type="defaultSemiBold" style={styles.deleteButtonText}>
+          {deleting ? 'Удаляю…' : 'Удалить аккаунт'}
+        </ThemedText>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flex: 1,
+  },
+  container: {
+    padding: 16,
+    gap: 14,
+  },
+  intro: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  hint: {
+    fontSize: 13,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 14,
+    gap: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  error: {
+    color: '#FF6B6B',
+  },
+  deleteButton: {
+    marginTop: 6,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#FF6B6B',
+    alignItems: 'center',
+  },
+  deleteButtonDisabled: {
+    opacity: 0.5,
+  },
+  deleteButtonText: {
+    color: '#FFFFFF',
+  },
+});
@@ -1,22 +1,60 @@
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
 import { router, Stack, useLocalSearchParams } from 'expo-router';
 import React from 'react';
-import { FlatList, Image, KeyboardAvoidingView, Platform, Pressable, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  Keyboard,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  useWindowDimensions,
+  View,
+} from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { MessageAttachments } from '@/components/message-attachments';
+import { PendingMessageBubble } from '@/components/pending-message-bubble';
+import { PendingUploadBubble } from '@/components/pending-upload-bubble';
+import { SyncStatusBanner } from '@/components/sync-status-banner';
 import { ThemedText } from '@/components/themed-text';
-import { getDMMessages, getOrCreateDMChat, sendDMMessage, type DMMessage } from '@/lib/local-dms';
+import { enqueueImageUpload, usePendingUploads, waitForUpload, type UploadJob } from '@/lib/image-upload';
+import {
+  getDMMessages,
+  getDMSeenAt,
+  getOrCreateDMChat,
+  markDMRead,
+  subscribeToDMMessages,
+  subscribeToDMSeen,
+  type DMMessage,
+} from '@/lib/local-dms';
 import { getProfile } from '@/lib/local-profile';
 import { getOrCreateLocalUserId } from '@/lib/local-user';
+import { requestMyCoords } from '@/lib/location';
+import type { MessageInput } from '@/lib/message-content';
+import { peekCache, useOnReconnect } from '@/lib/offline-cache';
+import { onOutboxSent, sendDMMessageOrQueue, useOutbox, type OutboxOp } from '@/lib/outbox';
 import { useTheme } from '@/lib/theme';
+import { refreshUnreadCounts } from '@/lib/unread';
 
 type ChatRow =
   | { type: 'sep'; id: string; label: string }
-  | { type: 'msg'; id: string; msg: DMMessage };
+  | { type: 'msg'; id: string; msg: DMMessage }
+  | { type: 'upload'; id: string; job: UploadJob }
+  | { type: 'pending'; id: string; op: OutboxOp };
 
 export default function DMChatScreen() {
   const insets = useSafeAreaInsets();
   const { colors } = useTheme();
+  const { width: winWidth } = useWindowDimensions();
+  const bubbleImageSize = Math.min(200, Math.round(winWidth * 0.55));
   const params = useLocalSearchParams<{ id: string; name: string; avatar: string; vibe: string }>();
 
   const chatId = params.id || '';
@@ -27,22 +65,51 @@ export default function DMChatScreen() {
   const [messages, setMessages] = React.useState<DMMessage[]>([]);
   const [text, setText] = React.useState('');
   const [sending, setSending] = React.useState(false);
+  const [uploading, setUploading] = React.useState(false);
   const [myUserId, setMyUserId] = React.useState<string | null>(null);
+  /** Other member's read cursor: my messages up to here get the "seen" tick */
+  const [seenAt, setSeenAt] = React.useState<string | null>(null);
   const listRef = React.useRef<FlatList<ChatRow> | null>(null);
+  const uploads = usePendingUploads();
+  const pendingUploads = React.useMemo(
+    () => uploads.filter((j) => j.target.type === 'dm-message' && j.target.chatId === chatId),
+    [uploads, chatId]
+  );
+  const outbox = useOutbox();
+  const pendingMessages = React.useMemo(
+    () => outbox.filter((op) => op.action.type === 'dm-message' && op.action.chatId === chatId),
+    [outbox, chatId]
+  );
+  const loaded = React.useRef(false);
 
-  // Polling interval for new messages (to catch bot replies)
-  const pollInterval = React.useRef<NodeJS.Timeout | null>(null);
+  // Cached messages for an instant first render; load() replaces them once the server answers
+  React.useEffect(() => {
+    if (!chatId) return;
+    let cancelled = false;
+    peekCache<DMMessage[]>(`dm:${chatId}`).then((cached) => {
+      if (cached && !cancelled && !loaded.current) setMessages(cached);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId]);
 
   const load = React.useCallback(async () => {
     if (!chatId) return;
     try {
-      // Ensure chat exists
-      await getOrCreateDMChat(chatId, userName, userAvatar, userVibe);
+      // Ensure chat exists (fails offline; cached messages are still shown)
+      await getOrCreateDMChat(chatId, userName, userAvatar, userVibe).catch((e) =>
+        console.warn('DM chat:', e)
+      );
       // Load messages
-      const msgs = await getDMMessages(chatId);
+      const [msgs, seen] = await Promise.all([getDMMessages(chatId), getDMSeenAt(chatId).catch(() => null)]);
+      loaded.current = true;
       setMessages(msgs);
+      setSeenAt(seen);
       const uid = await getOrCreateLocalUserId();
       setMyUserId(uid);
+      await markDMRead(chatId);
+      void refreshUnreadCounts();
     } catch (e) {
       console.error('Error loading DM:', e);
     }
@@ -50,51 +117,140 @@ export default function DMChatScreen() {
 
   React.useEffect(() => {
     void load();
+  }, [load]);
 
-    // Start polling for new messages (for bot replies)
-    pollInterval.current = setInterval(async () => {
-      if (chatId) {
-        const msgs = await getDMMessages(chatId);
-        setMessages(msgs);
-      }
-    }, 1500);
+  useOnReconnect(() => void load());
 
-    return () => {
-      if (pollInterval.current) {
-        clearInterval(pollInterval.current);
+  // Messages queued while offline, as they reach the server
+  React.useEffect(
+    () =>
+      onOutboxSent(({ dmMessage }) => {
+        const msg = dmMessage;
+        if (msg?.chatId === chatId) setMessages((prev) => (prev.some((m) => m.id === msg.id) ? prev : [...prev, msg]));
+      }),
+    [chatId]
+  );
+
+  // Realtime: new messages from either side (own ones may already be in the list from onSend)
+  React.useEffect(() => {
+    if (!chatId) return;
+    return subscribeToDMMessages(chatId, (msg) => {
+      setMessages((prev) => (prev.some((m) => m.id === msg.id) ? prev : [...prev, msg]));
+      if (msg.senderId === chatId) {
+        markDMRead(chatId)
+          .then(() => refreshUnreadCounts())
+          .catch((e) => console.warn('DM read:', e));
       }
-    };
-  }, [load, chatId]);
+      requestAnimationFrame(() => {
+        listRef.current?.scrollToEnd({ animated: true });
+      });
+    });
+  }, [chatId]);
+
+  React.useEffect(() => {
+    if (!chatId) return;
+    return subscribeToDMSeen(chatId, setSeenAt);
+  }, [chatId]);
+
+  async function send(input: string | MessageInput) {
+    const userId = await getOrCreateLocalUserId();
+    const profile = await getProfile();
+    const authorName = profile.name || 'Guest';
+    const authorAvatar = profile.photos && profile.photos.length > 0 ? profile.photos[0] : null;
+    const authorVibe = profile.vibeIntent || null;
+
+    // Null when offline: the message waits in the outbox and shows as pending
+    const msg = await sendDMMessageOrQueue(chatId, input, userId, {
+      name: authorName,
+      avatar_url: authorAvatar,
+      vibe: authorVibe,
+    });
+    if (msg) setMessages((prev) => (prev.some((m) => m.id === msg.id) ? prev : [...prev, msg]));
+    requestAnimationFrame(() => {
+      listRef.current?.scrollToEnd({ animated: true });
+    });
+  }
 
   async function onSend() {
     const body = text.trim();
     if (!body || !chatId || sending) return;
     setSending(true);
-    const userId = await getOrCreateLocalUserId();
-
     try {
-      const profile = await getProfile();
-      const authorName = profile.name || 'Guest';
-      const authorAvatar = profile.photos && profile.photos.length > 0 ? profile.photos[0] : null;
-      const authorVibe = profile.vibeIntent || null;
-
-      const msg = await sendDMMessage(
-        chatId,
-        body,
-        userId,
-        { name: authorName, avatar_url: authorAvatar, vibe: authorVibe },
-        true // Enable bot simulation
-      );
-      setMessages((prev) => [...prev, msg]);
+      await send(body);
     } catch (e) {
       console.error('Error sending DM:', e);
     }
     setSending(false);
     setText('');
+  }
 
-    requestAnimationFrame(() => {
-      listRef.current?.scrollToEnd({ animated: true });
-    });
+  async function handlePickImage() {
+    try {
+      const perm = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!perm.granted) {
+        Alert.alert('Доступ к фото', 'Разреши доступ к галерее, чтобы отправлять фото.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.5,
+        allowsEditing: false,
+      });
+      if (result.canceled) return;
+      const asset = result.assets?.[0];
+      if (!asset?.uri) {
+        Alert.alert('Ошибка', 'Не удалось получить изображение.');
+        return;
+      }
+
+      // Whatever is typed goes out as the caption; the queue sends the message after the upload
+      setUploading(true);
+      const caption = text.trim();
+      const job = await enqueueImageUpload(asset.uri, asset.mimeType, { type: 'dm-message', chatId, caption });
+      if (caption) setText('');
+      waitForUpload(job.id)
+        .then((r) => {
+          const msg = r.dmMessage;
+          if (msg) setMessages((prev) => (prev.some((m) => m.id === msg.id) ? prev : [...prev, msg]));
+        })
+        .catch(() => {}); // the bubble shows the failure and offers a retry
+    } catch (e) {
+      console.error('Error sending DM image:', e);
+      Alert.alert('Ошибка', 'Не удалось подготовить фото.');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleShareLocation() {
+    setUploading(true);
+    try {
+      const coords = await requestMyCoords();
+      if (!coords) {
+        Alert.alert('Геопозиция', 'Разреши доступ к геопозиции, чтобы поделиться ею.');
+        return;
+      }
+      await send({
+        kind: 'location',
+        body: '',
+        attachments: [{ type: 'location', latitude: coords.lat, longitude: coords.lng, label: null }],
+      });
+    } catch (e) {
+      console.error('Error sending DM location:', e);
+      Alert.alert('Ошибка', 'Не удалось отправить геопозицию.');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  function handleAttach() {
+    Keyboard.dismiss();
+    Alert.alert('Отправить', undefined, [
+      { text: 'Фото', onPress: () => void handlePickImage() },
+      { text: 'Моя геопозиция', onPress: () => void handleShareLocation() },
+      { text: 'Отмена', style: 'cancel' },
+    ]);
   }
 
   function dateKey(d: Date) {
@@ -119,17 +275,31 @@ export default function DMChatScreen() {
   const rows: ChatRow[] = React.useMemo(() => {
     const out: ChatRow[] = [];
     let lastDay: string | null = null;
-    for (const m of messages) {
-      const d = new Date(m.created_at);
+    const pushSep = (createdAt: string) => {
+      const d = new Date(createdAt);
       const k = dateKey(d);
       if (k !== lastDay) {
         out.push({ type: 'sep', id: `sep:${k}`, label: dateLabel(d) });
         lastDay = k;
       }
+    };
+    for (const m of messages) {
+      pushSep(m.created_at);
       out.push({ type: 'msg', id: `msg:${m.id}`, msg: m });
     }
+    // Messages waiting in the outbox and photos still uploading go after everything sent
+    const sentIds = new Set(messages.map((m) => m.id));
+    for (const op of pendingMessages) {
+      if (sentIds.has(op.id)) continue;
+      pushSep(op.created_at);
+      out.push({ type: 'pending', id: `pending:${op.id}`, op });
+    }
+    for (const job of pendingUploads) {
+      pushSep(job.created_at);
+      out.push({ type: 'upload', id: `upload:${job.id}`, job });
+    }
     return out;
-  }, [messages]);
+  }, [messages, pendingMessages, pendingUploads]);
 
   // Navigate to user profile
   const handleAvatarPress = () => {
@@ -181,7 +351,8 @@ export default function DMChatScreen() {
           style={[styles.container, { backgroundColor: colors.background }]}
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
           keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}>
-          {messages.length === 0 ? (
+          <SyncStatusBanner />
+          {messages.length === 0 && pendingUploads.length === 0 && pendingMessages.length === 0 ? (
             <View style={styles.emptyState}>
               <View style={[styles.emptyAvatar, { backgroundColor: colors.border }]}>
                 {userAvatar ? (
@@ -209,6 +380,12 @@ export default function DMChatScreen() {
                 listRef.current?.scrollToEnd({ animated: false });
               }}
               renderItem={({ item }) => {
+                if (item.type === 'upload') {
+                  return <PendingUploadBubble job={item.job} maxImageSize={bubbleImageSize} />;
+                }
+                if (item.type === 'pending') {
+                  return <PendingMessageBubble op={item.op} maxImageSize={bubbleImageSize} />;
+                }
                 if (item.type === 'sep') {
                   return (
                     <View style={styles.sepWrap}>
@@ -220,7 +397,18 @@ export default function DMChatScreen() {
                 }
 
                 const msg = item.msg;
+                if (msg.kind === 'system') {
+                  return (
+                    <View style={styles.sepWrap}>
+                      <View style={[styles.sepPill, { backgroundColor: colors.border }]}>
+                        <ThemedText style={[styles.sepText, { color: colors.textMuted }]}>{msg.body}</ThemedText>
+                      </View>
+                    </View>
+                  );
+                }
+
                 const mine = myUserId != null && msg.senderId === myUserId;
+                const seen = mine && seenAt != null && new Date(msg.created_at).getTime() <= new Date(seenAt).getTime();
 
                 return (
                   <View style={[styles.msgRow, mine ? styles.msgRowMine : styles.msgRowOther]}>
@@ -241,15 +429,28 @@ export default function DMChatScreen() {
                     ) : null}
                     <View style={styles.msgContent}>
                       <View style={[styles.bubble, mine ? { ...styles.bubbleMine, backgroundColor: colors.accent } : { ...styles.bubbleOther, backgroundColor: colors.card }]}>
-                        <ThemedText style={[styles.bubbleText, mine ? styles.bubbleTextMine : styles.bubbleTextOther, mine ? { color: colors.card } : { color: colors.text }]}>
-                          {msg.body}
-                        </ThemedText>
+                        <MessageAttachments
+                          attachments={msg.attachments}
+                          maxImageSize={bubbleImageSize}
+                          color={mine ? colors.card : colors.text}
+                        />
+                        {msg.body ? (
+                          <ThemedText
+                            style={[
+                              styles.bubbleText,
+                              mine ? styles.bubbleTextMine : styles.bubbleTextOther,
+                              mine ? { color: colors.card } : { color: colors.text },
+                              msg.attachments.length > 0 && styles.caption,
+                            ]}>
+                            {msg.body}
+                          </ThemedText>
+                        ) : null}
                         <View style={styles.bubbleMeta}>
                           <Text style={[styles.bubbleTime, mine ? [styles.bubbleTimeMine, { color: 'rgba(255,255,255,0.8)' }] : [styles.bubbleTimeOther, { color: colors.textMuted }]]}>
                             {new Date(msg.created_at).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
                           </Text>
                           {mine && (
-                            <Ionicons name="checkmark-done" size={14} color={colors.card} style={styles.readIndicator} />
+                            <Ionicons name={seen ? 'checkmark-done' : 'checkmark'} size={14} color={colors.card} style={styles.readIndicator} />
                           )}
                         </View>
                       </View>
@@ -262,6 +463,13 @@ export default function DMChatScreen() {
 
           <View style={[styles.inputContainer, { backgroundColor: colors.background, borderTopWidth: 1, borderTopColor: colors.border }]}>
             <View style={[styles.composer, { backgroundColor: colors.card }]}>
+              <Pressable style={styles.attach} onPress={handleAttach} disabled={sending || uploading}>
+                {uploading ? (
+                  <ActivityIndicator size="small" color={colors.accent} />
+                ) : (
+                  <Ionicons name="add" size={26} color={colors.textMuted} />
+                )}
+              </Pressable>
               <TextInput
                 value={text}
                 onChangeText={setText}
@@ -427,6 +635,7 @@ const styles = StyleSheet.create({
   bubbleText: { fontSize: 15, lineHeight: 20 },
   bubbleTextMine: { color: '#FFFFFF' },
   bubbleTextOther: { color: '#2D1B3D' },
+  caption: { marginTop: 8 },
   bubbleMeta: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -481,5 +690,6 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
   sendDisabled: { opacity: 0.5 },
+  attach: { width: 42, height: 42, alignItems: 'center', justifyContent: 'center' },
   sendIcon: { color: '#FFFFFF', fontSize: 18, marginLeft: 2 },
 });
@@ -16,7 +16,6 @@ import {
     Platform,
     Pressable,
     ScrollView,
-    Share,
     StyleSheet,
     Text,
     TextInput,
@@ -26,39 +25,82 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { EventSchedulePicker } from '@/components/event-schedule-picker';
+import { MessageAttachments } from '@/components/message-attachments';
+import { PendingMessageBubble } from '@/components/pending-message-bubble';
+import { PendingUploadBubble } from '@/components/pending-upload-bubble';
+import { SyncStatusBanner } from '@/components/sync-status-banner';
 import { ThemedText } from '@/components/themed-text';
-import { uploadEventImage, uploadImage } from '@/lib/image-upload';
+import { formatAttendanceSummary } from '@/lib/attendance';
+import { eventLink, inviteLink, shareEvent } from '@/lib/deep-links';
+import { formatRecurrence } from '@/lib/event-recurrence';
+import { createEventInvite, getEventInviteCode, revokeEventInvite, visibilityLabel } from '@/lib/event-visibility';
 import {
-    addMessage,
+    formatDuration,
+    formatEventSchedule,
+    getEventDurationMinutes,
+    getEventStart,
+    isEventEnded,
+} from '@/lib/event-schedule';
+import {
+    checkInToEvent,
+    distanceToMeetingPointM,
+    isCheckInOpen,
+    listEventCheckIns,
+    subscribeToEventCheckIns,
+    type EventCheckIn,
+} from '@/lib/event-checkins';
+import { cancelUpload, enqueueImageUpload, usePendingUploads, waitForUpload, type UploadJob } from '@/lib/image-upload';
+import {
+    cancelEvent,
     deleteEvent,
+    deleteMessage,
+    getChatEventIds,
     getEventById,
     getEventParticipantsWithStatus,
     getMyParticipantStatus,
-    joinEvent,
+    isEventHost,
     listMessages,
+    markEventChatRead,
+    setParticipantRole,
+    subscribeToEventMessages,
+    subscribeToEventParticipants,
+    summarizeParticipants,
+    transferEventOwnership,
     updateEvent,
+    updateFutureOccurrences,
     updateParticipantStatus,
+    type EventParticipant,
     type LocalEvent,
     type LocalMessage,
     type ParticipantStatus,
+    type SeriesEditScope,
 } from '@/lib/local-events';
 import { getProfile } from '@/lib/local-profile';
 import { getOrCreateLocalUserId } from '@/lib/local-user';
+import { requestMyCoords } from '@/lib/location';
+import { peekCache, useOnReconnect } from '@/lib/offline-cache';
+import {
+  discardOutboxOp,
+  joinEventOrQueue,
+  onOutboxSent,
+  retryOutboxOp,
+  sendEventMessage,
+  useOutbox,
+  type OutboxOp,
+} from '@/lib/outbox';
 import { useTheme } from '@/lib/theme';
+import { refreshUnreadCounts } from '@/lib/unread';
 import EmojiKeyboard from 'rn-emoji-keyboard';
 
 type ChatRow =
   | { type: 'sep'; id: string; label: string }
-  | { type: 'msg'; id: string; msg: LocalMessage };
-
-function formatEventDate(createdAt: string): string {
-  const d = new Date(createdAt);
-  return d.toLocaleDateString('ru-RU', {
-    day: 'numeric',
-    month: 'short',
-    hour: '2-digit',
-    minute: '2-digit',
-  });
+  | { type: 'msg'; id: string; msg: LocalMessage }
+  | { type: 'upload'; id: string; job: UploadJob }
+  | { type: 'pending'; id: string; op: OutboxOp };
+
+function formatEventDate(event: LocalEvent): string {
+  return `${formatEventSchedule(event)} · ${formatDuration(getEventDurationMinutes(event))}`;
 }
 
 const HEADER_MIN_HEIGHT = 56;
@@ -77,65 +119,210 @@ export default function EventDetailsScreen() {
 
   const [event, setEvent] = React.useState<LocalEvent | null>(null);
   const [messages, setMessages] = React.useState<LocalMessage[]>([]);
+  const [hasOlder, setHasOlder] = React.useState(false);
+  const [loadingOlder, setLoadingOlder] = React.useState(false);
+  /** Events whose messages make up this chat (the whole series if it shares one) */
+  const [chatEventIds, setChatEventIds] = React.useState<string[]>([]);
   const [text, setText] = React.useState('');
   const [sending, setSending] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [myUserId, setMyUserId] = React.useState<string | null>(null);
   const [myParticipantStatus, setMyParticipantStatus] = React.useState<ParticipantStatus | null>(null);
-  const [participantsWithStatus, setParticipantsWithStatus] = React.useState<
-    Array<{ id: string; name: string; avatar_url: string | null; vibe: string | null; status: ParticipantStatus }>
-  >([]);
+  const [participantsWithStatus, setParticipantsWithStatus] = React.useState<EventParticipant[]>([]);
   const [joinLoading, setJoinLoading] = React.useState(false);
   const [showDetails, setShowDetails] = React.useState(false);
   const [isEmojiOpen, setIsEmojiOpen] = React.useState(false);
   const [uploading, setUploading] = React.useState(false);
   const listRef = React.useRef<FlatList<ChatRow> | null>(null);
+  const uploads = usePendingUploads();
+  const pendingUploads = React.useMemo(
+    () => uploads.filter((j) => j.target.type === 'event-message' && j.target.eventId === eventId),
+    [uploads, eventId]
+  );
+  const outbox = useOutbox();
+  const pendingMessages = React.useMemo(
+    () =>
+      outbox.filter(
+        (op) =>
+          op.action.type === 'event-message' &&
+          (op.action.eventId === eventId || chatEventIds.includes(op.action.eventId))
+      ),
+    [outbox, eventId, chatEventIds]
+  );
+  const queuedJoin = outbox.find((op) => op.action.type === 'join' && op.action.eventId === eventId);
+  const joinQueued = !!queuedJoin;
 
   const [isEditing, setIsEditing] = React.useState(false);
-  const [editForm, setEditForm] = React.useState<{ title: string; description: string; imageUrl: string | null }>({
+  const [editForm, setEditForm] = React.useState<{
+    title: string;
+    description: string;
+    imageUrl: string | null;
+    thumbnailUrl: string | null;
+    start: Date;
+    durationMin: number;
+  }>({
     title: '',
     description: '',
     imageUrl: null,
+    thumbnailUrl: null,
+    start: new Date(),
+    durationMin: 0,
   });
   const [isSaving, setIsSaving] = React.useState(false);
   const [uploadingCover, setUploadingCover] = React.useState(false);
+  /** Queued cover upload; cleared when the user cancels it */
+  const coverJobId = React.useRef<string | null>(null);
 
   const goingParticipants = React.useMemo(
     () => participantsWithStatus.filter((p) => p.status === 'approved'),
     [participantsWithStatus]
   );
+  const headcount = React.useMemo(() => summarizeParticipants(participantsWithStatus), [participantsWithStatus]);
+  const isFull = event?.max_participants != null && headcount.going >= event.max_participants;
+  const myWaitlistPosition = participantsWithStatus.find((p) => p.id === myUserId)?.waitlist_position ?? null;
   const displayAvatars = goingParticipants.slice(0, 4);
   const extraCount = goingParticipants.length > 4 ? goingParticipants.length - 4 : 0;
 
+  const loadParticipants = React.useCallback(
+    async (uid: string) => {
+      const [status, participants] = await Promise.all([
+        getMyParticipantStatus(eventId, uid),
+        getEventParticipantsWithStatus(eventId),
+      ]);
+      setMyParticipantStatus(status);
+      setParticipantsWithStatus(participants);
+    },
+    [eventId]
+  );
+
+  const loaded = React.useRef(false);
+
+  // Cached copy for an instant first render; load() replaces it once the server answers
+  React.useEffect(() => {
+    if (!eventId) return;
+    let cancelled = false;
+    (async () => {
+      const ev = await peekCache<LocalEvent>(`event:${eventId}`);
+      if (!ev || cancelled || loaded.current) return;
+      const [cachedMessages, participants] = await Promise.all([
+        ev.series?.shared_chat ? null : peekCache<LocalMessage[]>(`messages:${eventId}`),
+        peekCache<EventParticipant[]>(`participants:${eventId}`),
+      ]);
+      if (cancelled || loaded.current) return;
+      setEvent(ev);
+      if (cachedMessages) setMessages(cachedMessages);
+      if (participants) setParticipantsWithStatus(participants);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
   const load = React.useCallback(async () => {
     if (!eventId) return;
     setError(null);
     try {
-      const [ev, msgs, uid] = await Promise.all([
-        getEventById(eventId),
-        listMessages(eventId),
-        getOrCreateLocalUserId(),
-      ]);
+      const [ev, uid] = await Promise.all([getEventById(eventId), getOrCreateLocalUserId()]);
+      const ids = ev ? await getChatEventIds(ev) : [eventId];
+      const page = await listMessages(ids);
+      loaded.current = true;
       setEvent(ev);
-      setMessages(msgs);
+      setMessages(page.messages);
+      setHasOlder(page.hasMore);
+      // Keep the same array when nothing changed so the realtime subscription isn't recreated
+      setChatEventIds((prev) => (prev.join(',') === ids.join(',') ? prev : ids));
       setMyUserId(uid);
-      if (uid) {
-        const [status, participants] = await Promise.all([
-          getMyParticipantStatus(eventId, uid),
-          getEventParticipantsWithStatus(eventId),
-        ]);
-        setMyParticipantStatus(status);
-        setParticipantsWithStatus(participants);
-      }
+      if (uid) await loadParticipants(uid);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Ошибка загрузки');
     }
-  }, [eventId]);
+  }, [eventId, loadParticipants]);
 
   React.useEffect(() => {
     void load();
   }, [load]);
 
+  useOnReconnect(() => void load());
+
+  // Inverted list: reaching the end means scrolling up to older history
+  const loadOlder = React.useCallback(async () => {
+    if (!hasOlder || loadingOlder || !chatEventIds.length || !messages.length) return;
+    setLoadingOlder(true);
+    try {
+      const page = await listMessages(chatEventIds, { before: messages[0] });
+      setMessages((prev) => {
+        const seen = new Set(prev.map((m) => m.id));
+        return [...page.messages.filter((m) => !seen.has(m.id)), ...prev];
+      });
+      setHasOlder(page.hasMore);
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [hasOlder, loadingOlder, chatEventIds, messages]);
+
+  /** Add a message unless it's already there (own sends also come back through realtime) */
+  const appendMessage = React.useCallback((msg: LocalMessage) => {
+    setMessages((prev) => (prev.some((m) => m.id === msg.id) ? prev : [...prev, msg]));
+  }, []);
+
+  // Everything on screen counts as read: on open and on every new message while open
+  const markRead = React.useCallback(() => {
+    if (!myUserId || !chatEventIds.length) return;
+    markEventChatRead(chatEventIds, myUserId).then(() => refreshUnreadCounts());
+  }, [chatEventIds, myUserId]);
+
+  React.useEffect(() => {
+    markRead();
+  }, [markRead]);
+
+  React.useEffect(() => {
+    if (!chatEventIds.length) return;
+    return subscribeToEventMessages(chatEventIds, {
+      onInsert: (msg) => {
+        appendMessage(msg);
+        markRead();
+      },
+      onDelete: (messageId) => setMessages((prev) => prev.filter((m) => m.id !== messageId)),
+    });
+  }, [chatEventIds, appendMessage, markRead]);
+
+  // Messages and joins queued while offline, as they reach the server
+  React.useEffect(
+    () =>
+      onOutboxSent(({ op, eventMessage, joinStatus }) => {
+        if (eventMessage && chatEventIds.includes(eventMessage.event_id)) appendMessage(eventMessage);
+        if (op.action.type === 'join' && op.action.eventId === eventId && joinStatus) {
+          setMyParticipantStatus(joinStatus);
+          if (myUserId) loadParticipants(myUserId).catch((e) => console.warn('Participants refresh:', e));
+        }
+      }),
+    [chatEventIds, eventId, myUserId, appendMessage, loadParticipants]
+  );
+
+  React.useEffect(() => {
+    if (!eventId || !myUserId) return;
+    return subscribeToEventParticipants(eventId, () => {
+      loadParticipants(myUserId).catch((e) => console.warn('Participants refresh:', e));
+    });
+  }, [eventId, myUserId, loadParticipants]);
+
+  // Check-ins are visible to members only, so reload once I'm approved
+  const [checkIns, setCheckIns] = React.useState<EventCheckIn[]>([]);
+  const [allowCheckIns, setAllowCheckIns] = React.useState(true);
+  const [checkingIn, setCheckingIn] = React.useState(false);
+  React.useEffect(() => {
+    if (!eventId || !myUserId) return;
+    const refresh = () =>
+      void listEventCheckIns(eventId)
+        .then(setCheckIns)
+        .catch((e) => console.warn('Check-ins:', e));
+    refresh();
+    getProfile()
+      .then((p) => setAllowCheckIns(p.privacy?.allowCheckIns !== false))
+      .catch((e) => console.warn('Profile:', e));
+    return subscribeToEventCheckIns(eventId, refresh);
+  }, [eventId, myUserId, myParticipantStatus]);
+
   async function onSend() {
     const body = text.trim();
     if (!body || !eventId || sending) return;
@@ -143,7 +330,8 @@ export default function EventDetailsScreen() {
     const userId = await getOrCreateLocalUserId();
     try {
       const profile = await getProfile();
-      const msg = await addMessage({
+      // Null when offline: the message waits in the outbox and shows as pending
+      const msg = await sendEventMessage({
         event_id: eventId,
         user_id: userId,
         body,
@@ -153,7 +341,7 @@ export default function EventDetailsScreen() {
           vibe: profile.vibeIntent ?? null,
         },
       });
-      setMessages((prev) => [...prev, msg]);
+      if (msg) appendMessage(msg);
       setText('');
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Ошибка отправки');
@@ -161,19 +349,6 @@ export default function EventDetailsScreen() {
     setSending(false);
   }
 
-  function isImageUrl(body: string): boolean {
-    const t = body.trim().toLowerCase();
-    if (!(t.startsWith('http://') || t.startsWith('https://'))) return false;
-    return (
-      t.endsWith('.jpg') ||
-      t.endsWith('.jpeg') ||
-      t.endsWith('.png') ||
-      t.includes('.jpg?') ||
-      t.includes('.jpeg?') ||
-      t.includes('.png?')
-    );
-  }
-
   async function handlePickImage() {
     try {
       Keyboard.dismiss();
@@ -198,34 +373,65 @@ export default function EventDetailsScreen() {
         return;
       }
 
+      // Whatever is typed goes out as the caption. The queue shows an optimistic
+      // bubble right away and sends the message once the photo is uploaded.
       setUploading(true);
-      const url = await uploadImage(asset.uri);
-      if (!url) {
-        Alert.alert('Ошибка', 'Не удалось загрузить фото.');
+      const caption = text.trim();
+      const job = await enqueueImageUpload(asset.uri, asset.mimeType, { type: 'event-message', eventId, caption });
+      if (caption) setText('');
+      waitForUpload(job.id)
+        .then((r) => r.eventMessage && appendMessage(r.eventMessage))
+        .catch(() => {}); // the bubble shows the failure and offers a retry
+    } catch (e) {
+      console.error('Pick/upload image error:', e);
+      Alert.alert('Ошибка', 'Не удалось подготовить фото.');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleShareLocation() {
+    setUploading(true);
+    try {
+      const coords = await requestMyCoords();
+      if (!coords) {
+        Alert.alert('Геопозиция', 'Разреши доступ к геопозиции, чтобы поделиться ею.');
         return;
       }
 
       const userId = await getOrCreateLocalUserId();
       const profile = await getProfile();
-      const msg = await addMessage({
+      const msg = await sendEventMessage({
         event_id: eventId,
         user_id: userId,
-        body: url,
+        kind: 'location',
+        body: '',
+        attachments: [{ type: 'location', latitude: coords.lat, longitude: coords.lng, label: null }],
         author: {
           name: profile.name || 'Guest',
           avatar_url: profile.photos?.[0] ?? null,
           vibe: profile.vibeIntent ?? null,
         },
       });
-      setMessages((prev) => [...prev, msg]);
+      if (msg) appendMessage(msg);
     } catch (e) {
-      console.error('Pick/upload image error:', e);
-      Alert.alert('Ошибка', 'Не удалось отправить фото.');
+      console.error('Share location error:', e);
+      Alert.alert('Ошибка', 'Не удалось отправить геопозицию.');
     } finally {
       setUploading(false);
     }
   }
 
+  function handleAttach() {
+    Keyboard.dismiss();
+    setIsEmojiOpen(false);
+    Alert.alert('Отправить', undefined, [
+      { text: 'Фото', onPress: () => void handlePickImage() },
+      { text: 'Моя геопозиция', onPress: () => void handleShareLocation() },
+      { text: 'Отмена', style: 'cancel' },
+    ]);
+  }
+
   function dateKey(d: Date) {
     return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
   }
@@ -241,24 +447,61 @@ export default function EventDetailsScreen() {
     return d.toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' });
   }
 
+  // Built from all loaded pages, so a day split across a page boundary still gets a single separator
   const rows: ChatRow[] = React.useMemo(() => {
     const out: ChatRow[] = [];
     let lastDay: string | null = null;
-    for (const m of messages) {
-      const d = new Date(m.created_at);
+    const pushSep = (createdAt: string) => {
+      const d = new Date(createdAt);
       const k = dateKey(d);
       if (k !== lastDay) {
         out.push({ type: 'sep', id: `sep:${k}`, label: dateLabel(d) });
         lastDay = k;
       }
+    };
+    for (const m of messages) {
+      pushSep(m.created_at);
       out.push({ type: 'msg', id: `msg:${m.id}`, msg: m });
     }
+    // Messages waiting in the outbox and photos still uploading go after everything sent
+    const sentIds = new Set(messages.map((m) => m.id));
+    for (const op of pendingMessages) {
+      if (sentIds.has(op.id)) continue;
+      pushSep(op.created_at);
+      out.push({ type: 'pending', id: `pending:${op.id}`, op });
+    }
+    for (const job of pendingUploads) {
+      pushSep(job.created_at);
+      out.push({ type: 'upload', id: `upload:${job.id}`, job });
+    }
     return out;
-  }, [messages]);
+  }, [messages, pendingMessages, pendingUploads]);
 
   const rowsReversed = React.useMemo(() => [...rows].reverse(), [rows]);
 
   const isCreator = myUserId && event?.creator_id && myUserId === event.creator_id;
+  /** Creator or co-host: approves joins, edits the event, moderates chat */
+  const isHost = event ? isEventHost(event, participantsWithStatus, myUserId) : false;
+  const isEnded = event ? isEventEnded(event) : false;
+  /** Cancelled events stay readable but take no new messages or joins */
+  const isCancelled = !!event?.cancelled_at;
+  const isMember = !!isCreator || myParticipantStatus === 'approved';
+  const checkInOpen = event ? isCheckInOpen(event) : false;
+  const isCheckedIn = checkIns.some((c) => c.user_id === myUserId);
+  const isInviteOnly = event?.visibility === 'invite';
+
+  // Invite-only: the creator manages the current invite link
+  const [inviteCode, setInviteCode] = React.useState<string | null>(null);
+  React.useEffect(() => {
+    if (!isCreator || !isInviteOnly) return;
+    getEventInviteCode(eventId).then(setInviteCode);
+  }, [eventId, isCreator, isInviteOnly]);
+
+  // "5/6 идут, 3 в листе ожидания" when capped, otherwise "участников: 5"
+  const headcountLabel =
+    event?.max_participants != null
+      ? `${headcount.going}/${event.max_participants} идут${headcount.waiting ? `, ${headcount.waiting} в листе ожидания` : ''}`
+      : `участников: ${headcount.going}`;
 
   const handleDelete = React.useCallback(() => {
     Alert.alert(
@@ -283,48 +526,218 @@ export default function EventDetailsScreen() {
     );
   }, [eventId]);
 
+  async function handleCheckIn() {
+    if (!event) return;
+    setCheckingIn(true);
+    try {
+      const coords = await requestMyCoords();
+      if (!coords) {
+        Alert.alert('Геолокация', 'Разреши доступ к геолокации, чтобы отметиться на месте.');
+        return;
+      }
+      const distance = distanceToMeetingPointM(event, coords);
+      if (distance != null && distance > event.checkin_radius_m) {
+        Alert.alert('Слишком далеко', `До места встречи ${distance} м. Отметиться можно не дальше ${event.checkin_radius_m} м.`);
+        return;
+      }
+      await checkInToEvent(event.id, coords);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setCheckIns(await listEventCheckIns(event.id));
+    } catch (e) {
+      Alert.alert('Ошибка', e instanceof Error ? e.message : 'Не удалось отметиться');
+    } finally {
+      setCheckingIn(false);
+    }
+  }
+
+  const [showCancelForm, setShowCancelForm] = React.useState(false);
+  const [cancelReason, setCancelReason] = React.useState('');
+  const [cancelling, setCancelling] = React.useState(false);
+
+  async function handleCancelEvent() {
+    setCancelling(true);
+    try {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      await cancelEvent(eventId, cancelReason);
+      setShowCancelForm(false);
+      setCancelReason('');
+      await load();
+    } catch (e) {
+      Alert.alert('Ошибка', e instanceof Error ? e.message : 'Не удалось отменить ивент');
+    }
+    setCancelling(false);
+  }
+
   const hasText = text.trim().length > 0;
 
-  async function handleCopyLink() {
-    const link = `nomadtable://event/${eventId}`;
+  async function handleShare() {
+    if (!event) return;
+    if (isInviteOnly && !isCreator) {
+      Alert.alert('Приглашение', 'Пригласить на этот ивент может только организатор.');
+      return;
+    }
+    let url = eventLink(event.id);
+    if (isInviteOnly) {
+      const code = inviteCode ?? (await handleNewInvite());
+      if (!code) return;
+      url = inviteLink(code);
+    }
     try {
-      await Share.share({
-        message: link,
-        title: event?.title ?? 'Event',
-      });
+      await shareEvent(event, url);
     } catch {
-      Alert.alert('Link', link, [{ text: 'OK' }]);
+      Alert.alert('Ссылка', url, [{ text: 'OK' }]);
+    }
+  }
+
+  // Creator's menu for an approved member: co-host role, hand the event over
+  function handleMemberActions(p: EventParticipant) {
+    const makeCohost = p.role !== 'cohost';
+    Alert.alert(p.name, undefined, [
+      {
+        text: makeCohost ? 'Сделать со-организатором' : 'Убрать из со-организаторов',
+        onPress: async () => {
+          try {
+            await setParticipantRole(eventId, p.id, makeCohost ? 'cohost' : 'guest');
+            await load();
+          } catch (e) {
+            setError(e instanceof Error ? e.message : 'Ошибка');
+          }
+        },
+      },
+      { text: 'Передать ивент', onPress: () => handleTransfer(p) },
+      { text: 'Отмена', style: 'cancel' },
+    ]);
+  }
+
+  function handleTransfer(p: EventParticipant) {
+    Alert.alert(
+      `Передать ивент ${p.name}?`,
+      `${p.name} станет организатором, а ты выйдешь из ивента. Отменить это сможет только новый организатор.`,
+      [
+        { text: 'Отмена', style: 'cancel' },
+        {
+          text: 'Передать',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await transferEventOwnership(eventId, p.id);
+              await load();
+            } catch (e) {
+              setError(e instanceof Error ? e.message : 'Ошибка');
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  function handleMessageLongPress(msg: LocalMessage) {
+    const mine = myUserId != null && msg.user_id === myUserId;
+    if (!mine && !isHost) return;
+    Alert.alert('Удалить сообщение?', mine ? undefined : `Сообщение ${msg.author.name} удалится у всех.`, [
+      { text: 'Отмена', style: 'cancel' },
+      {
+        text: 'Удалить',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteMessage(msg.id);
+            setMessages((prev) => prev.filter((m) => m.id !== msg.id));
+          } catch (e) {
+            Alert.alert('Ошибка', e instanceof Error ? e.message : 'Не удалось удалить сообщение');
+          }
+        },
+      },
+    ]);
+  }
+
+  async function handleNewInvite(): Promise<string | null> {
+    try {
+      const code = await createEventInvite(eventId);
+      setInviteCode(code);
+      return code;
+    } catch (e) {
+      Alert.alert('Ошибка', e instanceof Error ? e.message : 'Не удалось создать ссылку');
+      return null;
     }
   }
 
+  function handleRevokeInvite() {
+    Alert.alert(
+      'Отозвать ссылку?',
+      'По этой ссылке больше нельзя будет открыть ивент. Те, кто уже открыл её, сохранят доступ.',
+      [
+        { text: 'Отмена', style: 'cancel' },
+        {
+          text: 'Отозвать',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeEventInvite(eventId);
+              setInviteCode(null);
+            } catch (e) {
+              Alert.alert('Ошибка', e instanceof Error ? e.message : 'Не удалось отозвать ссылку');
+            }
+          },
+        },
+      ]
+    );
+  }
+
   function startEditing() {
     if (!event) return;
     setEditForm({
       title: event.title,
       description: event.description ?? '',
       imageUrl: event.cover_image_url ?? null,
+      thumbnailUrl: event.cover_thumbnail_url ?? null,
+      start: getEventStart(event),
+      durationMin: getEventDurationMinutes(event),
     });
     setIsEditing(true);
   }
 
   function cancelEditing() {
     setIsEditing(false);
-    setEditForm({ title: '', description: '', imageUrl: null });
+    setEditForm({ title: '', description: '', imageUrl: null, thumbnailUrl: null, start: new Date(), durationMin: 0 });
+  }
+
+  function handleSaveEvent() {
+    if (!event || isSaving) return;
+    if (!event.series_id) {
+      void saveEvent('this');
+      return;
+    }
+    Alert.alert('Изменить повторяющийся ивент', undefined, [
+      { text: 'Только этот', onPress: () => void saveEvent('this') },
+      { text: 'Этот и следующие', onPress: () => void saveEvent('future') },
+      { text: 'Отмена', style: 'cancel' },
+    ]);
   }
 
-  async function handleSaveEvent() {
+  async function saveEvent(scope: SeriesEditScope) {
     if (!event || isSaving) return;
     setIsSaving(true);
     setError(null);
     try {
       const nextTitle = editForm.title.trim() || event.title;
       const nextDescription = editForm.description.trim() || null;
+      const nextStart = editForm.start.toISOString();
+      const nextEnd = new Date(editForm.start.getTime() + editForm.durationMin * 60000).toISOString();
 
-      await updateEvent(eventId, {
+      const updates = {
         title: nextTitle,
         description: nextDescription,
         cover_image_url: editForm.imageUrl,
-      });
+        cover_thumbnail_url: editForm.thumbnailUrl,
+        start_time: nextStart,
+        end_time: nextEnd,
+      };
+      if (scope === 'future') {
+        await updateFutureOccurrences(event, updates);
+      } else {
+        await updateEvent(eventId, updates);
+      }
 
       // Optimistically update local event so UI reflects changes immediately
       setEvent((prev) =>
@@ -334,12 +747,15 @@ export default function EventDetailsScreen() {
               title: nextTitle,
               description: nextDescription,
               cover_image_url: editForm.imageUrl ?? prev.cover_image_url ?? null,
+              cover_thumbnail_url: editForm.imageUrl ? editForm.thumbnailUrl : (prev.cover_thumbnail_url ?? null),
+              start_time: nextStart,
+              end_time: nextEnd,
             }
           : prev
       );
 
       setIsEditing(false);
-      setEditForm({ title: '', description: '', imageUrl: null });
+      setEditForm({ title: '', description: '', imageUrl: null, thumbnailUrl: null, start: new Date(), durationMin: 0 });
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to save');
     }
@@ -361,16 +777,25 @@ export default function EventDetailsScreen() {
     if (result.canceled || !result.assets[0]?.uri) return;
     setUploadingCover(true);
     try {
-      const url = await uploadEventImage(result.assets[0].uri);
-      if (url) setEditForm((prev) => ({ ...prev, imageUrl: url }));
-      else Alert.alert('Error', 'Failed to upload image.');
+      const job = await enqueueImageUpload(result.assets[0].uri, result.assets[0].mimeType, { type: 'event-cover' });
+      coverJobId.current = job.id;
+      const { image } = await waitForUpload(job.id);
+      setEditForm((prev) => ({ ...prev, imageUrl: image.url, thumbnailUrl: image.thumbnail_url }));
     } catch {
-      Alert.alert('Error', 'Failed to upload image.');
+      // No alert when the user cancelled it
+      if (coverJobId.current) Alert.alert('Error', 'Failed to upload image.');
     } finally {
+      coverJobId.current = null;
       setUploadingCover(false);
     }
   }
 
+  function cancelCoverUpload() {
+    const id = coverJobId.current;
+    coverJobId.current = null;
+    if (id) void cancelUpload(id);
+  }
+
   return (
     <>
       <Stack.Screen options={{ headerShown: false }} />
@@ -398,7 +823,8 @@ export default function EventDetailsScreen() {
                 {event?.title ?? 'Event'}
               </Text>
               <Text style={[styles.tgSubtitle, { color: colors.textMuted }]} numberOfLines={1}>
-                {goingParticipants.length} participants
+                {isCancelled ? 'Отменён · ' : isEnded ? 'Завершён · ' : ''}{headcountLabel}
+                {checkInOpen && checkIns.length > 0 ? ` · ${checkIns.length} на месте` : ''}
               </Text>
             </TouchableOpacity>
 
@@ -413,6 +839,8 @@ export default function EventDetailsScreen() {
             </View>
           </View>
 
+          <SyncStatusBanner />
+
           {/* Message List (inverted) */}
           <FlatList
             ref={(r) => {
@@ -421,10 +849,21 @@ export default function EventDetailsScreen() {
             data={rowsReversed}
             keyExtractor={(r) => r.id}
             inverted
+            onEndReached={() => void loadOlder()}
+            onEndReachedThreshold={0.3}
+            ListFooterComponent={
+              loadingOlder ? <ActivityIndicator style={styles.olderLoader} color={colors.accent} /> : null
+            }
             style={styles.chatList}
             contentContainerStyle={[styles.chatContent, { paddingBottom: 12 }]}
             showsVerticalScrollIndicator={false}
             renderItem={({ item }) => {
+              if (item.type === 'upload') {
+                return <PendingUploadBubble job={item.job} maxImageSize={bubbleImageSize} />;
+              }
+              if (item.type === 'pending') {
+                return <PendingMessageBubble op={item.op} maxImageSize={bubbleImageSize} />;
+              }
               if (item.type === 'sep') {
                 return (
                   <View style={styles.sepWrap}>
@@ -436,8 +875,17 @@ export default function EventDetailsScreen() {
               }
 
               const msg = item.msg;
+              if (msg.kind === 'system') {
+                return (
+                  <View style={styles.sepWrap}>
+                    <View style={styles.sepPill}>
+                      <Text style={[styles.sepText, { color: colors.textMuted }]}>{msg.body}</Text>
+                    </View>
+                  </View>
+                );
+              }
+
               const mine = myUserId != null && msg.user_id === myUserId;
-              const isImg = isImageUrl(msg.body);
 
               const handleAvatarPress = () => {
                 router.push({
@@ -474,21 +922,20 @@ export default function EventDetailsScreen() {
                         <Text style={[styles.sender, { color: colors.textMuted }]}>{msg.author.name}</Text>
                       </TouchableOpacity>
                     ) : null}
-                    <View style={[styles.bubble, mine ? styles.bubbleMine : styles.bubbleOther, !mine && { backgroundColor: colors.card }]}>
+                    <Pressable
+                      style={[styles.bubble, mine ? styles.bubbleMine : styles.bubbleOther, !mine && { backgroundColor: colors.card }]}
+                      onLongPress={() => handleMessageLongPress(msg)}
+                      disabled={!mine && !isHost}>
                       {mine ? (
                         <LinearGradient
                           colors={['#FF9F66', '#FF8C50']}
                           start={{ x: 0, y: 0 }}
                           end={{ x: 1, y: 1 }}
                           style={styles.bubbleGradient}>
-                          {isImg ? (
-                            <Image
-                              source={{ uri: msg.body }}
-                              style={[styles.bubbleImage, { width: bubbleImageSize, height: bubbleImageSize }]}
-                            />
-                          ) : (
-                            <Text style={styles.bubbleTextMine}>{msg.body}</Text>
-                          )}
+                          <MessageAttachments attachments={msg.attachments} maxImageSize={bubbleImageSize} color="#FFFFFF" />
+                          {msg.body ? (
+                            <Text style={[styles.bubbleTextMine, msg.attachments.length > 0 && styles.caption]}>{msg.body}</Text>
+                          ) : null}
                           <View style={styles.bubbleMeta}>
                             <Text style={styles.bubbleTimeMine}>
                               {new Date(msg.created_at).toLocaleTimeString('ru-RU', {
@@ -501,14 +948,14 @@ export default function EventDetailsScreen() {
                         </LinearGradient>
                       ) : (
                         <>
-                          {isImg ? (
-                            <Image
-                              source={{ uri: msg.body }}
-                              style={[styles.bubbleImage, { width: bubbleImageSize, height: bubbleImageSize }]}
-                            />
-                          ) : (
+                          {msg.attachments.length > 0 ? (
+                            <View style={styles.attachmentsOther}>
+                              <MessageAttachments attachments={msg.attachments} maxImageSize={bubbleImageSize} color={colors.text} />
+                            </View>
+                          ) : null}
+                          {msg.body ? (
                             <Text style={[styles.bubbleTextOther, { color: colors.text }]}>{msg.body}</Text>
-                          )}
+                          ) : null}
                           <View style={styles.bubbleMeta}>
                             <Text style={[styles.bubbleTimeOther, { color: colors.textMuted }]}>
                               {new Date(msg.created_at).toLocaleTimeString('ru-RU', {
@@ -519,61 +966,68 @@ export default function EventDetailsScreen() {
                           </View>
                         </>
                       )}
-                    </View>
+                    </Pressable>
                   </View>
                 </View>
               );
             }}
           />
 
-          {/* Advanced Input Bar */}
-          <View style={[styles.inputBar, { paddingBottom: 10 + insets.bottom, backgroundColor: colors.card, borderTopColor: colors.border }]}>
-            <TouchableOpacity
-              style={[styles.attachButton, !uploading && !sending && styles.attachButtonActive]}
-              onPress={handlePickImage}
-              disabled={sending || uploading}>
-              {uploading ? (
-                <ActivityIndicator size="small" color={colors.accent} />
-              ) : (
-                <Ionicons name="add" size={26} color={uploading || sending ? colors.textMuted : colors.text} />
-              )}
-            </TouchableOpacity>
-
-            <View style={[styles.inputWrapper, { backgroundColor: colors.background }]}>
-              <TextInput
-                value={text}
-                onChangeText={setText}
-                placeholder="Message…"
-                placeholderTextColor={colors.textMuted}
-                style={[styles.input, { color: colors.text }]}
-                multiline
-                maxLength={2000}
-              />
+          {/* Advanced Input Bar (read-only notice once cancelled) */}
+          {isCancelled ? (
+            <View style={[styles.inputBar, styles.inputBarClosed, { paddingBottom: 10 + insets.bottom, backgroundColor: colors.card, borderTopColor: colors.border }]}>
+              <Ionicons name="close-circle-outline" size={18} color={colors.textMuted} />
+              <Text style={[styles.inputBarClosedText, { color: colors.textMuted }]}>Ивент отменён — чат только для чтения</Text>
+            </View>
+          ) : (
+            <View style={[styles.inputBar, { paddingBottom: 10 + insets.bottom, backgroundColor: colors.card, borderTopColor: colors.border }]}>
               <TouchableOpacity
-                style={styles.emojiButton}
-                onPress={() => {
-                  Keyboard.dismiss();
-                  setIsEmojiOpen((v) => !v);
-                }}>
-                <Ionicons name="happy-outline" size={22} color={colors.textMuted} />
+                style={[styles.attachButton, !uploading && !sending && styles.attachButtonActive]}
+                onPress={handleAttach}
+                disabled={sending || uploading}>
+                {uploading ? (
+                  <ActivityIndicator size="small" color={colors.accent} />
+                ) : (
+                  <Ionicons name="add" size={26} color={uploading || sending ? colors.textMuted : colors.text} />
+                )}
               </TouchableOpacity>
-            </View>
 
-            <TouchableOpacity
-              style={[styles.sendButton, hasText && !sending && styles.sendButtonActive]}
-              onPress={onSend}
-              disabled={!hasText || sending}>
-              {sending ? (
-                <Text style={[styles.sendButtonText, { color: colors.textMuted }]}>…</Text>
-              ) : (
-                <Ionicons
-                  name="send"
-                  size={20}
-                  color={hasText ? '#FFFFFF' : colors.textMuted}
+              <View style={[styles.inputWrapper, { backgroundColor: colors.background }]}>
+                <TextInput
+                  value={text}
+                  onChangeText={setText}
+                  placeholder="Message…"
+                  placeholderTextColor={colors.textMuted}
+                  style={[styles.input, { color: colors.text }]}
+                  multiline
+                  maxLength={2000}
                 />
-              )}
-            </TouchableOpacity>
-          </View>
+                <TouchableOpacity
+                  style={styles.emojiButton}
+                  onPress={() => {
+                    Keyboard.dismiss();
+                    setIsEmojiOpen((v) => !v);
+                  }}>
+                  <Ionicons name="happy-outline" size={22} color={colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.sendButton, hasText && !sending && styles.sendButtonActive]}
+                onPress={onSend}
+                disabled={!hasText || sending}>
+                {sending ? (
+                  <Text style={[styles.sendButtonText, { color: colors.textMuted }]}>…</Text>
+                ) : (
+                  <Ionicons
+                    name="send"
+                    size={20}
+                    color={hasText ? '#FFFFFF' : colors.textMuted}
+                  />
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
 
           <EmojiKeyboard
             open={isEmojiOpen}
@@ -614,7 +1068,7 @@ export default function EventDetailsScreen() {
               hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}>
               <Ionicons name="close" size={28} color={colors.text} />
             </TouchableOpacity>
-            {isCreator && (
+            {isHost && !isCancelled && (
               <View style={styles.detailsModalBarRight}>
                 {!isEditing ? (
                   <TouchableOpacity onPress={startEditing} style={styles.detailsModalBarBtn} hitSlop={12}>
@@ -662,13 +1116,15 @@ export default function EventDetailsScreen() {
               const wrapped = isEditing ? (
                 <TouchableOpacity
                   style={styles.detailsHeroTouchable}
-                  onPress={pickAndUploadImage}
-                  disabled={uploadingCover}
+                  onPress={uploadingCover ? cancelCoverUpload : pickAndUploadImage}
                   activeOpacity={0.9}>
                   {heroContent}
                   <View style={styles.detailsHeroOverlay}>
                     {uploadingCover ? (
-                      <ActivityIndicator size="large" color="#FFF" />
+                      <>
+                        <ActivityIndicator size="large" color="#FFF" />
+                        <Text style={styles.detailsHeroCancel}>Нажми, чтобы отменить</Text>
+                      </>
                     ) : (
                       <Ionicons name="camera" size={36} color="#FFF" />
                     )}
@@ -703,14 +1159,37 @@ export default function EventDetailsScreen() {
                     multiline
                     style={[styles.detailsEditDesc, { color: colors.text, borderColor: colors.border }]}
                   />
+                  <View style={styles.detailsEditSchedule}>
+                    <EventSchedulePicker
+                      start={editForm.start}
+                      durationMinutes={editForm.durationMin}
+                      onChangeStart={(d) => setEditForm((prev) => ({ ...prev, start: d }))}
+                      onChangeDuration={(min) => setEditForm((prev) => ({ ...prev, durationMin: min }))}
+                    />
+                  </View>
                 </>
               ) : (
                 <Text style={[styles.detailsInfoTitle, { color: colors.text }]}>{event?.title ?? 'Event'}</Text>
               )}
               <View style={styles.detailsInfoRow}>
                 <Ionicons name="calendar-outline" size={18} color={colors.textMuted} />
-                <Text style={[styles.detailsInfoText, { color: colors.text }]}>{event ? formatEventDate(event.created_at) : '—'}</Text>
+                <Text style={[styles.detailsInfoText, { color: colors.text }]}>{event ? formatEventDate(event) : '—'}</Text>
               </View>
+              {event?.series ? (
+                <View style={styles.detailsInfoRow}>
+                  <Ionicons name="repeat" size={18} color={colors.textMuted} />
+                  <Text style={[styles.detailsInfoText, { color: colors.text }]}>
+                    {formatRecurrence(event.series.rule)}
+                    {event.series.shared_chat ? ' · общий чат' : ''}
+                  </Text>
+                </View>
+              ) : null}
+              {visibilityLabel(event?.visibility) ? (
+                <View style={styles.detailsInfoRow}>
+                  <Ionicons name={isInviteOnly ? 'lock-closed-outline' : 'people-outline'} size={18} color={colors.textMuted} />
+                  <Text style={[styles.detailsInfoText, { color: colors.text }]}>{visibilityLabel(event?.visibility)}</Text>
+                </View>
+              ) : null}
               <Pressable
                 style={styles.detailsInfoRow}
                 onPress={() => {
@@ -733,13 +1212,21 @@ export default function EventDetailsScreen() {
               ) : null}
             </View>
 
-            {/* Action buttons: Copy Link, Edit (if creator) */}
+            {/* Cancelled notice */}
+            {isCancelled && (
+              <View style={[styles.detailsInfoBlock, styles.detailsCancelled]}>
+                <Text style={styles.detailsCancelledTitle}>Ивент отменён</Text>
+                {event?.cancel_reason ? <Text style={styles.detailsCancelledReason}>{event.cancel_reason}</Text> : null}
+              </View>
+            )}
+
+            {/* Action buttons: Share, Edit (if creator) */}
             <View style={styles.detailsActionsRow}>
-              <TouchableOpacity style={[styles.detailsActionBtn, { backgroundColor: colors.card }]} onPress={handleCopyLink} activeOpacity={0.8}>
-                <Ionicons name="link" size={20} color={colors.text} />
-                <Text style={[styles.detailsActionBtnText, { color: colors.text }]}>Copy Link</Text>
+              <TouchableOpacity style={[styles.detailsActionBtn, { backgroundColor: colors.card }]} onPress={handleShare} activeOpacity={0.8}>
+                <Ionicons name="share-outline" size={20} color={colors.text} />
+                <Text style={[styles.detailsActionBtnText, { color: colors.text }]}>Share</Text>
               </TouchableOpacity>
-              {isCreator && !isEditing && (
+              {isHost && !isEditing && !isCancelled && (
                 <TouchableOpacity
                   style={[styles.detailsActionBtn, { backgroundColor: colors.card }]}
                   onPress={startEditing}
@@ -750,14 +1237,98 @@ export default function EventDetailsScreen() {
               )}
             </View>
 
+            {/* Invite link (invite-only, creator) */}
+            {isCreator && isInviteOnly && !isEditing && (
+              <View style={[styles.detailsInfoBlock, { backgroundColor: colors.card }]}>
+                <Text style={[styles.detailsMembersTitle, { color: colors.text }]}>Ссылка-приглашение</Text>
+                <Text style={[styles.detailsInviteLink, { color: inviteCode ? colors.text : colors.textMuted }]} selectable>
+                  {inviteCode ? inviteLink(inviteCode) : 'Активной ссылки нет. Создай новую, чтобы пригласить гостей.'}
+                </Text>
+                <View style={styles.detailsInviteActions}>
+                  <TouchableOpacity
+                    style={[styles.detailsActionBtn, { backgroundColor: colors.background }]}
+                    onPress={() => void handleNewInvite()}
+                    activeOpacity={0.8}>
+                    <Ionicons name="refresh" size={18} color={colors.text} />
+                    <Text style={[styles.detailsActionBtnText, { color: colors.text }]}>{inviteCode ? 'Новая' : 'Создать'}</Text>
+                  </TouchableOpacity>
+                  {inviteCode ? (
+                    <TouchableOpacity
+                      style={[styles.detailsActionBtn, { backgroundColor: colors.background }]}
+                      onPress={handleRevokeInvite}
+                      activeOpacity={0.8}>
+                      <Ionicons name="ban-outline" size={18} color={colors.text} />
+                      <Text style={[styles.detailsActionBtnText, { color: colors.text }]}>Отозвать</Text>
+                    </TouchableOpacity>
+                  ) : null}
+                </View>
+              </View>
+            )}
+
+            {/* Check-ins: "here now" while the event is on, attendance afterwards (members only) */}
+            {isMember && (checkInOpen || checkIns.length > 0) && (
+              <View style={styles.detailsMembersSection}>
+                <Text style={[styles.detailsMembersTitle, { color: colors.text }]}>
+                  {checkInOpen ? 'Уже на месте' : 'Отметились'} · {checkIns.length}
+                </Text>
+                {checkIns.map((c) => (
+                  <View key={c.user_id} style={[styles.detailsMemberRow, { backgroundColor: colors.card }]}>
+                    {c.avatar_url ? (
+                      <Image source={{ uri: c.avatar_url }} style={styles.detailsMemberAvatar} />
+                    ) : (
+                      <View style={styles.detailsMemberAvatarPlaceholder}>
+                        <Text style={styles.detailsMemberAvatarText}>{c.name.charAt(0).toUpperCase()}</Text>
+                      </View>
+                    )}
+                    <Text style={[styles.detailsMemberName, { color: colors.text }]}>{c.name}</Text>
+                    <Text style={[styles.detailsMemberBadgeText, { color: colors.textMuted }]}>
+                      {new Date(c.checked_in_at).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                  </View>
+                ))}
+                {checkInOpen && !isCheckedIn && (
+                  allowCheckIns ? (
+                    <Pressable
+                      style={[styles.joinButton, checkingIn && styles.joinButtonDisabled]}
+                      onPress={handleCheckIn}
+                      disabled={checkingIn}>
+                      <ThemedText type="defaultSemiBold" style={styles.joinButtonText}>
+                        {checkingIn ? '…' : 'Отметиться 📍'}
+                      </ThemedText>
+                    </Pressable>
+                  ) : (
+                    <Text style={[styles.detailsMembersEmpty, { color: colors.textMuted }]}>
+                      Чек-ины выключены в настройках приватности
+                    </Text>
+                  )
+                )}
+              </View>
+            )}
+
             {/* Members */}
             <View style={styles.detailsMembersSection}>
-              <Text style={[styles.detailsMembersTitle, { color: colors.text }]}>Members</Text>
+              <Text style={[styles.detailsMembersTitle, { color: colors.text }]}>Members · {headcountLabel}</Text>
+              {event?.creator ? (
+                <View style={[styles.detailsMemberRow, { backgroundColor: colors.card }]}>
+                  {event.creator.avatar_url ? (
+                    <Image source={{ uri: event.creator.avatar_url }} style={styles.detailsMemberAvatar} />
+                  ) : (
+                    <View style={styles.detailsMemberAvatarPlaceholder}>
+                      <Text style={styles.detailsMemberAvatarText}>{event.creator.name.charAt(0).toUpperCase()}</Text>
+                    </View>
+                  )}
+                  <Text style={[styles.detailsMemberName, { color: colors.text }]}>{event.creator.name}</Text>
+                  <View style={[styles.detailsMemberBadge, styles.detailsHostBadge]}>
+                    <Text style={[styles.detailsMemberBadgeText, styles.detailsHostBadgeText]}>Host</Text>
+                  </View>
+                </View>
+              ) : null}
               {participantsWithStatus.length === 0 ? (
                 <Text style={[styles.detailsMembersEmpty, { color: colors.textMuted }]}>No participants yet</Text>
               ) : (
                 participantsWithStatus
-                  .filter((p) => p.status === 'approved' || p.status === 'pending')
+                  .filter((p) => p.id !== event?.creator_id)
+                  .filter((p) => p.status === 'approved' || p.status === 'pending' || p.status === 'waitlisted')
                   .map((p) => (
                     <View key={p.id} style={[styles.detailsMemberRow, { backgroundColor: colors.card }]}>
                       {p.avatar_url ? (
@@ -767,13 +1338,37 @@ export default function EventDetailsScreen() {
                           <Text style={styles.detailsMemberAvatarText}>{p.name.charAt(0).toUpperCase()}</Text>
                         </View>
                       )}
-                      <Text style={[styles.detailsMemberName, { color: colors.text }]}>{p.name}</Text>
+                      <View style={styles.detailsMemberInfo}>
+                        <Text style={[styles.detailsMemberName, { color: colors.text }]}>{p.name}</Text>
+                        {isHost && p.stats ? (
+                          <Text style={[styles.detailsMemberStats, { color: colors.textMuted }]}>
+                            {formatAttendanceSummary(p.stats)}
+                          </Text>
+                        ) : null}
+                      </View>
                       {p.status === 'pending' && (
                         <View style={[styles.detailsMemberBadge, { backgroundColor: colors.border }]}>
                           <Text style={[styles.detailsMemberBadgeText, { color: colors.textMuted }]}>Pending</Text>
                         </View>
                       )}
-                      {isCreator && p.status === 'pending' && (
+                      {p.status === 'waitlisted' && (
+                        <View style={[styles.detailsMemberBadge, { backgroundColor: colors.border }]}>
+                          <Text style={[styles.detailsMemberBadgeText, { color: colors.textMuted }]}>
+                            Waitlist #{p.waitlist_position ?? '—'}
+                          </Text>
+                        </View>
+                      )}
+                      {p.role === 'cohost' && p.status === 'approved' && (
+                        <View style={[styles.detailsMemberBadge, styles.detailsHostBadge]}>
+                          <Text style={[styles.detailsMemberBadgeText, styles.detailsHostBadgeText]}>Co-host</Text>
+                        </View>
+                      )}
+                      {isCreator && p.status === 'approved' && (
+                        <TouchableOpacity onPress={() => handleMemberActions(p)} hitSlop={8} accessibilityLabel="Member actions">
+                          <Ionicons name="ellipsis-horizontal" size={22} color={colors.textMuted} />
+                        </TouchableOpacity>
+                      )}
+                      {isHost && p.status === 'pending' && (
                         <View style={styles.detailsMemberActions}>
                           <TouchableOpacity
                             style={styles.detailsAcceptBtn}
@@ -809,14 +1404,46 @@ export default function EventDetailsScreen() {
             {/* Join / Status for non-creator */}
             {event && myUserId && !isCreator && (
                 <View style={styles.joinSection}>
-                  {myParticipantStatus === null && (
+                  {myParticipantStatus === null && (isEnded || isCancelled) && (
+                    <View style={styles.statusBadge}>
+                      <ThemedText type="defaultSemiBold" style={styles.statusBadgeText}>
+                        {isCancelled ? 'Ивент отменён' : 'Ивент завершён'}
+                      </ThemedText>
+                    </View>
+                  )}
+                  {myParticipantStatus === null && !isEnded && !isCancelled && joinQueued && queuedJoin?.status !== 'failed' && (
+                    <View style={styles.statusBadge}>
+                      <ThemedText type="defaultSemiBold" style={styles.statusBadgeText}>
+                        Отправится при подключении ⏳
+                      </ThemedText>
+                    </View>
+                  )}
+                  {myParticipantStatus === null && !isEnded && !isCancelled && queuedJoin?.status === 'failed' && (
+                    <>
+                      <View style={[styles.statusBadge, styles.statusBadgeRejected]}>
+                        <ThemedText type="defaultSemiBold" style={styles.statusBadgeTextRejected}>
+                          Заявка не отправлена{queuedJoin.error ? `: ${queuedJoin.error}` : ''}
+                        </ThemedText>
+                      </View>
+                      <View style={styles.joinFailedActions}>
+                        <Pressable onPress={() => retryOutboxOp(queuedJoin.id)} hitSlop={8}>
+                          <ThemedText type="defaultSemiBold" style={styles.joinFailedRetry}>Повторить</ThemedText>
+                        </Pressable>
+                        <Pressable onPress={() => void discardOutboxOp(queuedJoin.id)} hitSlop={8}>
+                          <ThemedText type="defaultSemiBold" style={styles.joinFailedDiscard}>Отменить</ThemedText>
+                        </Pressable>
+                      </View>
+                    </>
+                  )}
+                  {myParticipantStatus === null && !isEnded && !isCancelled && !joinQueued && (
                     <Pressable
                       style={[styles.joinButton, joinLoading && styles.joinButtonDisabled]}
                       onPress={async () => {
                         setJoinLoading(true);
                         try {
-                          await joinEvent(eventId, myUserId);
-                          await load();
+                          // Null when offline: the join is queued and applied on reconnect
+                          const status = await joinEventOrQueue(eventId, myUserId);
+                          if (status) await load();
                         } catch (e) {
                           setError(e instanceof Error ? e.message : 'Ошибка');
                         }
@@ -824,7 +1451,7 @@ export default function EventDetailsScreen() {
                       }}
                       disabled={joinLoading}>
                       <ThemedText type="defaultSemiBold" style={styles.joinButtonText}>
-                        {joinLoading ? '…' : event.auto_accept ? 'Join' : 'Request to Join'}
+                        {joinLoading ? '…' : isFull ? 'Join Waitlist' : event.auto_accept ? 'Join' : 'Request to Join'}
                       </ThemedText>
                     </Pressable>
                   )}
@@ -833,6 +1460,13 @@ export default function EventDetailsScreen() {
                       <ThemedText type="defaultSemiBold" style={styles.statusBadgeText}>Request Sent ⏳</ThemedText>
                     </View>
                   )}
+                  {myParticipantStatus === 'waitlisted' && (
+                    <View style={styles.statusBadge}>
+                      <ThemedText type="defaultSemiBold" style={styles.statusBadgeText}>
+                        Waitlist{myWaitlistPosition != null ? ` #${myWaitlistPosition}` : ''} ⏳
+                      </ThemedText>
+                    </View>
+                  )}
                   {myParticipantStatus === 'rejected' && (
                     <View style={[styles.statusBadge, styles.statusBadgeRejected]}>
                       <ThemedText type="defaultSemiBold" style={styles.statusBadgeTextRejected}>Declined 🚫</ThemedText>
@@ -846,7 +1480,51 @@ export default function EventDetailsScreen() {
                 </View>
               )}
 
-            {isCreator && (
+            {/* Creator: cancel an upcoming event; delete for good only once cancelled or over */}
+            {isCreator && !isCancelled && !isEnded && !showCancelForm && (
+              <TouchableOpacity style={styles.deleteButtonModal} onPress={() => setShowCancelForm(true)}>
+                <Ionicons name="close-circle-outline" size={20} color="#FF6B6B" />
+                <Text style={styles.deleteButtonModalText}>Отменить ивент</Text>
+              </TouchableOpacity>
+            )}
+            {isCreator && !isCancelled && !isEnded && showCancelForm && (
+              <View style={[styles.detailsInfoBlock, { backgroundColor: colors.card }]}>
+                <Text style={[styles.detailsMembersTitle, { color: colors.text }]}>Отменить ивент</Text>
+                <TextInput
+                  value={cancelReason}
+                  onChangeText={setCancelReason}
+                  placeholder="Причина (необязательно)"
+                  placeholderTextColor={colors.textMuted}
+                  multiline
+                  maxLength={300}
+                  style={[styles.detailsEditDesc, { color: colors.text, borderColor: colors.border }]}
+                />
+                <Text style={[styles.detailsCancelHint, { color: colors.textMuted }]}>
+                  Участники и заявки получат уведомление, чат останется доступен для чтения.
+                </Text>
+                <View style={styles.detailsInviteActions}>
+                  <TouchableOpacity
+                    style={[styles.detailsActionBtn, { backgroundColor: colors.background }]}
+                    onPress={() => setShowCancelForm(false)}
+                    disabled={cancelling}
+                    activeOpacity={0.8}>
+                    <Text style={[styles.detailsActionBtnText, { color: colors.text }]}>Назад</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.detailsActionBtn, { backgroundColor: colors.background }]}
+                    onPress={handleCancelEvent}
+                    disabled={cancelling}
+                    activeOpacity={0.8}>
+                    {cancelling ? (
+                      <ActivityIndicator size="small" color="#FF6B6B" />
+                    ) : (
+                      <Text style={[styles.detailsActionBtnText, { color: '#FF6B6B' }]}>Отменить ивент</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+            {isCreator && (isCancelled || isEnded) && (
               <TouchableOpacity style={styles.deleteButtonModal} onPress={handleDelete}>
                 <Ionicons name="trash-outline" size={20} color="#FF6B6B" />
                 <Text style={styles.deleteButtonModalText}>Удалить ивент</Text>
@@ -920,6 +1598,7 @@ const styles = StyleSheet.create({
     fontSize: 18,
   },
   chatList: { flex: 1 },
+  olderLoader: { paddingVertical: 12 },
   chatContent: {
     paddingHorizontal: 16,
     paddingTop: 12,
@@ -979,7 +1658,8 @@ const styles = StyleSheet.create({
   },
   bubbleTextMine: { color: '#FFFFFF', fontSize: 15, lineHeight: 20 },
   bubbleTextOther: { color: '#2D1B3D', fontSize: 15, lineHeight: 20, paddingHorizontal: 14, paddingTop: 10 },
-  bubbleImage: { borderRadius: 12, marginTop: 10, marginHorizontal: 14 },
+  caption: { marginTop: 8 },
+  attachmentsOther: { paddingHorizontal: 14 },
   bubbleMeta: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1002,6 +1682,14 @@ const styles = StyleSheet.create({
     borderTopWidth: StyleSheet.hairlineWidth,
     borderTopColor: 'rgba(0,0,0,0.08)',
   },
+  inputBarClosed: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  inputBarClosedText: {
+    fontSize: 14,
+  },
   attachButton: {
     width: 40,
     height: 40,
@@ -1110,6 +1798,7 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  detailsHeroCancel: { color: '#FFF', fontSize: 13, marginTop: 8 },
   detailsModalBarRight: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1137,6 +1826,10 @@ const styles = StyleSheet.create({
     textAlignVertical: 'top',
     marginTop: 0,
   },
+  detailsEditSchedule: {
+    marginTop: 12,
+    marginBottom: 12,
+  },
   detailsInfoBlock: {
     backgroundColor: '#FFFFFF',
     borderRadius: 20,
@@ -1202,6 +1895,14 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#2D1B3D',
   },
+  detailsInviteLink: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  detailsInviteActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
   detailsMembersSection: {
     marginBottom: 16,
   },
@@ -1254,6 +1955,8 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#2D1B3D',
   },
+  detailsMemberInfo: { flex: 1 },
+  detailsMemberStats: { fontSize: 12, marginTop: 2 },
   detailsMemberBadge: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -1264,6 +1967,8 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#8B7A9B',
   },
+  detailsHostBadge: { backgroundColor: 'rgba(255,159,102,0.18)' },
+  detailsHostBadgeText: { color: '#FF8C50', fontWeight: '600' },
   detailsMemberActions: { flexDirection: 'row', gap: 8 },
   detailsAcceptBtn: {
     paddingVertical: 6,
@@ -1312,6 +2017,9 @@ const styles = StyleSheet.create({
   statusBadgeTextRejected: { color: '#FF6B6B', fontSize: 14 },
   statusBadgeApproved: { backgroundColor: 'rgba(76,175,80,0.15)' },
   statusBadgeTextApproved: { color: '#4CAF50', fontSize: 14 },
+  joinFailedActions: { flexDirection: 'row', gap: 16, marginTop: 8 },
+  joinFailedRetry: { color: '#FF9F66', fontSize: 14 },
+  joinFailedDiscard: { color: '#8B7A9B', fontSize: 14 },
   deleteButtonModal: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1321,5 +2029,9 @@ const styles = StyleSheet.create({
     marginHorizontal: 20,
   },
   deleteButtonModalText: { color: '#FF6B6B', fontSize: 15 },
+  detailsCancelled: { backgroundColor: 'rgba(255,107,107,0.15)' },
+  detailsCancelledTitle: { color: '#FF6B6B', fontSize: 16, fontWeight: '600' },
+  detailsCancelledReason: { color: '#FF6B6B', fontSize: 14, marginTop: 4 },
+  detailsCancelHint: { fontSize: 13, marginTop: 8, marginBottom: 12 },
   err: { color: '#6E6E73', marginTop: 8, marginHorizontal: 20 },
 });
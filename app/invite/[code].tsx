@@ -0,0 +1,62 @@
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import React from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { LoadingScreen } from '@/components/LoadingScreen';
+import { ThemedText } from '@/components/themed-text';
+import { redeemEventInvite } from '@/lib/event-visibility';
+import { useTheme } from '@/lib/theme';
+
+/**
+ * Invite link (/invite/<code>): redeem the code, then open the event in its place.
+ */
+export default function InviteScreen() {
+  const { colors } = useTheme();
+  const { code } = useLocalSearchParams<{ code: string }>();
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!code) return;
+    redeemEventInvite(code)
+      .then((eventId) => router.replace({ pathname: '/event/[id]', params: { id: eventId } }))
+      .catch((e) => setError(e instanceof Error ? e.message : 'Не удалось открыть приглашение'));
+  }, [code]);
+
+  if (!error) return <LoadingScreen />;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Приглашение' }} />
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <ThemedText style={styles.icon}>🔒</ThemedText>
+        <ThemedText style={[styles.message, { color: colors.text }]}>{error}</ThemedText>
+        <Pressable style={[styles.button, { backgroundColor: colors.accent }]} onPress={() => router.replace('/(tabs)')}>
+          <ThemedText type="defaultSemiBold" style={{ color: colors.card }}>На главную</ThemedText>
+        </Pressable>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  icon: {
+    fontSize: 40,
+    lineHeight: 48,
+  },
+  message: {
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  button: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+});
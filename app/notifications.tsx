@@ -0,0 +1,217 @@
+import { Image } from 'expo-image';
+import { router, Stack } from 'expo-router';
+import React from 'react';
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { getCurrentUserId } from '@/lib/local-user';
+import {
+  describeNotification,
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  notificationTarget,
+  subscribeToNotifications,
+  type ActivityItem,
+} from '@/lib/notifications';
+import { notificationHref } from '@/lib/push-notifications';
+import { useTheme } from '@/lib/theme';
+
+function formatWhen(iso: string): string {
+  const date = new Date(iso);
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'сейчас';
+  if (minutes < 60) return `${minutes} мин`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} ч`;
+  return date.toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' });
+}
+
+export default function NotificationsScreen() {
+  const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+  const [items, setItems] = React.useState<ActivityItem[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [refreshing, setRefreshing] = React.useState(false);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const pageRef = React.useRef(0);
+  const hasMoreRef = React.useRef(false);
+
+  const load = React.useCallback(async () => {
+    const { items: first, hasMore } = await listNotifications(0);
+    pageRef.current = 0;
+    hasMoreRef.current = hasMore;
+    setItems(first);
+    setLoading(false);
+  }, []);
+
+  const loadMore = React.useCallback(async () => {
+    if (!hasMoreRef.current || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const nextPage = pageRef.current + 1;
+      const { items: more, hasMore } = await listNotifications(nextPage);
+      pageRef.current = nextPage;
+      hasMoreRef.current = hasMore;
+      setItems((prev) => {
+        const seen = new Set(prev.map((i) => i.id));
+        return [...prev, ...more.filter((i) => !seen.has(i.id))];
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loadingMore]);
+
+  React.useEffect(() => {
+    void load();
+  }, [load]);
+
+  // New activity while the inbox is open shows up at the top
+  React.useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+    getCurrentUserId().then((userId) => {
+      if (userId && !cancelled) unsubscribe = subscribeToNotifications(userId, () => void load());
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [load]);
+
+  const onRefresh = React.useCallback(async () => {
+    setRefreshing(true);
+    await load();
+    setRefreshing(false);
+  }, [load]);
+
+  const hasUnread = items.some((i) => !i.read_at);
+
+  async function handleMarkAllRead() {
+    const now = new Date().toISOString();
+    setItems((prev) => prev.map((i) => (i.read_at ? i : { ...i, read_at: now })));
+    try {
+      await markAllNotificationsRead();
+    } catch {
+      void load();
+    }
+  }
+
+  function handleOpen(item: ActivityItem) {
+    if (!item.read_at) {
+      const now = new Date().toISOString();
+      setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, read_at: now } : i)));
+      void markNotificationRead(item.id);
+    }
+    const target = notificationTarget(item);
+    if (target) router.push(notificationHref(target));
+  }
+
+  function renderItem({ item }: { item: ActivityItem }) {
+    const unread = !item.read_at;
+    return (
+      <TouchableOpacity
+        style={[styles.row, { backgroundColor: unread ? colors.card : 'transparent', borderBottomColor: colors.border }]}
+        onPress={() => handleOpen(item)}
+        activeOpacity={0.8}>
+        {item.actor?.avatar_url ? (
+          <Image source={{ uri: item.actor.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, styles.avatarPlaceholder, { backgroundColor: colors.border }]}>
+            <Text style={styles.avatarEmoji}>{item.event?.emoji ?? (item.type === 'event_cancelled' ? '🚫' : '👋')}</Text>
+          </View>
+        )}
+        <View style={styles.rowText}>
+          <Text style={[styles.description, { color: colors.text }]} numberOfLines={3}>
+            {item.actor ? <Text style={styles.actorName}>{item.actor.name} </Text> : null}
+            {describeNotification(item)}
+          </Text>
+          <Text style={[styles.when, { color: colors.textMuted }]}>{formatWhen(item.created_at)}</Text>
+        </View>
+        {unread ? <View style={[styles.unreadDot, { backgroundColor: colors.accent }]} /> : null}
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+      <SafeAreaView style={[styles.safe, { paddingTop: insets.top, backgroundColor: colors.background }]} edges={['bottom']}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: colors.background }]}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            hitSlop={{ top: 14, bottom: 14, left: 14, right: 14 }}
+            style={styles.headerBack}
+            activeOpacity={0.8}>
+            <Text style={[styles.headerBackIcon, { color: colors.text }]}>←</Text>
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>Уведомления</Text>
+          <TouchableOpacity
+            style={styles.headerRight}
+            onPress={() => void handleMarkAllRead()}
+            disabled={!hasUnread}
+            activeOpacity={0.8}>
+            <Text style={[styles.markAll, { color: hasUnread ? colors.accent : colors.textMuted }]}>Прочитать все</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loader} color={colors.accent} />
+        ) : (
+          <FlatList
+            data={items}
+            keyExtractor={(item) => item.id}
+            renderItem={renderItem}
+            onEndReached={() => void loadMore()}
+            onEndReachedThreshold={0.3}
+            refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.accent} />}
+            ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.loader} color={colors.accent} /> : null}
+            ListEmptyComponent={
+              <View style={styles.empty}>
+                <Text style={styles.emptyIcon}>🔔</Text>
+                <Text style={[styles.emptyText, { color: colors.textMuted }]}>Пока ничего не произошло</Text>
+              </View>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 16,
+  },
+  headerBack: { padding: 8, marginRight: 8 },
+  headerBackIcon: { fontSize: 24 },
+  headerTitle: { flex: 1, fontSize: 20, fontWeight: '700', textAlign: 'center' },
+  headerRight: { minWidth: 40, alignItems: 'flex-end' },
+  markAll: { fontSize: 14, fontWeight: '600' },
+  loader: { marginVertical: 24 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  avatar: { width: 44, height: 44, borderRadius: 22 },
+  avatarPlaceholder: { alignItems: 'center', justifyContent: 'center' },
+  avatarEmoji: { fontSize: 20 },
+  rowText: { flex: 1 },
+  description: { fontSize: 15, lineHeight: 20 },
+  actorName: { fontWeight: '700' },
+  when: { fontSize: 12, marginTop: 4 },
+  unreadDot: { width: 10, height: 10, borderRadius: 5 },
+  empty: { alignItems: 'center', paddingTop: 80, gap: 12 },
+  emptyIcon: { fontSize: 40 },
+  emptyText: { fontSize: 15 },
+});
@@ -15,6 +15,7 @@ import Animated, {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { ThemedText } from '@/components/themed-text';
+import { peekPendingLink } from '@/lib/deep-links';
 import { supabase } from '@/lib/supabase';
 
 type AuthMode = 'signin' | 'signup';
@@ -30,6 +31,12 @@ export default function OnboardingScreen() {
   const [error, setError] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(false);
   const shakeAnimation = useSharedValue(0);
+  // Opened from a shared link: say what will open after sign-in
+  const [pendingLink, setPendingLink] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    peekPendingLink().then(setPendingLink);
+  }, []);
 
   const shakeStyle = useAnimatedStyle(() => ({
     transform: [{ translateX: shakeAnimation.value }],
@@ -150,6 +157,15 @@ export default function OnboardingScreen() {
           <ThemedText style={styles.subtitle}>
             Твой пропуск в закрытое комьюнити Бишкека.
           </ThemedText>
+          {pendingLink ? (
+            <ThemedText style={styles.pendingLink}>
+              {pendingLink.startsWith('/user/')
+                ? 'Войди, и мы откроем профиль, которым с тобой поделились.'
+                : pendingLink.startsWith('/invite/')
+                  ? 'Войди, и мы откроем ивент, на который тебя пригласили.'
+                  : 'Войди, и мы откроем ивент, которым с тобой поделились.'}
+            </ThemedText>
+          ) : null}
         </Animated.View>
 
         <Animated.View entering={FadeInDown.duration(600).delay(100)} style={styles.authForm}>
@@ -255,6 +271,14 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     paddingHorizontal: 20,
   },
+  pendingLink: {
+    fontSize: 14,
+    color: '#FF9F66',
+    textAlign: 'center',
+    lineHeight: 20,
+    paddingHorizontal: 20,
+    marginTop: 12,
+  },
   authForm: { gap: 16 },
   bottomSection: { gap: 16 },
   inputContainer: {
@@ -1,12 +1,13 @@
 import React from 'react';
-import { Image, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { Image, Pressable, ScrollView, Share, StyleSheet, View } from 'react-native';
 import { router, Stack, useLocalSearchParams } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { VibeBadge } from '@/components/vibe-badge';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import type { VibeIntent } from '@/lib/local-profile';
+import { profileLink } from '@/lib/deep-links';
+import { getPublicProfile, type PublicProfile, type VibeIntent } from '@/lib/local-profile';
 import { useTheme } from '@/lib/theme';
 
 // Mock interests based on vibe
@@ -86,9 +87,17 @@ export default function PublicProfileScreen() {
   }>();
 
   const userId = params.id || 'unknown';
-  const name = params.name || 'Пользователь';
-  const avatarUrl = params.avatar || null;
-  const vibe = (params.vibe as VibeIntent) || null;
+  // Opened from a shared link: only the id is known, load the rest
+  const [fetched, setFetched] = React.useState<PublicProfile | null>(null);
+
+  React.useEffect(() => {
+    if (params.name || !params.id) return;
+    getPublicProfile(params.id).then(setFetched);
+  }, [params.id, params.name]);
+
+  const name = params.name || fetched?.name || 'Пользователь';
+  const avatarUrl = params.avatar || fetched?.avatar_url || null;
+  const vibe = (params.vibe as VibeIntent) || fetched?.vibe || null;
 
   // Generate mock data (memoized to prevent re-renders)
   const [mockData] = React.useState(() => ({
@@ -105,6 +114,16 @@ export default function PublicProfileScreen() {
           headerStyle: { backgroundColor: colors.background },
           headerTintColor: colors.text,
           headerShadowVisible: false,
+          headerRight: () => (
+            <Pressable
+              hitSlop={10}
+              onPress={() => {
+                const url = profileLink(userId);
+                Share.share({ title: name, message: `${name}\n${url}`, url }).catch(() => {});
+              }}>
+              <ThemedText style={{ color: colors.accent }}>Поделиться</ThemedText>
+            </Pressable>
+          ),
         }}
       />
       <ScrollView
@@ -0,0 +1,172 @@
+import React from 'react';
+import { Pressable, ScrollView, StyleSheet, Switch, TextInput, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { EVENT_EMOJI_OPTIONS } from '@/constants/event-emoji';
+import {
+  countActiveFilters,
+  DATE_RANGE_LABELS,
+  DEFAULT_EVENT_FILTERS,
+  DISTANCE_OPTIONS_KM,
+  type EventDateRange,
+  type EventFilters,
+} from '@/lib/event-filters';
+import { useTheme } from '@/lib/theme';
+
+type EventFiltersPanelProps = {
+  value: EventFilters;
+  onChange: (filters: EventFilters) => void;
+};
+
+const DATE_RANGES = Object.keys(DATE_RANGE_LABELS) as EventDateRange[];
+
+/**
+ * Search field + collapsible filter chips for the Events tab.
+ */
+export function EventFiltersPanel({ value, onChange }: EventFiltersPanelProps) {
+  const { colors } = useTheme();
+  const [expanded, setExpanded] = React.useState(false);
+  const activeCount = countActiveFilters(value);
+
+  function set<K extends keyof EventFilters>(key: K, v: EventFilters[K]) {
+    onChange({ ...value, [key]: v });
+  }
+
+  function chip(label: string, selected: boolean, onPress: () => void) {
+    return (
+      <Pressable
+        key={label}
+        style={[styles.chip, { backgroundColor: selected ? colors.accent : colors.card, borderColor: colors.border }]}
+        onPress={onPress}>
+        <ThemedText style={[styles.chipText, { color: selected ? colors.card : colors.text }]}>{label}</ThemedText>
+      </Pressable>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <TextInput
+          value={value.query}
+          onChangeText={(q) => set('query', q)}
+          placeholder="Поиск: название, описание, место"
+          placeholderTextColor={colors.textMuted}
+          style={[styles.search, { backgroundColor: colors.card, color: colors.text, borderColor: colors.border }]}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+        <Pressable
+          style={[
+            styles.toggle,
+            { backgroundColor: activeCount ? colors.accent : colors.card, borderColor: colors.border },
+          ]}
+          onPress={() => setExpanded((v) => !v)}>
+          <ThemedText style={[styles.chipText, { color: activeCount ? colors.card : colors.text }]}>
+            Фильтры{activeCount ? ` · ${activeCount}` : ''}
+          </ThemedText>
+        </Pressable>
+      </View>
+
+      {expanded ? (
+        <View style={styles.panel}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+            {chip('Все', value.emoji === null, () => set('emoji', null))}
+            {EVENT_EMOJI_OPTIONS.map((emoji) =>
+              chip(emoji, value.emoji === emoji, () => set('emoji', value.emoji === emoji ? null : emoji))
+            )}
+          </ScrollView>
+
+          <View style={styles.wrap}>
+            {DATE_RANGES.map((range) => chip(DATE_RANGE_LABELS[range], value.date === range, () => set('date', range)))}
+          </View>
+
+          <View style={styles.wrap}>
+            {chip('Любое расстояние', value.maxDistanceKm === null, () => set('maxDistanceKm', null))}
+            {DISTANCE_OPTIONS_KM.map((km) =>
+              chip(`до ${km} км`, value.maxDistanceKm === km, () => set('maxDistanceKm', km))
+            )}
+          </View>
+
+          <View style={styles.switchRow}>
+            <ThemedText style={{ color: colors.text }}>Есть свободные места</ThemedText>
+            <Switch
+              value={value.hasFreeSpots}
+              onValueChange={(v) => set('hasFreeSpots', v)}
+              trackColor={{ false: colors.border, true: colors.accent }}
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <ThemedText style={{ color: colors.text }}>Идут друзья</ThemedText>
+            <Switch
+              value={value.friendsGoing}
+              onValueChange={(v) => set('friendsGoing', v)}
+              trackColor={{ false: colors.border, true: colors.accent }}
+            />
+          </View>
+
+          {activeCount ? (
+            <Pressable onPress={() => onChange({ ...DEFAULT_EVENT_FILTERS, query: value.query })}>
+              <ThemedText style={[styles.reset, { color: colors.accent }]}>Сбросить фильтры</ThemedText>
+            </Pressable>
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    gap: 10,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  search: {
+    flex: 1,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  toggle: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  panel: {
+    gap: 10,
+  },
+  chips: {
+    gap: 8,
+  },
+  wrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  reset: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
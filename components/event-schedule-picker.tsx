@@ -0,0 +1,129 @@
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import React from 'react';
+import { Platform, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { EVENT_DURATION_OPTIONS, formatDuration, formatEventDay } from '@/lib/event-schedule';
+import { useTheme } from '@/lib/theme';
+
+type EventSchedulePickerProps = {
+  start: Date;
+  durationMinutes: number;
+  onChangeStart: (start: Date) => void;
+  onChangeDuration: (minutes: number) => void;
+  /** Earliest selectable date; omitted when editing so past events stay editable */
+  minimumDate?: Date;
+};
+
+/**
+ * Start date + start time + duration chips. Android opens native dialogs,
+ * iOS shows the spinner inline under the tapped field.
+ */
+export function EventSchedulePicker({
+  start,
+  durationMinutes,
+  onChangeStart,
+  onChangeDuration,
+  minimumDate,
+}: EventSchedulePickerProps) {
+  const { colors } = useTheme();
+  const [mode, setMode] = React.useState<'date' | 'time' | null>(null);
+
+  function handleChange(e: DateTimePickerEvent, value?: Date) {
+    if (Platform.OS === 'android') setMode(null);
+    if (e.type === 'dismissed' || !value) return;
+    const next = new Date(start);
+    if (mode === 'date') {
+      next.setFullYear(value.getFullYear(), value.getMonth(), value.getDate());
+    } else {
+      next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+    }
+    onChangeStart(next);
+  }
+
+  const durations = EVENT_DURATION_OPTIONS.includes(durationMinutes)
+    ? EVENT_DURATION_OPTIONS
+    : [...EVENT_DURATION_OPTIONS, durationMinutes].sort((a, b) => a - b);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Pressable
+          style={[styles.field, { backgroundColor: colors.card, borderColor: mode === 'date' ? colors.accent : colors.border }]}
+          onPress={() => setMode((m) => (m === 'date' ? null : 'date'))}>
+          <ThemedText style={[styles.fieldLabel, { color: colors.textMuted }]}>Дата</ThemedText>
+          <ThemedText type="defaultSemiBold" style={{ color: colors.text }}>{formatEventDay(start)}</ThemedText>
+        </Pressable>
+        <Pressable
+          style={[styles.field, { backgroundColor: colors.card, borderColor: mode === 'time' ? colors.accent : colors.border }]}
+          onPress={() => setMode((m) => (m === 'time' ? null : 'time'))}>
+          <ThemedText style={[styles.fieldLabel, { color: colors.textMuted }]}>Начало</ThemedText>
+          <ThemedText type="defaultSemiBold" style={{ color: colors.text }}>
+            {start.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+          </ThemedText>
+        </Pressable>
+      </View>
+
+      {mode ? (
+        <DateTimePicker
+          value={start}
+          mode={mode}
+          is24Hour
+          minuteInterval={5}
+          minimumDate={mode === 'date' ? minimumDate : undefined}
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          locale="ru-RU"
+          onChange={handleChange}
+        />
+      ) : null}
+
+      <ThemedText style={[styles.fieldLabel, { color: colors.textMuted }]}>Длительность</ThemedText>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {durations.map((min) => {
+          const selected = min === durationMinutes;
+          return (
+            <Pressable
+              key={min}
+              style={[styles.chip, { backgroundColor: selected ? colors.accent : colors.card, borderColor: colors.border }]}
+              onPress={() => onChangeDuration(min)}>
+              <ThemedText style={[styles.chipText, { color: selected ? colors.card : colors.text }]}>{formatDuration(min)}</ThemedText>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  field: {
+    flex: 1,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 2,
+  },
+  fieldLabel: {
+    fontSize: 12,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+});
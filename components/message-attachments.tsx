@@ -0,0 +1,70 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as Linking from 'expo-linking';
+import React from 'react';
+import { Image, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { fitImageSize, isStorageUrl, locationUrl, type MessageAttachment } from '@/lib/message-content';
+
+type MessageAttachmentsProps = {
+  attachments: MessageAttachment[];
+  /** Longest side of an image bubble */
+  maxImageSize: number;
+  /** Text color for location cards, to match the bubble */
+  color: string;
+};
+
+/**
+ * Images and location cards of a chat message (event chats and DMs). Images get
+ * their final size up front from the stored dimensions; tapping one opens the original
+ * (only if it's in our Storage).
+ * Horizontal padding is up to the bubble.
+ */
+export function MessageAttachments({ attachments, maxImageSize, color }: MessageAttachmentsProps) {
+  return (
+    <>
+      {attachments.map((attachment, index) => {
+        if (attachment.type === 'image') {
+          return (
+            <Pressable
+              key={index}
+              onPress={() => {
+                if (isStorageUrl(attachment.url)) void Linking.openURL(attachment.url);
+              }}>
+              <Image
+                source={{ uri: attachment.thumbnail_url ?? attachment.url }}
+                style={[styles.image, fitImageSize(attachment, maxImageSize)]}
+              />
+            </Pressable>
+          );
+        }
+        return (
+          <Pressable key={index} style={styles.location} onPress={() => void Linking.openURL(locationUrl(attachment))}>
+            <Ionicons name="location" size={22} color={color} />
+            <View style={styles.locationText}>
+              <Text style={[styles.locationLabel, { color }]} numberOfLines={2}>
+                {attachment.label || 'Геопозиция'}
+              </Text>
+              <Text style={[styles.locationCoords, { color }]}>
+                {attachment.latitude.toFixed(5)}, {attachment.longitude.toFixed(5)}
+              </Text>
+            </View>
+          </Pressable>
+        );
+      })}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: { borderRadius: 12, marginTop: 10, backgroundColor: 'rgba(0,0,0,0.06)' },
+  location: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+    minWidth: 180,
+  },
+  locationText: { flexShrink: 1 },
+  locationLabel: { fontSize: 15, fontWeight: '600' },
+  locationCoords: { fontSize: 12, opacity: 0.8 },
+});
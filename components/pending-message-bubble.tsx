@@ -0,0 +1,60 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { MessageAttachments } from '@/components/message-attachments';
+import { discardOutboxOp, retryOutboxOp, type OutboxOp } from '@/lib/outbox';
+import { useTheme } from '@/lib/theme';
+
+type PendingMessageBubbleProps = {
+  op: OutboxOp;
+  /** Longest side of image attachments, same as sent bubbles */
+  maxImageSize: number;
+};
+
+/**
+ * "My message" bubble for a message still in the outbox: clock while it waits for
+ * the connection, retry/remove once the server has rejected it.
+ */
+export function PendingMessageBubble({ op, maxImageSize }: PendingMessageBubbleProps) {
+  const { colors } = useTheme();
+  if (op.action.type === 'join') return null;
+  const { message } = op.action;
+  const failed = op.status === 'failed';
+  const time = new Date(op.created_at).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <View style={styles.row}>
+      <View style={[styles.bubble, { backgroundColor: colors.accent }]}>
+        {message.body ? <Text style={styles.body}>{message.body}</Text> : null}
+        {message.attachments?.length ? (
+          <MessageAttachments attachments={message.attachments} maxImageSize={maxImageSize} color="#FFFFFF" />
+        ) : null}
+        <View style={styles.meta}>
+          <Text style={styles.metaText}>{failed ? 'Не отправлено' : time}</Text>
+          <Ionicons name={failed ? 'alert-circle-outline' : 'time-outline'} size={13} color="#FFFFFF" />
+        </View>
+      </View>
+      {failed ? (
+        <View style={styles.actions}>
+          <Pressable onPress={() => retryOutboxOp(op.id)} hitSlop={8}>
+            <Text style={[styles.action, { color: colors.accent }]}>Повторить</Text>
+          </Pressable>
+          <Pressable onPress={() => void discardOutboxOp(op.id)} hitSlop={8}>
+            <Text style={[styles.action, { color: colors.textMuted }]}>Удалить</Text>
+          </Pressable>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { alignSelf: 'flex-end', maxWidth: '86%', marginVertical: 4, alignItems: 'flex-end' },
+  bubble: { borderRadius: 18, borderBottomRightRadius: 4, paddingHorizontal: 12, paddingVertical: 8, opacity: 0.85 },
+  body: { color: '#FFFFFF', fontSize: 15, lineHeight: 20 },
+  meta: { flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end', gap: 4, marginTop: 4 },
+  metaText: { color: 'rgba(255,255,255,0.85)', fontSize: 11 },
+  actions: { flexDirection: 'row', gap: 16, marginTop: 4 },
+  action: { fontSize: 13, fontWeight: '600' },
+});
@@ -0,0 +1,84 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, Image, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { cancelUpload, retryUpload, type UploadJob } from '@/lib/image-upload';
+import { fitImageSize } from '@/lib/message-content';
+import { useTheme } from '@/lib/theme';
+
+type PendingUploadBubbleProps = {
+  job: UploadJob;
+  /** Longest side of the preview, same as sent image bubbles */
+  maxImageSize: number;
+};
+
+/**
+ * Optimistic "my message" bubble for a photo still in the upload queue: local
+ * preview, progress, and retry/remove once the queue gives up.
+ */
+export function PendingUploadBubble({ job, maxImageSize }: PendingUploadBubbleProps) {
+  const { colors } = useTheme();
+  const size = fitImageSize(
+    { type: 'image', url: job.file, width: job.width, height: job.height, thumbnail_url: null },
+    maxImageSize
+  );
+  const caption = 'caption' in job.target ? job.target.caption : '';
+
+  let status: string;
+  if (job.status === 'failed') status = 'Не отправлено';
+  else if (job.status === 'uploading') status = `${Math.round(job.progress * 100)}%`;
+  else status = job.attempts > 0 ? 'Ждём сеть…' : 'В очереди…';
+
+  return (
+    <View style={styles.row}>
+      <View style={[styles.bubble, { backgroundColor: colors.accent }]}>
+        <View>
+          <Image source={{ uri: job.thumbFile }} style={[styles.image, size]} />
+          <View style={[styles.overlay, size]}>
+            {job.status === 'failed' ? (
+              <View style={styles.actions}>
+                <Pressable style={styles.action} onPress={() => retryUpload(job.id)} hitSlop={8}>
+                  <Ionicons name="refresh" size={20} color="#FFFFFF" />
+                </Pressable>
+                <Pressable style={styles.action} onPress={() => void cancelUpload(job.id)} hitSlop={8}>
+                  <Ionicons name="trash-outline" size={20} color="#FFFFFF" />
+                </Pressable>
+              </View>
+            ) : (
+              <ActivityIndicator color="#FFFFFF" />
+            )}
+            <Text style={styles.status}>{status}</Text>
+          </View>
+          {job.status === 'uploading' ? (
+            <View style={[styles.progressTrack, { width: size.width }]}>
+              <View style={[styles.progressFill, { width: size.width * job.progress }]} />
+            </View>
+          ) : null}
+        </View>
+        {caption ? <Text style={styles.caption}>{caption}</Text> : null}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { alignSelf: 'flex-end', maxWidth: '86%', marginVertical: 4 },
+  bubble: { borderRadius: 18, borderBottomRightRadius: 4, padding: 10, opacity: 0.85 },
+  image: { borderRadius: 12 },
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(0,0,0,0.35)',
+  },
+  actions: { flexDirection: 'row', gap: 16 },
+  action: { padding: 6, borderRadius: 16, backgroundColor: 'rgba(255,255,255,0.2)' },
+  status: { color: '#FFFFFF', fontSize: 12, fontWeight: '600' },
+  progressTrack: { height: 3, marginTop: 6, borderRadius: 2, backgroundColor: 'rgba(255,255,255,0.35)' },
+  progressFill: { height: 3, borderRadius: 2, backgroundColor: '#FFFFFF' },
+  caption: { color: '#FFFFFF', fontSize: 15, lineHeight: 20, marginTop: 8 },
+});
@@ -0,0 +1,150 @@
+import DateTimePicker, { type DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import React from 'react';
+import { Platform, Pressable, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import {
+  MAX_OCCURRENCES,
+  parseLocalDate,
+  RECURRENCE_LABELS,
+  toLocalDateString,
+  type RecurrenceFreq,
+  type RecurrenceRule,
+} from '@/lib/event-recurrence';
+import { useTheme } from '@/lib/theme';
+
+type RecurrencePickerProps = {
+  /** null = one-off event */
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  /** First occurrence; "until" can't be earlier than this */
+  start: Date;
+};
+
+const FREQS: RecurrenceFreq[] = ['daily', 'weekly', 'monthly'];
+const DEFAULT_COUNT = 4;
+
+export function RecurrencePicker({ value, onChange, start }: RecurrencePickerProps) {
+  const { colors } = useTheme();
+  const [showUntilPicker, setShowUntilPicker] = React.useState(false);
+
+  function chip(label: string, selected: boolean, onPress: () => void) {
+    return (
+      <Pressable
+        key={label}
+        style={[styles.chip, { backgroundColor: selected ? colors.accent : colors.card, borderColor: colors.border }]}
+        onPress={onPress}>
+        <ThemedText style={[styles.chipText, { color: selected ? colors.card : colors.text }]}>{label}</ThemedText>
+      </Pressable>
+    );
+  }
+
+  function handleUntilChange(e: DateTimePickerEvent, date?: Date) {
+    if (Platform.OS === 'android') setShowUntilPicker(false);
+    if (e.type === 'dismissed' || !date || !value) return;
+    onChange({ ...value, until: toLocalDateString(date), count: null });
+  }
+
+  const count = value?.count ?? DEFAULT_COUNT;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chips}>
+        {chip('Не повторять', value === null, () => onChange(null))}
+        {FREQS.map((freq) =>
+          chip(RECURRENCE_LABELS[freq], value?.freq === freq, () =>
+            onChange({ freq, interval: 1, until: value?.until ?? null, count: value ? value.count : DEFAULT_COUNT })
+          )
+        )}
+      </View>
+
+      {value ? (
+        <>
+          <View style={styles.chips}>
+            {chip('Количество раз', value.until === null, () => onChange({ ...value, until: null, count }))}
+            {chip('До даты', value.until !== null, () => {
+              const until = new Date(start);
+              until.setMonth(until.getMonth() + 1);
+              onChange({ ...value, until: value.until ?? toLocalDateString(until), count: null });
+              setShowUntilPicker(true);
+            })}
+          </View>
+
+          {value.until === null ? (
+            <View style={styles.stepper}>
+              <Pressable
+                style={[styles.stepButton, { backgroundColor: colors.card, borderColor: colors.border }]}
+                onPress={() => onChange({ ...value, count: Math.max(2, count - 1) })}>
+                <ThemedText style={{ color: colors.text }}>−</ThemedText>
+              </Pressable>
+              <ThemedText type="defaultSemiBold" style={{ color: colors.text }}>{count} раз</ThemedText>
+              <Pressable
+                style={[styles.stepButton, { backgroundColor: colors.card, borderColor: colors.border }]}
+                onPress={() => onChange({ ...value, count: Math.min(MAX_OCCURRENCES, count + 1) })}>
+                <ThemedText style={{ color: colors.text }}>+</ThemedText>
+              </Pressable>
+            </View>
+          ) : (
+            <Pressable
+              style={[styles.untilField, { backgroundColor: colors.card, borderColor: colors.border }]}
+              onPress={() => setShowUntilPicker((v) => !v)}>
+              <ThemedText style={{ color: colors.text }}>
+                До {parseLocalDate(value.until).toLocaleDateString('ru-RU', { day: 'numeric', month: 'long', year: 'numeric' })}
+              </ThemedText>
+            </Pressable>
+          )}
+
+          {showUntilPicker && value.until ? (
+            <DateTimePicker
+              value={parseLocalDate(value.until)}
+              mode="date"
+              minimumDate={start}
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              locale="ru-RU"
+              onChange={handleUntilChange}
+            />
+          ) : null}
+        </>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: StyleSheet.hairlineWidth,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  untilField: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+});
@@ -0,0 +1,55 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { useSyncStatus } from '@/lib/offline-cache';
+import { useTheme } from '@/lib/theme';
+
+type SyncStatusBannerProps = {
+  style?: StyleProp<ViewStyle>;
+};
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  const time = d.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+  if (d.toDateString() === new Date().toDateString()) return time;
+  return `${d.toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' })}, ${time}`;
+}
+
+/**
+ * Thin strip saying the screen shows cached data or that writes are waiting to
+ * sync. Renders nothing while online with fresh data and an empty outbox.
+ */
+export function SyncStatusBanner({ style }: SyncStatusBannerProps) {
+  const { colors } = useTheme();
+  const { online, staleSince, pending } = useSyncStatus();
+  if (online && !staleSince && !pending) return null;
+
+  const parts: string[] = [];
+  if (!online) parts.push('Нет сети');
+  if (staleSince) parts.push(`данные от ${formatTime(staleSince)}`);
+  if (pending) parts.push(`ждут отправки: ${pending}`);
+  const label = parts.join(' · ');
+
+  return (
+    <View style={[styles.banner, { backgroundColor: colors.card, borderColor: colors.border }, style]}>
+      <Ionicons name={online ? 'sync-outline' : 'cloud-offline-outline'} size={14} color={colors.textMuted} />
+      <Text style={[styles.text, { color: colors.textMuted }]} numberOfLines={1}>
+        {label.charAt(0).toUpperCase() + label.slice(1)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  text: { fontSize: 12, fontWeight: '500' },
+});
@@ -0,0 +1,19 @@
+/** Emoji an event can be tagged with; doubles as its category in filters. */
+export const EVENT_EMOJI_OPTIONS = [
+  '📍', // Default
+  '☕', // Coffee
+  '🍷', // Wine/Bar
+  '🌳', // Park
+  '🏋️', // Gym
+  '💻', // Work
+  '🍽️', // Restaurant
+  '🎵', // Music
+  '🎨', // Art
+  '🗣️', // Language
+  '💕', // Date
+  '🤝', // Networking
+  '🏃', // Sports
+  '🎬', // Cinema
+  '📚', // Books
+  '🎮', // Games
+];
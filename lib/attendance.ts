@@ -0,0 +1,61 @@
+import { supabase } from './supabase';
+
+/**
+ * Attendance history per user over past events, computed on the server from
+ * join requests and check-ins (see add_attendance_stats.sql). Gives hosts a
+ * signal about who actually shows up.
+ */
+
+export type AttendanceStats = {
+  /** Past events checked in at as a guest */
+  attended: number;
+  /** Approved, but didn't check in where others did */
+  no_shows: number;
+  /** Past events hosted */
+  hosted: number;
+  /** Average group size of hosted events, host included; null if none hosted */
+  avg_group_size: number | null;
+  /** False if the user turned check-ins off, so attendance can't be tracked */
+  check_ins_allowed: boolean;
+};
+
+/**
+ * Stats for several users at once, keyed by user id. Only the current user and
+ * people with a pending request to an event they host are returned; anyone else
+ * is missing from the map, as are users that couldn't be loaded.
+ */
+export async function getAttendanceStats(userIds: string[]): Promise<Map<string, AttendanceStats>> {
+  const stats = new Map<string, AttendanceStats>();
+  if (!userIds.length) return stats;
+
+  const { data, error } = await supabase.rpc('get_attendance_stats', { p_user_ids: userIds });
+  if (error) {
+    console.error('[Attendance] Error loading stats:', error.message);
+    return stats;
+  }
+
+  for (const row of (data || []) as (Omit<AttendanceStats, 'avg_group_size'> & { user_id: string; avg_group_size: number | string | null })[]) {
+    stats.set(row.user_id, {
+      attended: row.attended ?? 0,
+      no_shows: row.no_shows ?? 0,
+      hosted: row.hosted ?? 0,
+      // numeric comes back as a string
+      avg_group_size: row.avg_group_size != null ? Number(row.avg_group_size) : null,
+      check_ins_allowed: row.check_ins_allowed !== false,
+    });
+  }
+  return stats;
+}
+
+/**
+ * One-line summary for a join request, e.g. "Был(а) на 4 · неявок 1 · организовал(а) 2".
+ */
+export function formatAttendanceSummary(stats: AttendanceStats): string {
+  const parts = stats.check_ins_allowed
+    ? [`Был(а) на ${stats.attended}`, `неявок ${stats.no_shows}`]
+    : ['Чек-ины выключены'];
+  if (stats.hosted > 0) {
+    parts.push(`организовал(а) ${stats.hosted}${stats.avg_group_size != null ? ` (~${stats.avg_group_size} чел.)` : ''}`);
+  }
+  return parts.join(' · ');
+}
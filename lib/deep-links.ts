@@ -0,0 +1,93 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Share } from 'react-native';
+
+/**
+ * Shareable links. Events and profiles are shared as https links on LINK_HOST,
+ * which open the app through universal links / Android app links (see
+ * associatedDomains and intentFilters in app.json) and the web build otherwise;
+ * `nomadtable://event/<id>` works too. expo-router maps both paths straight to
+ * /event/[id], /user/[id] and /invite/[code] (invite-only events).
+ */
+
+export const LINK_HOST = 'nomadtable.app';
+const APP_SCHEME = 'nomadtable';
+
+/** Link opened before sign-in, replayed once the user is signed in with a profile */
+const PENDING_LINK_KEY = 'nomadtable.pending-link.v1';
+
+const LINKABLE_PATH = /^\/(event|user|invite)\/[\w-]+$/;
+
+export function eventLink(eventId: string): string {
+  return `https://${LINK_HOST}/event/${eventId}`;
+}
+
+export function profileLink(userId: string): string {
+  return `https://${LINK_HOST}/user/${userId}`;
+}
+
+export function inviteLink(code: string): string {
+  return `https://${LINK_HOST}/invite/${code}`;
+}
+
+/**
+ * In-app path ("/event/<id>") for a shareable URL or a path expo-router is already
+ * showing; null for anything else.
+ */
+export function toLinkPath(urlOrPath: string): string | null {
+  let path = urlOrPath;
+  const match = urlOrPath.match(/^(?:https?:\/\/([^/]+)|([a-z][\w+.-]*):\/\/)(.*)$/i);
+  if (match) {
+    const [, host, scheme, rest] = match;
+    if (host && host !== LINK_HOST && host !== `www.${LINK_HOST}`) return null;
+    if (scheme && scheme !== APP_SCHEME) return null;
+    // nomadtable://event/<id> has no host part: "event" is the first path segment
+    path = host ? rest : `/${rest}`;
+  }
+  path = path.split(/[?#]/)[0].replace(/\/+$/, '');
+  return LINKABLE_PATH.test(path) ? path : null;
+}
+
+/**
+ * Remember a link the user opened while signed out (or before creating a profile).
+ */
+export async function savePendingLink(path: string): Promise<void> {
+  const linkPath = toLinkPath(path);
+  if (!linkPath) return;
+  try {
+    await AsyncStorage.setItem(PENDING_LINK_KEY, linkPath);
+  } catch (e) {
+    console.warn('[Links] Error saving pending link:', e);
+  }
+}
+
+/**
+ * Pending link without consuming it (onboarding mentions what will open).
+ */
+export async function peekPendingLink(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(PENDING_LINK_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pending link, removed so it opens only once.
+ */
+export async function takePendingLink(): Promise<string | null> {
+  const path = await peekPendingLink();
+  if (path) await AsyncStorage.removeItem(PENDING_LINK_KEY).catch(() => {});
+  return path;
+}
+
+/**
+ * Native share sheet for an event link (or its invite link, for invite-only events).
+ */
+export async function shareEvent(
+  event: { id: string; title: string; emoji?: string | null },
+  url = eventLink(event.id)
+): Promise<void> {
+  const title = event.emoji ? `${event.emoji} ${event.title}` : event.title;
+  // iOS attaches `url` as a link preview; Android only shares `message`
+  await Share.share({ title, message: `${title}\n${url}`, url });
+}
@@ -0,0 +1,134 @@
+import { getEventEnd, getEventStart } from './event-schedule';
+import type { LocalEvent } from './local-events';
+import { distanceKm } from './location';
+import { supabase } from './supabase';
+
+/**
+ * Check-ins at the meeting point. Approved guests and hosts check in while the
+ * event is on, within the event's radius of meeting_lat/meeting_lng; the server
+ * re-checks everything (see add_event_checkins.sql). Respects the user's
+ * privacy.allowCheckIns setting.
+ */
+
+export type EventCheckIn = {
+  user_id: string;
+  name: string;
+  avatar_url: string | null;
+  checked_in_at: string;
+};
+
+/** Radius presets for the create screen (meters) */
+export const CHECK_IN_RADIUS_OPTIONS = [100, 200, 500];
+export const DEFAULT_CHECK_IN_RADIUS_M = 200;
+
+/** Check-in opens this long before the start and closes at the end */
+const CHECK_IN_OPENS_BEFORE_MIN = 30;
+
+/**
+ * Whether check-in is open for the event right now (time window and meeting point only).
+ */
+export function isCheckInOpen(event: LocalEvent, now: Date = new Date()): boolean {
+  if (event.cancelled_at || event.meeting_lat == null || event.meeting_lng == null) return false;
+  const opens = getEventStart(event).getTime() - CHECK_IN_OPENS_BEFORE_MIN * 60000;
+  return now.getTime() >= opens && now.getTime() <= getEventEnd(event).getTime();
+}
+
+/**
+ * Distance from the meeting point in meters; null if the event has no coordinates.
+ */
+export function distanceToMeetingPointM(event: LocalEvent, coords: { lat: number; lng: number }): number | null {
+  if (event.meeting_lat == null || event.meeting_lng == null) return null;
+  return Math.round(distanceKm(coords.lat, coords.lng, event.meeting_lat, event.meeting_lng) * 1000);
+}
+
+function checkInErrorMessage(error: string | undefined): string {
+  switch (error) {
+    case 'too_far':
+      return 'Ты слишком далеко от места встречи';
+    case 'outside_window':
+      return 'Чек-ин открыт за 30 минут до начала и до конца ивента';
+    case 'not_participant':
+      return 'Отметиться могут только участники ивента';
+    case 'check_ins_disabled':
+      return 'Чек-ины выключены в настройках приватности';
+    case 'event_cancelled':
+      return 'Ивент отменён';
+    case 'no_location':
+      return 'У ивента нет точки встречи';
+    case 'event_not_found':
+      return 'Ивент не найден';
+    default:
+      return 'Не удалось отметиться';
+  }
+}
+
+/**
+ * Who checked in, earliest first. Visible to the event's members only (RLS).
+ */
+export async function listEventCheckIns(eventId: string): Promise<EventCheckIn[]> {
+  const { data, error } = await supabase
+    .from('event_checkins')
+    .select(`
+      user_id,
+      checked_in_at,
+      profiles:user_id (
+        name,
+        avatar_url
+      )
+    `)
+    .eq('event_id', eventId)
+    .order('checked_in_at', { ascending: true });
+
+  if (error) {
+    console.error('[CheckIns] Error loading check-ins:', error.message);
+    return [];
+  }
+  const rows = (data || []) as unknown as {
+    user_id: string;
+    checked_in_at: string;
+    profiles: { name: string | null; avatar_url: string | null } | null;
+  }[];
+  return rows.map((row) => ({
+    user_id: row.user_id,
+    name: row.profiles?.name || 'User',
+    avatar_url: row.profiles?.avatar_url ?? null,
+    checked_in_at: row.checked_in_at,
+  }));
+}
+
+/**
+ * Check in at the event from the given position. Throws with a user-facing message
+ * if the server refuses (too far, outside the window, not a member, ...).
+ */
+export async function checkInToEvent(eventId: string, coords: { lat: number; lng: number }): Promise<void> {
+  const { data, error } = await supabase.rpc('check_in_event', {
+    p_event_id: eventId,
+    p_lat: coords.lat,
+    p_lng: coords.lng,
+  });
+  if (error) {
+    console.error('[CheckIns] Error checking in:', error.message);
+    throw error;
+  }
+  const result = data as { ok?: boolean; error?: string } | null;
+  if (!result?.ok) throw new Error(checkInErrorMessage(result?.error));
+}
+
+/**
+ * Realtime for event_checkins of one event: calls onChange on every new check-in.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToEventCheckIns(eventId: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`checkins:${eventId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'event_checkins', filter: `event_id=eq.${eventId}` },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { getEventEnd, getEventStart } from './event-schedule';
+import { getMyFriends } from './friends';
+import { getApprovedCounts, getEventIdsWithParticipants, matchesEventText, type LocalEvent } from './local-events';
+import { distanceKm, getMyCoords } from './location';
+
+const STORAGE_KEY = 'nomadtable.events.filters';
+
+export type EventDateRange = 'any' | 'today' | 'tomorrow' | 'weekend' | 'week';
+
+/** Shared by the Events tab list and the map pins; persisted between sessions. */
+export type EventFilters = {
+  query: string;
+  /** Event emoji acts as its category; null = any */
+  emoji: string | null;
+  date: EventDateRange;
+  /** Max distance from my location; null = any */
+  maxDistanceKm: number | null;
+  hasFreeSpots: boolean;
+  friendsGoing: boolean;
+};
+
+export const DEFAULT_EVENT_FILTERS: EventFilters = {
+  query: '',
+  emoji: null,
+  date: 'any',
+  maxDistanceKm: null,
+  hasFreeSpots: false,
+  friendsGoing: false,
+};
+
+export const DATE_RANGE_LABELS: Record<EventDateRange, string> = {
+  any: 'Любой день',
+  today: 'Сегодня',
+  tomorrow: 'Завтра',
+  weekend: 'Выходные',
+  week: '7 дней',
+};
+
+export const DISTANCE_OPTIONS_KM = [1, 3, 5, 10];
+
+export async function loadEventFilters(): Promise<EventFilters> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_EVENT_FILTERS, ...(JSON.parse(raw) as Partial<EventFilters>) } : DEFAULT_EVENT_FILTERS;
+  } catch {
+    return DEFAULT_EVENT_FILTERS;
+  }
+}
+
+export async function saveEventFilters(filters: EventFilters): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filters)).catch(() => {});
+}
+
+/** Number of filters that differ from the defaults (search text not counted). */
+export function countActiveFilters(filters: EventFilters): number {
+  return [
+    filters.emoji !== null,
+    filters.date !== 'any',
+    filters.maxDistanceKm !== null,
+    filters.hasFreeSpots,
+    filters.friendsGoing,
+  ].filter(Boolean).length;
+}
+
+/** [from, to) window for a date range, in local time. */
+function getDateWindow(range: EventDateRange, now: Date): { from: Date; to: Date } | null {
+  const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const addDays = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+
+  switch (range) {
+    case 'today':
+      return { from: dayStart, to: addDays(dayStart, 1) };
+    case 'tomorrow':
+      return { from: addDays(dayStart, 1), to: addDays(dayStart, 2) };
+    case 'weekend': {
+      // Saturday + Sunday of the current week; on Sunday that's today only
+      const day = dayStart.getDay();
+      const saturday = day === 0 ? addDays(dayStart, -1) : addDays(dayStart, 6 - day);
+      return { from: saturday, to: addDays(saturday, 2) };
+    }
+    case 'week':
+      return { from: dayStart, to: addDays(dayStart, 7) };
+    default:
+      return null;
+  }
+}
+
+/** True if the event overlaps the range (live events count for "today"). */
+export function isInDateRange(event: LocalEvent, range: EventDateRange, now = new Date()): boolean {
+  const window = getDateWindow(range, now);
+  if (!window) return true;
+  return getEventStart(event) < window.to && getEventEnd(event) >= window.from;
+}
+
+/**
+ * Apply filters to an already loaded list. Loads whatever extra data the active
+ * filters need (my location, participant counts, friends) in one go.
+ */
+export async function applyEventFilters(events: LocalEvent[], filters: EventFilters): Promise<LocalEvent[]> {
+  let result = events.filter(
+    (e) =>
+      matchesEventText(e, filters.query) &&
+      (filters.emoji === null || e.emoji === filters.emoji) &&
+      isInDateRange(e, filters.date)
+  );
+
+  if (filters.maxDistanceKm !== null) {
+    const me = await getMyCoords();
+    // Without a location the filter can't be applied; keep the list rather than empty it
+    if (me) {
+      const max = filters.maxDistanceKm;
+      result = result.filter(
+        (e) => e.meeting_lat != null && e.meeting_lng != null && distanceKm(me.lat, me.lng, e.meeting_lat, e.meeting_lng) <= max
+      );
+    }
+  }
+
+  if (filters.hasFreeSpots) {
+    const capped = result.filter((e) => e.max_participants != null);
+    const counts = await getApprovedCounts(capped.map((e) => e.id));
+    result = result.filter((e) => e.max_participants == null || (counts.get(e.id) ?? 0) < e.max_participants);
+  }
+
+  if (filters.friendsGoing) {
+    const friends = await getMyFriends();
+    const withFriends = await getEventIdsWithParticipants(
+      result.map((e) => e.id),
+      friends.map((f) => f.user.id)
+    );
+    result = result.filter((e) => withFriends.has(e.id));
+  }
+
+  return result;
+}
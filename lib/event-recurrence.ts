@@ -0,0 +1,87 @@
+export type RecurrenceFreq = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Repeat rule stored in event_series. Exactly one of until / count is expected;
+ * if both are null the series stops at MAX_OCCURRENCES.
+ */
+export type RecurrenceRule = {
+  freq: RecurrenceFreq;
+  /** Every N days/weeks/months */
+  interval: number;
+  /** Last allowed start date as a local calendar day (YYYY-MM-DD), inclusive */
+  until: string | null;
+  /** Total number of occurrences, including the first one */
+  count: number | null;
+};
+
+/** Hard cap so "until next year, daily" doesn't insert hundreds of rows */
+export const MAX_OCCURRENCES = 52;
+
+export const RECURRENCE_LABELS: Record<RecurrenceFreq, string> = {
+  daily: 'Каждый день',
+  weekly: 'Каждую неделю',
+  monthly: 'Каждый месяц',
+};
+
+/** Local calendar day of `date` as YYYY-MM-DD (the format of event_series.until) */
+export function toLocalDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Local midnight of a YYYY-MM-DD day; anything else is parsed as a timestamp */
+export function parseLocalDate(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(value);
+}
+
+function addMonthsClamped(base: Date, months: number): Date {
+  const d = new Date(base);
+  const day = d.getDate();
+  d.setDate(1);
+  d.setMonth(d.getMonth() + months);
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  d.setDate(Math.min(day, lastDay));
+  return d;
+}
+
+function nthStart(first: Date, rule: RecurrenceRule, n: number): Date {
+  const step = Math.max(1, rule.interval) * n;
+  if (rule.freq === 'monthly') return addMonthsClamped(first, step);
+  const d = new Date(first);
+  d.setDate(d.getDate() + (rule.freq === 'weekly' ? step * 7 : step));
+  return d;
+}
+
+/**
+ * Expand a rule into concrete occurrences, starting with `start` itself.
+ */
+export function buildOccurrences(
+  start: Date,
+  durationMinutes: number,
+  rule: RecurrenceRule
+): { start: Date; end: Date }[] {
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const until = rule.until ? parseLocalDate(rule.until) : null;
+  if (until) until.setHours(23, 59, 59, 999);
+
+  const out: { start: Date; end: Date }[] = [];
+  for (let i = 0; out.length < limit; i++) {
+    const s = nthStart(start, rule, i);
+    if (until && s.getTime() > until.getTime()) break;
+    out.push({ start: s, end: new Date(s.getTime() + durationMinutes * 60000) });
+  }
+  return out;
+}
+
+/**
+ * Short description, e.g. "Каждую неделю · 8 раз" or "Каждый день · до 30 июн.".
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const base = rule.interval > 1 ? `${RECURRENCE_LABELS[rule.freq]} (×${rule.interval})` : RECURRENCE_LABELS[rule.freq];
+  if (rule.until) {
+    return `${base} · до ${parseLocalDate(rule.until).toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' })}`;
+  }
+  if (rule.count) return `${base} · ${rule.count} раз`;
+  return base;
+}
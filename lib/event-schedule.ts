@@ -0,0 +1,94 @@
+import type { LocalEvent } from './local-events';
+
+type ScheduledEvent = Pick<LocalEvent, 'start_time' | 'end_time' | 'created_at'>;
+
+/** Used when an event has no explicit end time */
+export const DEFAULT_EVENT_DURATION_MIN = 120;
+
+/** Duration presets shown in the schedule picker (minutes) */
+export const EVENT_DURATION_OPTIONS = [60, 90, 120, 180, 240, 360];
+
+/**
+ * Start of the event. Old events without start_time fall back to created_at.
+ */
+export function getEventStart(event: ScheduledEvent): Date {
+  return new Date(event.start_time ?? event.created_at);
+}
+
+/**
+ * End of the event: end_time if set, otherwise start + default duration.
+ */
+export function getEventEnd(event: ScheduledEvent): Date {
+  if (event.end_time) return new Date(event.end_time);
+  return new Date(getEventStart(event).getTime() + DEFAULT_EVENT_DURATION_MIN * 60000);
+}
+
+export function getEventDurationMinutes(event: ScheduledEvent): number {
+  return Math.max(0, Math.round((getEventEnd(event).getTime() - getEventStart(event).getTime()) / 60000));
+}
+
+export type EventPhase = 'upcoming' | 'live' | 'ended';
+
+/**
+ * Where the event is relative to `now`. Ended events are hidden from the map and Events tab.
+ */
+export function getEventPhase(event: ScheduledEvent, now: Date = new Date()): EventPhase {
+  if (getEventEnd(event).getTime() <= now.getTime()) return 'ended';
+  if (getEventStart(event).getTime() <= now.getTime()) return 'live';
+  return 'upcoming';
+}
+
+export function isEventEnded(event: ScheduledEvent, now: Date = new Date()): boolean {
+  return getEventPhase(event, now) === 'ended';
+}
+
+/**
+ * Round a date up to the next quarter hour (default start for new events).
+ */
+export function nextQuarterHour(from: Date = new Date()): Date {
+  const d = new Date(from);
+  d.setSeconds(0, 0);
+  const rest = d.getMinutes() % 15;
+  d.setMinutes(d.getMinutes() + (rest === 0 ? 15 : 15 - rest));
+  return d;
+}
+
+export function formatDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m} мин`;
+  if (m === 0) return `${h} ч`;
+  return `${h} ч ${m} мин`;
+}
+
+function formatTime(d: Date): string {
+  return d.toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/**
+ * Human-readable day: "Сегодня", "Завтра" or "12 мар.".
+ */
+export function formatEventDay(d: Date): string {
+  const now = new Date();
+  const tomorrow = new Date(now);
+  tomorrow.setDate(now.getDate() + 1);
+  if (isSameDay(d, now)) return 'Сегодня';
+  if (isSameDay(d, tomorrow)) return 'Завтра';
+  return d.toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' });
+}
+
+/**
+ * Full schedule line, e.g. "Сегодня, 19:00–21:00" or "12 мар., 22:00 – 13 мар., 02:00".
+ */
+export function formatEventSchedule(event: ScheduledEvent): string {
+  const start = getEventStart(event);
+  const end = getEventEnd(event);
+  if (isSameDay(start, end)) {
+    return `${formatEventDay(start)}, ${formatTime(start)}–${formatTime(end)}`;
+  }
+  return `${formatEventDay(start)}, ${formatTime(start)} – ${formatEventDay(end)}, ${formatTime(end)}`;
+}
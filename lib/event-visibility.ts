@@ -0,0 +1,99 @@
+import { supabase } from './supabase';
+
+/**
+ * Who can see an event: everyone, the creator's friends, or people with an
+ * invite code. Enforced by RLS (see add_event_visibility.sql); the client only
+ * picks the setting and manages the invite code.
+ */
+
+export type EventVisibility = 'public' | 'friends' | 'invite';
+
+/** Picker options, in display order */
+export const EVENT_VISIBILITY_OPTIONS: { value: EventVisibility; label: string; hint: string }[] = [
+  { value: 'public', label: 'Все', hint: 'Ивент видят все на карте и в списке.' },
+  { value: 'friends', label: 'Друзья', hint: 'Видят только твои друзья.' },
+  { value: 'invite', label: 'По приглашению', hint: 'Видят только те, кто открыл ссылку-приглашение.' },
+];
+
+/** Label for non-public events; null for public ones */
+export function visibilityLabel(visibility: EventVisibility | undefined): string | null {
+  switch (visibility) {
+    case 'friends':
+      return 'Только для друзей';
+    case 'invite':
+      return 'Только по приглашению';
+    default:
+      return null;
+  }
+}
+
+function inviteErrorMessage(error: string | undefined): string {
+  switch (error) {
+    case 'not_creator':
+      return 'Ссылкой управляет только организатор';
+    case 'event_not_found':
+      return 'Ивент не найден';
+    case 'invalid_code':
+      return 'Приглашение недействительно или было отозвано';
+    default:
+      return 'Не удалось обработать приглашение';
+  }
+}
+
+/**
+ * Current invite code of my event (null if none). Creator only.
+ */
+export async function getEventInviteCode(eventId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('event_invites')
+    .select('code')
+    .eq('event_id', eventId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Invites] Error loading invite code:', error.message);
+    return null;
+  }
+  return data?.code ?? null;
+}
+
+/**
+ * New invite code for my event. Replaces the previous one, so old links stop working.
+ */
+export async function createEventInvite(eventId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_event_invite', { p_event_id: eventId });
+  if (error) {
+    console.error('[Invites] Error creating invite:', error.message);
+    throw error;
+  }
+  const result = data as { ok?: boolean; code?: string; error?: string } | null;
+  if (!result?.ok || !result.code) throw new Error(inviteErrorMessage(result?.error));
+  return result.code;
+}
+
+/**
+ * Revoke the invite code. People who already used it keep access.
+ */
+export async function revokeEventInvite(eventId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('revoke_event_invite', { p_event_id: eventId });
+  if (error) {
+    console.error('[Invites] Error revoking invite:', error.message);
+    throw error;
+  }
+  const result = data as { ok?: boolean; error?: string } | null;
+  if (!result?.ok) throw new Error(inviteErrorMessage(result?.error));
+}
+
+/**
+ * Use an invite code: the event becomes visible to me. Returns the event id.
+ */
+export async function redeemEventInvite(code: string): Promise<string> {
+  const { data, error } = await supabase.rpc('redeem_event_invite', { p_code: code });
+  if (error) {
+    console.error('[Invites] Error redeeming invite:', error.message);
+    throw error;
+  }
+  const result = data as { ok?: boolean; event_id?: string; error?: string } | null;
+  if (!result?.ok || !result.event_id) throw new Error(inviteErrorMessage(result?.error));
+  return result.event_id;
+}
@@ -1,60 +1,482 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { decode } from 'base64-arraybuffer';
-import * as FileSystem from 'expo-file-system';
-import { supabase } from './supabase';
+import * as FileSystem from 'expo-file-system/legacy';
+import { ImageManipulator, SaveFormat, type ImageRef } from 'expo-image-manipulator';
+import React from 'react';
+import { AppState } from 'react-native';
+
+import { sendDMMessage, type DMMessage } from './local-dms';
+import { addMessage, type LocalMessage } from './local-events';
+import { getProfile } from './local-profile';
+import { getCurrentUserId, getOrCreateLocalUserId } from './local-user';
+import { createMessageId, isDuplicateMessageError, type ImageAttachment } from './message-content';
+import { supabase, supabaseAnonKey, supabaseUrl } from './supabase';
 
 const BUCKET_CHAT = 'chat-images';
 const BUCKET_EVENT = 'event-images';
 
+/** Longest side of uploaded images; camera originals are scaled down to this */
+const MAX_IMAGE_SIDE = 1600;
+/** Longest side of the thumbnail variant (chat bubbles, list cards) */
+const THUMBNAIL_SIDE = 320;
+const IMAGE_QUALITY = 0.8;
+const THUMBNAIL_QUALITY = 0.6;
+
+/** Stored per user as `${QUEUE_KEY}:<user id>`; the bare key is the pre-account queue */
+const QUEUE_KEY = 'nomadtable.uploads.v1';
+/** Encoded files of persisted jobs live here until uploaded */
+const UPLOADS_DIR = `${FileSystem.documentDirectory}uploads/`;
+/** After this many failed attempts a job waits for retryUpload() */
+const MAX_ATTEMPTS = 6;
+const MAX_BACKOFF_MS = 60_000;
+
+export type UploadedImage = {
+  url: string;
+  /** Size of the uploaded (resized) image */
+  width: number;
+  height: number;
+  thumbnail_url: string | null;
+};
+
 /**
- * Read image from URI, upload to Supabase storage (chat-images), return public URL.
- * Used for chat image messages.
+ * What happens once the image is in storage. Chat messages are sent by the queue
+ * itself, so they go out even after an app restart; covers and avatars only return
+ * the URL to the screen that asked (see waitForUpload), aren't persisted and are
+ * dropped once they fail for good.
  */
-export async function uploadImage(uri: string): Promise<string | null> {
-  try {
-    const base64 = await FileSystem.readAsStringAsync(uri, {
-      encoding: FileSystem.EncodingType.Base64,
-    });
-    const arrayBuffer = decode(base64);
-    const random = Math.random().toString(36).slice(2, 10);
-    const fileName = `chat/${Date.now()}_${random}.jpg`;
+export type UploadTarget =
+  | { type: 'event-message'; eventId: string; caption: string }
+  | { type: 'dm-message'; chatId: string; caption: string }
+  | { type: 'event-cover' }
+  | { type: 'avatar' };
+
+export type UploadJob = {
+  /** Also the id of the chat message it sends */
+  id: string;
+  /** Who queued it; only uploaded while this user is signed in */
+  userId: string;
+  target: UploadTarget;
+  /** Local re-encoded image and thumbnail (also the optimistic preview) */
+  file: string;
+  thumbFile: string;
+  width: number;
+  height: number;
+  png: boolean;
+  status: 'pending' | 'uploading' | 'failed';
+  /** 0..1 while uploading */
+  progress: number;
+  attempts: number;
+  nextAttemptAt: number;
+  error: string | null;
+  created_at: string;
+};
+
+export type UploadResult = {
+  image: UploadedImage;
+  /** The sent message, for message targets (absent if an earlier attempt already sent it) */
+  eventMessage?: LocalMessage;
+  dmMessage?: DMMessage;
+};
+
+function isPersistent(target: UploadTarget): boolean {
+  return target.type === 'event-message' || target.type === 'dm-message';
+}
+
+/** PNGs keep their format (transparency); everything else, HEIC included, becomes JPEG */
+function isPng(uri: string, mimeType?: string | null): boolean {
+  if (mimeType) return mimeType === 'image/png';
+  return /\.png(\?|$)/i.test(uri);
+}
+
+/**
+ * Re-encode `source` fitted into maxSide x maxSide and save it to a local file.
+ * Re-encoding writes fresh pixels only, so EXIF metadata (GPS position, device,
+ * timestamps) never reaches storage.
+ */
+async function encodeImage(
+  source: ImageRef,
+  maxSide: number,
+  format: SaveFormat,
+  compress: number
+): Promise<{ uri: string; width: number; height: number }> {
+  const context = ImageManipulator.manipulate(source);
+  if (source.width > maxSide || source.height > maxSide) {
+    context.resize(source.width >= source.height ? { width: maxSide } : { height: maxSide });
+  }
+  const image = await context.renderAsync();
+  return image.saveAsync({ compress, format });
+}
 
-    const { error } = await supabase.storage
-      .from(BUCKET_CHAT)
-      .upload(fileName, arrayBuffer, { contentType: 'image/jpeg' });
+// ==============================================
+// QUEUE STATE
+// ==============================================
 
-    if (error) throw error;
+let jobs: UploadJob[] = [];
+/** Signed-in user whose queue is loaded */
+let owner: string | null = null;
+let running = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+const waiters = new Map<string, { resolve: (r: UploadResult) => void; reject: (e: Error) => void }[]>();
 
-    const { data: publicUrlData } = supabase.storage.from(BUCKET_CHAT).getPublicUrl(fileName);
-    return publicUrlData.publicUrl;
+function setJobs(next: UploadJob[]) {
+  jobs = next;
+  listeners.forEach((l) => l());
+}
+
+function updateJob(id: string, patch: Partial<UploadJob>) {
+  setJobs(jobs.map((j) => (j.id === id ? { ...j, ...patch } : j)));
+}
+
+async function persistJobs() {
+  if (!owner) return;
+  try {
+    const mine = jobs.filter((j) => j.userId === owner && isPersistent(j.target));
+    await AsyncStorage.setItem(`${QUEUE_KEY}:${owner}`, JSON.stringify(mine));
   } catch (e) {
-    console.error('[image-upload]', e);
-    return null;
+    console.error('[image-upload] Error saving queue:', e);
   }
 }
 
+function settle(id: string, outcome: { result: UploadResult } | { error: Error }) {
+  const pending = waiters.get(id) ?? [];
+  waiters.delete(id);
+  pending.forEach((w) => ('result' in outcome ? w.resolve(outcome.result) : w.reject(outcome.error)));
+}
+
+async function removeJob(job: UploadJob) {
+  setJobs(jobs.filter((j) => j.id !== job.id));
+  await persistJobs();
+  await Promise.all([
+    FileSystem.deleteAsync(job.file, { idempotent: true }),
+    FileSystem.deleteAsync(job.thumbFile, { idempotent: true }),
+  ]).catch((e) => console.warn('[image-upload] cleanup', e));
+}
+
+// ==============================================
+// UPLOADING
+// ==============================================
+
 /**
- * Upload image to event-images bucket; return public URL for event cover.
- * Requires bucket "event-images" to exist and be public.
+ * Upload a local file to storage with progress (supabase-js doesn't report any).
+ * An object already stored by an earlier, interrupted attempt counts as success.
  */
-export async function uploadEventImage(uri: string): Promise<string | null> {
+async function putObject(
+  bucket: string,
+  path: string,
+  file: string,
+  contentType: string,
+  onProgress: (fraction: number) => void
+): Promise<string> {
+  const base64 = await FileSystem.readAsStringAsync(file, { encoding: FileSystem.EncodingType.Base64 });
+  const { data: { session } } = await supabase.auth.getSession();
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${supabaseUrl}/storage/v1/object/${bucket}/${path}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${session?.access_token ?? supabaseAnonKey}`);
+    xhr.setRequestHeader('apikey', supabaseAnonKey);
+    xhr.setRequestHeader('Content-Type', contentType);
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable && e.total > 0) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status < 300 || xhr.status === 409 || /Duplicate/.test(xhr.responseText)) resolve();
+      else reject(new Error(`Upload failed (${xhr.status}): ${xhr.responseText}`));
+    };
+    xhr.onerror = () => reject(new Error('Network error'));
+    xhr.send(decode(base64));
+  });
+
+  return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+}
+
+async function uploadJobFiles(job: UploadJob): Promise<UploadedImage> {
+  const bucket = job.target.type === 'event-cover' ? BUCKET_EVENT : BUCKET_CHAT;
+  const folder = job.target.type === 'event-cover' ? 'covers' : 'chat';
+  const ext = job.png ? 'png' : 'jpg';
+  const contentType = job.png ? 'image/png' : 'image/jpeg';
+  // Named after the job, so a retry after an interrupted upload finds its own object
+  const baseName = `${folder}/${job.id}`;
+
+  const url = await putObject(bucket, `${baseName}.${ext}`, job.file, contentType, (p) =>
+    updateJob(job.id, { progress: p * 0.9 })
+  );
+  let thumbnailUrl: string | null = null;
+  try {
+    thumbnailUrl = await putObject(bucket, `${baseName}_thumb.${ext}`, job.thumbFile, contentType, (p) =>
+      updateJob(job.id, { progress: 0.9 + p * 0.1 })
+    );
+  } catch (e) {
+    // A missing thumbnail doesn't fail the upload; bubbles fall back to the full image
+    console.warn('[image-upload] thumbnail', e);
+  }
+
+  return { url, width: job.width, height: job.height, thumbnail_url: thumbnailUrl };
+}
+
+/** Send the chat message for message targets */
+async function deliver(job: UploadJob, image: UploadedImage): Promise<UploadResult> {
+  const { target } = job;
+  if (target.type !== 'event-message' && target.type !== 'dm-message') return { image };
+
+  const attachment: ImageAttachment = { type: 'image', ...image };
+  const userId = job.userId;
+  const profile = await getProfile();
+  const author = {
+    name: profile.name || 'Guest',
+    avatar_url: profile.photos?.[0] ?? null,
+    vibe: profile.vibeIntent ?? null,
+  };
+
+  try {
+    if (target.type === 'event-message') {
+      const eventMessage = await addMessage({
+        id: job.id,
+        event_id: target.eventId,
+        user_id: userId,
+        kind: 'image',
+        body: target.caption,
+        attachments: [attachment],
+        author,
+      });
+      return { image, eventMessage };
+    }
+    const dmMessage = await sendDMMessage(
+      target.chatId,
+      { id: job.id, kind: 'image', body: target.caption, attachments: [attachment] },
+      userId,
+      author
+    );
+    return { image, dmMessage };
+  } catch (e) {
+    // Sent by an attempt that was interrupted before it could clean up
+    if (isDuplicateMessageError(e as { code?: string })) return { image };
+    throw e;
+  }
+}
+
+async function runJob(job: UploadJob) {
+  updateJob(job.id, { status: 'uploading', progress: 0, error: null });
   try {
-    const base64 = await FileSystem.readAsStringAsync(uri, {
-      encoding: FileSystem.EncodingType.Base64,
+    const image = await uploadJobFiles(job);
+    const result = await deliver(job, image);
+    await removeJob(job);
+    settle(job.id, { result });
+  } catch (e) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    const attempts = job.attempts + 1;
+    const failed = attempts >= MAX_ATTEMPTS;
+    console.warn('[image-upload] attempt', attempts, 'failed:', error.message);
+    // Nothing shows a failed cover or avatar after its screen gets the error
+    if (failed && !isPersistent(job.target)) {
+      await removeJob(job);
+      settle(job.id, { error });
+      return;
+    }
+    updateJob(job.id, {
+      status: failed ? 'failed' : 'pending',
+      progress: 0,
+      attempts,
+      nextAttemptAt: Date.now() + Math.min(2 ** attempts * 1000, MAX_BACKOFF_MS),
+      error: error.message,
     });
-    const arrayBuffer = decode(base64);
-    const random = Math.random().toString(36).slice(2, 10);
-    const fileName = `covers/${Date.now()}_${random}.jpg`;
+    await persistJobs();
+    if (failed) settle(job.id, { error });
+  }
+}
+
+function scheduleNext() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const next = Math.min(...jobs.filter((j) => j.status === 'pending' && j.userId === owner).map((j) => j.nextAttemptAt));
+  if (Number.isFinite(next)) {
+    timer = setTimeout(() => void runQueue(), Math.max(0, next - Date.now()));
+  }
+}
+
+/** Work through due jobs one at a time */
+async function runQueue() {
+  if (running) return;
+  running = true;
+  try {
+    for (;;) {
+      const job = jobs.find((j) => j.status === 'pending' && j.userId === owner && j.nextAttemptAt <= Date.now());
+      if (!job) break;
+      await runJob(job);
+    }
+  } finally {
+    running = false;
+    scheduleNext();
+  }
+}
+
+// ==============================================
+// PUBLIC API
+// ==============================================
+
+/**
+ * Resize and re-encode an image (plus a thumbnail) locally and queue it for upload.
+ * Resolves once the job is queued; use waitForUpload() for the result, or
+ * usePendingUploads() to render progress.
+ */
+export async function enqueueImageUpload(
+  uri: string,
+  mimeType: string | null | undefined,
+  target: UploadTarget
+): Promise<UploadJob> {
+  const png = isPng(uri, mimeType);
+  const format = png ? SaveFormat.PNG : SaveFormat.JPEG;
+  const original = await ImageManipulator.manipulate(uri).renderAsync();
+  const [full, thumb] = await Promise.all([
+    encodeImage(original, MAX_IMAGE_SIDE, format, IMAGE_QUALITY),
+    encodeImage(original, THUMBNAIL_SIDE, format, THUMBNAIL_QUALITY),
+  ]);
 
-    const { error } = await supabase.storage
-      .from(BUCKET_EVENT)
-      .upload(fileName, arrayBuffer, { contentType: 'image/jpeg' });
+  const id = createMessageId();
+  const userId = await getOrCreateLocalUserId();
+  let file = full.uri;
+  let thumbFile = thumb.uri;
+  // Persisted jobs must outlive the cache directory
+  if (isPersistent(target)) {
+    const ext = png ? 'png' : 'jpg';
+    await FileSystem.makeDirectoryAsync(UPLOADS_DIR, { intermediates: true });
+    file = `${UPLOADS_DIR}${id}.${ext}`;
+    thumbFile = `${UPLOADS_DIR}${id}_thumb.${ext}`;
+    await Promise.all([
+      FileSystem.moveAsync({ from: full.uri, to: file }),
+      FileSystem.moveAsync({ from: thumb.uri, to: thumbFile }),
+    ]);
+  }
 
-    if (error) throw error;
+  const job: UploadJob = {
+    id,
+    userId,
+    target,
+    file,
+    thumbFile,
+    width: full.width,
+    height: full.height,
+    png,
+    status: 'pending',
+    progress: 0,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    error: null,
+    created_at: new Date().toISOString(),
+  };
+  setJobs([...jobs, job]);
+  await persistJobs();
+  void runQueue();
+  return job;
+}
+
+/**
+ * Result of a queued upload. Rejects if the job fails MAX_ATTEMPTS times or is cancelled.
+ */
+export function waitForUpload(id: string): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    const job = jobs.find((j) => j.id === id);
+    if (!job) {
+      reject(new Error('Upload not found'));
+      return;
+    }
+    if (job.status === 'failed') {
+      reject(new Error(job.error ?? 'Upload failed'));
+      return;
+    }
+    waiters.set(id, [...(waiters.get(id) ?? []), { resolve, reject }]);
+  });
+}
 
-    const { data: publicUrlData } = supabase.storage.from(BUCKET_EVENT).getPublicUrl(fileName);
-    return publicUrlData.publicUrl;
+/**
+ * Try a failed (or backing-off) job again now.
+ */
+export function retryUpload(id: string) {
+  updateJob(id, { status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: null });
+  void persistJobs();
+  void runQueue();
+}
+
+/**
+ * Drop a job. Chat photos can't be dropped mid-upload (the message may already be
+ * on its way); a cover or avatar can, and its result is then ignored.
+ */
+export async function cancelUpload(id: string) {
+  const job = jobs.find((j) => j.id === id);
+  if (!job || (job.status === 'uploading' && isPersistent(job.target))) return;
+  await removeJob(job);
+  settle(id, { error: new Error('Upload cancelled') });
+}
+
+// Signing out stops the queue; the user's saved jobs resume when they sign back in
+supabase.auth.onAuthStateChange((event) => {
+  if (event !== 'SIGNED_OUT' || !owner) return;
+  owner = null;
+  const dropped = jobs;
+  setJobs([]);
+  for (const job of dropped) settle(job.id, { error: new Error('Signed out') });
+});
+
+let resumed = false;
+
+/**
+ * Load the signed-in user's jobs left over from the last session and keep the
+ * queue moving: retries run on their backoff timer, and right away whenever the
+ * app comes to the foreground. Called again after every sign-in.
+ */
+export async function resumeUploads(): Promise<void> {
+  const userId = await getCurrentUserId();
+  if (!userId || userId === owner) return;
+  owner = userId;
+  // Queued by this user before the load finished
+  setJobs(jobs.filter((j) => j.userId === userId));
+  try {
+    const raw = await AsyncStorage.getItem(`${QUEUE_KEY}:${userId}`);
+    const saved = raw ? (JSON.parse(raw) as UploadJob[]) : [];
+    // Jobs from before queues were per account don't say whose they are, so they're dropped
+    const legacy = await AsyncStorage.getItem(QUEUE_KEY);
+    if (legacy) {
+      await AsyncStorage.removeItem(QUEUE_KEY);
+      for (const job of JSON.parse(legacy) as UploadJob[]) {
+        await Promise.all([
+          FileSystem.deleteAsync(job.file, { idempotent: true }),
+          FileSystem.deleteAsync(job.thumbFile, { idempotent: true }),
+        ]).catch((e) => console.warn('[image-upload] cleanup', e));
+      }
+    }
+    if (owner !== userId) return;
+    // A job that was uploading when the app died starts over
+    const restored = saved.map((j) => (j.status === 'uploading' ? { ...j, status: 'pending' as const, progress: 0 } : j));
+    setJobs([...restored.filter((r) => !jobs.some((j) => j.id === r.id)), ...jobs]);
+    await persistJobs();
   } catch (e) {
-    console.error('[image-upload] uploadEventImage', e);
-    return null;
+    console.error('[image-upload] Error loading queue:', e);
   }
+
+  if (resumed) {
+    void runQueue();
+    return;
+  }
+  resumed = true;
+  AppState.addEventListener('change', (state) => {
+    if (state !== 'active') return;
+    setJobs(jobs.map((j) => (j.status === 'pending' ? { ...j, nextAttemptAt: Date.now() } : j)));
+    void runQueue();
+  });
+  void runQueue();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * All queued uploads (pending, in flight or failed), for optimistic chat bubbles.
+ */
+export function usePendingUploads(): UploadJob[] {
+  return React.useSyncExternalStore(subscribe, () => jobs);
 }
@@ -1,10 +1,19 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+import { getOrCreateLocalUserId } from './local-user';
+import { toMessageContent, type MessageAttachment, type MessageInput, type MessageKind } from './message-content';
+import { isNetworkError, loadFromCache, saveToCache } from './offline-cache';
+import { supabase } from './supabase';
 
 export type DMMessage = {
   id: string;
   chatId: string; // The other user's ID
   senderId: string; // Who sent this message
+  kind: MessageKind;
+  /** Text, or the caption of an image */
   body: string;
+  attachments: MessageAttachment[];
   created_at: string;
   author: {
     name: string;
@@ -22,76 +31,142 @@ export type DMChat = {
   updatedAt: string;
 };
 
-const DMS_KEY = 'nomadtable.dms.v1';
-const DM_MESSAGES_KEY = 'nomadtable.dm_messages.v1';
+// Pre-backend storage, read once by migrateLocalDMs()
+const LEGACY_DMS_KEY = 'nomadtable.dms.v1';
+const LEGACY_DM_MESSAGES_KEY = 'nomadtable.dm_messages.v1';
+/** Other-user ids whose local history is already uploaded; removed once migration finishes */
+const MIGRATED_KEY = 'nomadtable.dms.migrated.v1';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type ProfileRow = {
+  id: string;
+  name: string | null;
+  avatar_url: string | null;
+  vibe: string | null;
+};
+
+type SupabaseDMChat = {
+  id: string;
+  user_a: string;
+  user_b: string;
+  last_message: string | null;
+  updated_at: string;
+  a?: ProfileRow | null;
+  b?: ProfileRow | null;
+};
+
+type SupabaseDMMessage = {
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string;
+  kind?: string | null;
+  attachments?: MessageAttachment[] | null;
+  created_at: string;
+  profiles?: Omit<ProfileRow, 'id'> | null;
+};
+
+const MESSAGE_SELECT = `
+  id,
+  chat_id,
+  sender_id,
+  kind,
+  content,
+  attachments,
+  created_at,
+  profiles:sender_id (
+    name,
+    avatar_url,
+    vibe
+  )
+`;
+
+/** How many of the latest messages of a DM are kept offline */
+const CACHED_DM_MESSAGES = 100;
 
-function randomId() {
-  return Math.random().toString(16).slice(2) + Date.now().toString(16);
+function getMyUserId(): Promise<string> {
+  return getOrCreateLocalUserId();
 }
 
-async function readJson<T>(key: string, fallback: T): Promise<T> {
-  const raw = await AsyncStorage.getItem(key);
-  if (!raw) return fallback;
-  try {
-    return JSON.parse(raw) as T;
-  } catch {
-    return fallback;
+/** dm_chats stores members ordered so each pair has a single row */
+function orderedPair(me: string, other: string): { user_a: string; user_b: string } {
+  return me < other ? { user_a: me, user_b: other } : { user_a: other, user_b: me };
+}
+
+function preview(body: string): string {
+  return body.length > 50 ? body.substring(0, 50) + '...' : body;
+}
+
+function mapToDMMessage(row: SupabaseDMMessage, otherUserId: string): DMMessage {
+  return {
+    id: row.id,
+    chatId: otherUserId,
+    senderId: row.sender_id,
+    ...toMessageContent(row),
+    created_at: row.created_at,
+    author: {
+      name: row.profiles?.name || 'User',
+      avatar_url: row.profiles?.avatar_url ?? null,
+      vibe: row.profiles?.vibe ?? null,
+    },
+  };
+}
+
+// Other user id -> dm_chats.id (the pair never changes, so this is safe to keep for the session)
+const chatRowIds = new Map<string, string>();
+
+// Another account on this device has other chats with the same people
+supabase.auth.onAuthStateChange((event) => {
+  if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') chatRowIds.clear();
+});
+
+async function findChatRowId(otherUserId: string): Promise<string | null> {
+  const cached = chatRowIds.get(otherUserId);
+  if (cached) return cached;
+
+  const me = await getMyUserId();
+  const { user_a, user_b } = orderedPair(me, otherUserId);
+  const { data, error } = await supabase
+    .from('dm_chats')
+    .select('id')
+    .eq('user_a', user_a)
+    .eq('user_b', user_b)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[DMs] Error finding chat:', error.message);
+    return null;
   }
+  if (data) chatRowIds.set(otherUserId, data.id);
+  return data?.id ?? null;
 }
 
-async function writeJson<T>(key: string, value: T) {
-  await AsyncStorage.setItem(key, JSON.stringify(value));
-}
-
-// Bot auto-replies for simulation
-const BOT_REPLIES: Record<string, string[]> = {
-  aisuluu: [
-    'Привет! Как дела? 👋',
-    'О, приятно познакомиться!',
-    'Давай как-нибудь встретимся на кофе ☕',
-    'Что нового?',
-    'Звучит интересно! Расскажи больше',
-  ],
-  timur: [
-    'Йо! Что делаешь?',
-    'Давай пересечемся на выходных',
-    'Слышал про новый стартап? 🚀',
-    'Как там твой проект?',
-    'Я сейчас в Sierra, приходи!',
-  ],
-  jibek: [
-    'Привет! 😊',
-    'Классная идея!',
-    'Давай на хайкинг в выходные?',
-    'Как настроение?',
-    'Отличная погода сегодня, не думаешь?',
-  ],
-  max: [
-    'Hey! What\'s up?',
-    'Sounds good to me!',
-    'Let\'s grab coffee sometime',
-    'Working on something cool, will share soon',
-    'Check out this article I found',
-  ],
-  aida: [
-    'Hi there!',
-    'Let\'s practice English together! 🗣️',
-    'Have you been to Ala-Archa?',
-    'I love that place too!',
-    'Nice to meet you!',
-  ],
-};
+async function ensureChatRow(otherUserId: string): Promise<SupabaseDMChat> {
+  const me = await getMyUserId();
+  const pair = orderedPair(me, otherUserId);
 
-function getRandomReply(userName: string): string {
-  const nameLower = userName.toLowerCase();
-  const replies = BOT_REPLIES[nameLower] || [
-    'Привет!',
-    'Как дела?',
-    'Интересно!',
-    '👍',
-    'Давай пообщаемся!',
-  ];
-  return replies[Math.floor(Math.random() * replies.length)];
+  const { error: upsertError } = await supabase
+    .from('dm_chats')
+    .upsert(pair, { onConflict: 'user_a,user_b', ignoreDuplicates: true });
+  if (upsertError) {
+    console.error('[DMs] Error creating chat:', upsertError.message);
+    throw upsertError;
+  }
+
+  const { data, error } = await supabase
+    .from('dm_chats')
+    .select('id, user_a, user_b, last_message, updated_at')
+    .eq('user_a', pair.user_a)
+    .eq('user_b', pair.user_b)
+    .single();
+  if (error || !data) {
+    console.error('[DMs] Error loading chat:', error?.message);
+    throw error ?? new Error('Chat not found');
+  }
+
+  chatRowIds.set(otherUserId, data.id);
+  return data as SupabaseDMChat;
 }
 
 /**
@@ -103,134 +178,314 @@ export async function getOrCreateDMChat(
   userAvatar: string | null,
   userVibe: string | null
 ): Promise<DMChat> {
-  const chats = await readJson<DMChat[]>(DMS_KEY, []);
-  let chat = chats.find((c) => c.id === userId);
-
-  if (!chat) {
-    chat = {
-      id: userId,
-      userName,
-      userAvatar,
-      userVibe,
-      lastMessage: '',
-      updatedAt: new Date().toISOString(),
-    };
-    chats.push(chat);
-    await writeJson(DMS_KEY, chats);
-  } else {
-    // Update user info if changed
-    chat.userName = userName;
-    chat.userAvatar = userAvatar;
-    chat.userVibe = userVibe;
-    await writeJson(DMS_KEY, chats);
-  }
-
-  return chat;
+  const row = await ensureChatRow(userId);
+  return {
+    id: userId,
+    userName,
+    userAvatar,
+    userVibe,
+    lastMessage: row.last_message ? preview(row.last_message) : '',
+    updatedAt: row.updated_at,
+  };
 }
 
 /**
  * Get a DM chat by user ID
  */
 export async function getDMChat(userId: string): Promise<DMChat | null> {
-  const chats = await readJson<DMChat[]>(DMS_KEY, []);
-  return chats.find((c) => c.id === userId) || null;
+  const rowId = await findChatRowId(userId);
+  if (!rowId) return null;
+
+  const [{ data: chat }, { data: profile }] = await Promise.all([
+    supabase.from('dm_chats').select('last_message, updated_at').eq('id', rowId).single(),
+    supabase.from('profiles').select('name, avatar_url, vibe').eq('id', userId).maybeSingle(),
+  ]);
+  if (!chat) return null;
+
+  return {
+    id: userId,
+    userName: profile?.name || 'User',
+    userAvatar: profile?.avatar_url ?? null,
+    userVibe: profile?.vibe ?? null,
+    lastMessage: chat.last_message ? preview(chat.last_message) : '',
+    updatedAt: chat.updated_at,
+  };
 }
 
 /**
- * List all DM chats sorted by last update
+ * List all DM chats sorted by last update (the cached list when offline)
  */
 export async function listDMChats(): Promise<DMChat[]> {
-  const chats = await readJson<DMChat[]>(DMS_KEY, []);
-  return chats
-    .filter((c) => c.lastMessage) // Only show chats with messages
-    .sort((a, b) => (a.updatedAt > b.updatedAt ? -1 : 1));
+  try {
+    const me = await getMyUserId();
+    const { data, error } = await supabase
+      .from('dm_chats')
+      .select(`
+        id,
+        user_a,
+        user_b,
+        last_message,
+        updated_at,
+        a:profiles!dm_chats_user_a_fkey (id, name, avatar_url, vibe),
+        b:profiles!dm_chats_user_b_fkey (id, name, avatar_url, vibe)
+      `)
+      .or(`user_a.eq.${me},user_b.eq.${me}`)
+      .not('last_message', 'is', null) // Only show chats with messages
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('[DMs] Error listing chats:', error.message);
+      if (!isNetworkError(error)) return [];
+      return (await loadFromCache<DMChat[]>('dm-chats')) ?? [];
+    }
+
+    const chats = ((data || []) as unknown as SupabaseDMChat[]).map((row) => {
+      const otherId = row.user_a === me ? row.user_b : row.user_a;
+      const other = row.user_a === me ? row.b : row.a;
+      chatRowIds.set(otherId, row.id);
+      return {
+        id: otherId,
+        userName: other?.name || 'User',
+        userAvatar: other?.avatar_url ?? null,
+        userVibe: other?.vibe ?? null,
+        lastMessage: preview(row.last_message ?? ''),
+        updatedAt: row.updated_at,
+      };
+    });
+    void saveToCache('dm-chats', chats);
+    return chats;
+  } catch (e) {
+    console.error('[DMs] Unexpected error:', e);
+    if (!isNetworkError(e)) return [];
+    return (await loadFromCache<DMChat[]>('dm-chats')) ?? [];
+  }
 }
 
 /**
- * Get messages for a DM chat
+ * Get messages for a DM chat. The latest messages are cached and returned when offline.
  */
 export async function getDMMessages(chatId: string): Promise<DMMessage[]> {
-  const all = await readJson<DMMessage[]>(DM_MESSAGES_KEY, []);
-  return all
-    .filter((m) => m.chatId === chatId)
-    .sort((a, b) => (a.created_at > b.created_at ? 1 : -1));
+  const cacheKey = `dm:${chatId}`;
+  try {
+    const rowId = await findChatRowId(chatId);
+    if (!rowId) return (await loadFromCache<DMMessage[]>(cacheKey)) ?? [];
+
+    const { data, error } = await supabase
+      .from('dm_messages')
+      .select(MESSAGE_SELECT)
+      .eq('chat_id', rowId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[DMs] Error listing messages:', error.message);
+      if (!isNetworkError(error)) return [];
+      return (await loadFromCache<DMMessage[]>(cacheKey)) ?? [];
+    }
+    const messages = ((data || []) as unknown as SupabaseDMMessage[]).map((row) => mapToDMMessage(row, chatId));
+    void saveToCache(cacheKey, messages.slice(-CACHED_DM_MESSAGES));
+    return messages;
+  } catch (e) {
+    console.error('[DMs] Unexpected error:', e);
+    if (!isNetworkError(e)) return [];
+    return (await loadFromCache<DMMessage[]>(cacheKey)) ?? [];
+  }
 }
 
 /**
- * Send a message in a DM chat
- * @param simulateReply - if true, will simulate a bot reply after 2-4 seconds
+ * Send a message in a DM chat: plain text, or a MessageInput for images/locations
+ * @param simulateReply - ignored; demo bot replies were removed when DMs moved to Supabase
  */
 export async function sendDMMessage(
   chatId: string,
-  body: string,
+  body: string | MessageInput,
   myUserId: string,
   myProfile: { name: string; avatar_url: string | null; vibe: string | null },
   simulateReply: boolean = true
 ): Promise<DMMessage> {
-  const now = new Date().toISOString();
-
-  // Create the message
-  const msg: DMMessage = {
-    id: randomId(),
-    chatId,
-    senderId: myUserId,
-    body,
-    created_at: now,
+  const rowId = (await findChatRowId(chatId)) ?? (await ensureChatRow(chatId)).id;
+  const input: MessageInput = typeof body === 'string' ? { body } : body;
+
+  const { data, error } = await supabase
+    .from('dm_messages')
+    .insert({
+      ...(input.id ? { id: input.id } : {}),
+      chat_id: rowId,
+      sender_id: myUserId,
+      kind: input.kind ?? 'text',
+      content: input.body,
+      attachments: input.attachments ?? [],
+    })
+    .select('id, chat_id, sender_id, kind, content, attachments, created_at')
+    .single();
+
+  if (error || !data) {
+    console.error('[DMs] Error sending message:', error?.message);
+    throw error ?? new Error('Message not sent');
+  }
+
+  return {
+    ...mapToDMMessage(data as SupabaseDMMessage, chatId),
     author: myProfile,
   };
+}
+
+/**
+ * Resolve the dm_chats row for `chatId`, then open a realtime channel on it.
+ * Returns an unsubscribe function that also works before the channel is ready.
+ */
+function subscribeOnChatRow(
+  chatId: string,
+  open: (rowId: string, isClosed: () => boolean) => RealtimeChannel
+): () => void {
+  let channel: RealtimeChannel | null = null;
+  let closed = false;
+
+  findChatRowId(chatId)
+    .then((rowId) => rowId ?? ensureChatRow(chatId).then((row) => row.id))
+    .then((rowId) => {
+      if (!closed) channel = open(rowId, () => closed);
+    })
+    .catch((e) => console.error('[DMs] Error subscribing:', e));
+
+  return () => {
+    closed = true;
+    if (channel) void supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Realtime: call onMessage for every new message in the chat (both directions).
+ * Returns an unsubscribe function.
+ */
+export function subscribeToDMMessages(chatId: string, onMessage: (msg: DMMessage) => void): () => void {
+  return subscribeOnChatRow(chatId, (rowId, isClosed) =>
+    supabase
+      .channel(`dm:${rowId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'dm_messages', filter: `chat_id=eq.${rowId}` },
+        async (payload) => {
+          // The payload has no author profile; fetch the joined row
+          const { data } = await supabase
+            .from('dm_messages')
+            .select(MESSAGE_SELECT)
+            .eq('id', (payload.new as SupabaseDMMessage).id)
+            .single();
+          if (data && !isClosed()) onMessage(mapToDMMessage(data as unknown as SupabaseDMMessage, chatId));
+        }
+      )
+      .subscribe()
+  );
+}
+
+/**
+ * Move my read cursor for the chat to now (stamped by the server, see chat_read_cursors.sql).
+ */
+export async function markDMRead(chatId: string): Promise<void> {
+  const rowId = await findChatRowId(chatId);
+  if (!rowId) return;
+  const me = await getMyUserId();
 
-  // Save the message
-  const allMessages = await readJson<DMMessage[]>(DM_MESSAGES_KEY, []);
-  allMessages.push(msg);
-  await writeJson(DM_MESSAGES_KEY, allMessages);
-
-  // Update the chat's last message
-  const chats = await readJson<DMChat[]>(DMS_KEY, []);
-  const chatIndex = chats.findIndex((c) => c.id === chatId);
-  if (chatIndex !== -1) {
-    chats[chatIndex].lastMessage = body.length > 50 ? body.substring(0, 50) + '...' : body;
-    chats[chatIndex].updatedAt = now;
-    await writeJson(DMS_KEY, chats);
+  const { error } = await supabase
+    .from('dm_chat_reads')
+    .upsert({ chat_id: rowId, user_id: me }, { onConflict: 'chat_id,user_id' });
+  if (error) {
+    console.error('[DMs] Error marking chat read:', error.message);
   }
+}
+
+/**
+ * When the other member last read the chat; my messages up to this time are "seen".
+ */
+export async function getDMSeenAt(chatId: string): Promise<string | null> {
+  const rowId = await findChatRowId(chatId);
+  if (!rowId) return null;
+
+  const { data, error } = await supabase
+    .from('dm_chat_reads')
+    .select('last_read_at')
+    .eq('chat_id', rowId)
+    .eq('user_id', chatId)
+    .maybeSingle();
+  if (error) {
+    console.error('[DMs] Error loading read cursor:', error.message);
+    return null;
+  }
+  return data?.last_read_at ?? null;
+}
+
+/**
+ * Realtime: the other member's read cursor moved. Returns an unsubscribe function.
+ */
+export function subscribeToDMSeen(chatId: string, onSeen: (lastReadAt: string) => void): () => void {
+  return subscribeOnChatRow(chatId, (rowId) =>
+    supabase
+      .channel(`dm-reads:${rowId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'dm_chat_reads', filter: `chat_id=eq.${rowId}` },
+        (payload) => {
+          const row = payload.new as { user_id?: string; last_read_at?: string };
+          if (row.user_id === chatId && row.last_read_at) onSeen(row.last_read_at);
+        }
+      )
+      .subscribe()
+  );
+}
+
+/**
+ * One-time upload of DM history kept in AsyncStorage before DMs moved to Supabase.
+ * Only my own messages to real users are uploaded: everything the other side "sent"
+ * locally was a simulated bot reply. Local keys are removed once every chat is done.
+ */
+export async function migrateLocalDMs(): Promise<void> {
+  try {
+    const [rawChats, rawMessages, rawMigrated] = await Promise.all([
+      AsyncStorage.getItem(LEGACY_DMS_KEY),
+      AsyncStorage.getItem(LEGACY_DM_MESSAGES_KEY),
+      AsyncStorage.getItem(MIGRATED_KEY),
+    ]);
+    if (!rawChats && !rawMessages) return;
+
+    const me = await getMyUserId();
+    const chats = rawChats ? (JSON.parse(rawChats) as DMChat[]) : [];
+    const messages = rawMessages ? (JSON.parse(rawMessages) as DMMessage[]) : [];
+    const migrated = new Set<string>(rawMigrated ? (JSON.parse(rawMigrated) as string[]) : []);
+    let failed = false;
 
-  // Simulate bot reply for demo users
-  if (simulateReply) {
-    const chat = chats[chatIndex];
-    if (chat) {
-      const demoNames = ['aisuluu', 'timur', 'jibek', 'max', 'aida'];
-      if (demoNames.includes(chat.userName.toLowerCase())) {
-        // Simulate reply after 2-4 seconds
-        setTimeout(async () => {
-          const replyBody = getRandomReply(chat.userName);
-          const replyMsg: DMMessage = {
-            id: randomId(),
-            chatId,
-            senderId: chatId, // The other user is sending
-            body: replyBody,
-            created_at: new Date().toISOString(),
-            author: {
-              name: chat.userName,
-              avatar_url: chat.userAvatar,
-              vibe: chat.userVibe,
-            },
-          };
-
-          const messages = await readJson<DMMessage[]>(DM_MESSAGES_KEY, []);
-          messages.push(replyMsg);
-          await writeJson(DM_MESSAGES_KEY, messages);
-
-          // Update chat
-          const updatedChats = await readJson<DMChat[]>(DMS_KEY, []);
-          const idx = updatedChats.findIndex((c) => c.id === chatId);
-          if (idx !== -1) {
-            updatedChats[idx].lastMessage = replyBody.length > 50 ? replyBody.substring(0, 50) + '...' : replyBody;
-            updatedChats[idx].updatedAt = new Date().toISOString();
-            await writeJson(DMS_KEY, updatedChats);
+    for (const chat of chats) {
+      if (migrated.has(chat.id)) continue;
+      const mine = messages
+        .filter((m) => m.chatId === chat.id && m.senderId === me)
+        .sort((a, b) => (a.created_at > b.created_at ? 1 : -1));
+
+      // Demo users ("aisuluu", "timur", ...) have no real profile id
+      if (UUID_RE.test(chat.id) && chat.id !== me && mine.length > 0) {
+        try {
+          const row = await ensureChatRow(chat.id);
+          const { error } = await supabase.from('dm_messages').insert(
+            mine.map((m) => ({ chat_id: row.id, sender_id: me, content: m.body, created_at: m.created_at }))
+          );
+          if (error) throw error;
+        } catch (e) {
+          // 23503: the other profile no longer exists, nothing to migrate to
+          if ((e as { code?: string }).code !== '23503') {
+            console.error('[DMs] Error migrating chat:', chat.id, e);
+            failed = true;
+            continue;
           }
-        }, 2000 + Math.random() * 2000);
+        }
       }
+
+      migrated.add(chat.id);
+      await AsyncStorage.setItem(MIGRATED_KEY, JSON.stringify([...migrated]));
     }
-  }
 
-  return msg;
+    // Retry the failed chats on next launch
+    if (!failed) {
+      await AsyncStorage.multiRemove([LEGACY_DMS_KEY, LEGACY_DM_MESSAGES_KEY, MIGRATED_KEY]);
+    }
+  } catch (e) {
+    console.error('[DMs] Migration error:', e);
+  }
 }
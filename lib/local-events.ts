@@ -1,3 +1,11 @@
+import { getAttendanceStats, type AttendanceStats } from './attendance';
+import { DEFAULT_CHECK_IN_RADIUS_M } from './event-checkins';
+import { buildOccurrences, type RecurrenceRule } from './event-recurrence';
+import { getEventDurationMinutes, getEventStart, isEventEnded } from './event-schedule';
+import type { EventVisibility } from './event-visibility';
+import { distanceKm } from './location';
+import { toMessageContent, type MessageAttachment, type MessageInput, type MessageKind } from './message-content';
+import { isNetworkError, loadFromCache, peekCache, saveToCache } from './offline-cache';
 import { supabase } from './supabase';
 
 export type LocalEvent = {
@@ -10,12 +18,32 @@ export type LocalEvent = {
   emoji: string;
   place_name: string;
   place_category: string | null;
-  creator_id: string;
+  /** Null once the creator deleted their account */
+  creator_id: string | null;
   /** If false, join requests require creator approval */
   auto_accept: boolean;
+  /** Approved participants cap; null = unlimited. Extra joins go to the waitlist */
+  max_participants: number | null;
+  /** Who can see the event (enforced by RLS) */
+  visibility: EventVisibility;
+  /** Set when the creator cancelled the event; it stays visible to guests, read-only */
+  cancelled_at: string | null;
+  cancel_reason: string | null;
+  /** Check-in geofence around the meeting point, meters (see lib/event-checkins.ts) */
+  checkin_radius_m: number;
+  /** Scheduled start (ISO). Null for legacy events created before scheduling existed */
+  start_time: string | null;
+  /** Scheduled end (ISO). Null means start + default duration, see lib/event-schedule.ts */
+  end_time: string | null;
   created_at: string;
   /** Cover image URL (Supabase Storage event-images or any URL) */
   cover_image_url?: string | null;
+  /** Small variant of the cover for list rows; null for covers uploaded before thumbnails */
+  cover_thumbnail_url?: string | null;
+  /** Recurring series this occurrence belongs to (null for one-off events) */
+  series_id: string | null;
+  /** Loaded by getEventById only */
+  series?: EventSeries | null;
   creator?: {
     name: string;
     avatar_url: string | null;
@@ -23,13 +51,42 @@ export type LocalEvent = {
   };
 };
 
-export type ParticipantStatus = 'pending' | 'approved' | 'rejected';
+export type ParticipantStatus = 'pending' | 'approved' | 'rejected' | 'waitlisted';
+
+/** Co-hosts approve joins, edit the event and moderate chat alongside the creator */
+export type ParticipantRole = 'guest' | 'cohost';
+
+export type EventParticipant = {
+  id: string;
+  name: string;
+  avatar_url: string | null;
+  vibe: string | null;
+  status: ParticipantStatus;
+  /** 1-based place in the waitlist; null unless status is 'waitlisted' */
+  waitlist_position: number | null;
+  role: ParticipantRole;
+  /** Attendance history, loaded for pending requests so hosts can judge them */
+  stats?: AttendanceStats;
+};
+
+export type EventSeries = {
+  id: string;
+  rule: RecurrenceRule;
+  /** If true, all occurrences read and write one chat history */
+  shared_chat: boolean;
+};
+
+/** Which occurrences an edit applies to */
+export type SeriesEditScope = 'this' | 'future';
 
 export type LocalMessage = {
   id: string;
   event_id: string;
   user_id: string;
+  kind: MessageKind;
+  /** Text, or the caption of an image */
   body: string;
+  attachments: MessageAttachment[];
   created_at: string;
   author: {
     name: string;
@@ -47,16 +104,32 @@ type SupabaseEvent = {
   lng: number | null;
   place_name: string | null;
   emoji: string;
-  creator_id: string;
+  creator_id: string | null;
   auto_accept?: boolean;
+  max_participants?: number | null;
+  visibility?: EventVisibility;
+  cancelled_at?: string | null;
+  cancel_reason?: string | null;
+  checkin_radius_m?: number;
   created_at: string;
   start_time: string | null;
+  end_time?: string | null;
   cover_image_url?: string | null;
+  cover_thumbnail_url?: string | null;
+  series_id?: string | null;
   profiles?: {
     name: string | null;
     avatar_url: string | null;
     vibe: string | null;
   };
+  series?: {
+    id: string;
+    freq: RecurrenceRule['freq'];
+    interval: number;
+    until: string | null;
+    count: number | null;
+    shared_chat: boolean;
+  } | null;
 };
 
 // Type for Supabase message row
@@ -65,6 +138,8 @@ type SupabaseMessage = {
   event_id: string;
   user_id: string;
   content: string;
+  kind?: string | null;
+  attachments?: MessageAttachment[] | null;
   created_at: string;
   profiles?: {
     name: string | null;
@@ -73,6 +148,23 @@ type SupabaseMessage = {
   };
 };
 
+/**
+ * True when an RPC failed because the SQL function hasn't been created yet
+ * (migration not applied), so callers can fall back to plain table access.
+ */
+function isMissingFunctionError(error: { code?: string; message?: string }): boolean {
+  return (
+    error.code === '42883' ||
+    (typeof error.message === 'string' &&
+      (error.message.includes('does not exist') || error.message.includes('Could not find the function') || error.message.includes('schema cache')))
+  );
+}
+
+/** Raised by the enforce_event_capacity trigger when approving past max_participants */
+function isEventFullError(error: { message?: string }): boolean {
+  return typeof error.message === 'string' && error.message.includes('event_full');
+}
+
 /**
  * Map Supabase event to LocalEvent format
  */
@@ -89,8 +181,27 @@ function mapToLocalEvent(row: SupabaseEvent): LocalEvent {
     place_category: null,
     creator_id: row.creator_id,
     auto_accept: row.auto_accept !== false, // default true for backward compat
+    max_participants: row.max_participants ?? null,
+    visibility: row.visibility ?? 'public',
+    cancelled_at: row.cancelled_at ?? null,
+    cancel_reason: row.cancel_reason ?? null,
+    checkin_radius_m: row.checkin_radius_m ?? DEFAULT_CHECK_IN_RADIUS_M,
+    start_time: row.start_time ?? null,
+    end_time: row.end_time ?? null,
     created_at: row.created_at,
     cover_image_url: row.cover_image_url ?? null,
+    cover_thumbnail_url: row.cover_thumbnail_url ?? null,
+    series_id: row.series_id ?? null,
+    series: row.series ? {
+      id: row.series.id,
+      rule: {
+        freq: row.series.freq,
+        interval: row.series.interval,
+        until: row.series.until,
+        count: row.series.count,
+      },
+      shared_chat: row.series.shared_chat,
+    } : null,
     creator: row.profiles ? {
       name: row.profiles.name || 'User',
       avatar_url: row.profiles.avatar_url,
@@ -107,7 +218,7 @@ function mapToLocalMessage(row: SupabaseMessage): LocalMessage {
     id: row.id,
     event_id: row.event_id,
     user_id: row.user_id,
-    body: row.content,
+    ...toMessageContent(row),
     created_at: row.created_at,
     author: {
       name: row.profiles?.name || 'Guest',
@@ -118,10 +229,216 @@ function mapToLocalMessage(row: SupabaseMessage): LocalMessage {
 }
 
 /**
- * List all events from Supabase
+ * Turn free text into a prefix tsquery: "вин бар" -> "вин:* & бар:*".
+ * Returns null if nothing searchable is left.
+ */
+function toPrefixTsQuery(text: string): string | null {
+  const words = text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((w) => w.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean);
+  return words.length ? words.map((w) => `${w}:*`).join(' & ') : null;
+}
+
+/** Cache key of the unfiltered event list */
+function eventsCacheKey(includeEnded?: boolean): string {
+  return includeEnded ? 'events:all' : 'events:upcoming';
+}
+
+/**
+ * Last cached event list, for when the server can't be reached (searched on the client).
+ */
+async function cachedEvents(options: { includeEnded?: boolean; search?: string }): Promise<LocalEvent[]> {
+  const events = (await loadFromCache<LocalEvent[]>(eventsCacheKey(options.includeEnded))) ?? [];
+  const search = options.search;
+  return (search ? events.filter((e) => matchesEventText(e, search)) : events).filter(
+    (e) => options.includeEnded || !isEventEnded(e)
+  );
+}
+
+/**
+ * List events from Supabase. Cancelled events are skipped; ended events (end_time
+ * in the past) too, unless includeEnded is set. `search` runs full-text search over title,
+ * description and place name (events.search_vector, see add_events_search.sql).
+ * Unsearched results are cached; without a connection the cached list is returned.
+ */
+export async function listEvents(options: { includeEnded?: boolean; search?: string } = {}): Promise<LocalEvent[]> {
+  try {
+    const tsQuery = options.search ? toPrefixTsQuery(options.search) : null;
+
+    const buildQuery = (useFullText: boolean) => {
+      let query = supabase
+        .from('events')
+        .select(`
+          *,
+          profiles:creator_id (
+            name,
+            avatar_url,
+            vibe
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (!options.includeEnded) {
+        // Rows without end_time are legacy events; they're checked on the client below
+        query = query.or(`end_time.gte.${new Date().toISOString()},end_time.is.null`);
+      }
+      if (tsQuery && useFullText) {
+        query = query.textSearch('search_vector', tsQuery, { config: 'simple' });
+      }
+      return query;
+    };
+
+    let { data, error } = await buildQuery(true);
+
+    // search_vector column not created yet: search on the client instead
+    if (error && tsQuery && error.message?.includes('search_vector')) {
+      ({ data, error } = await buildQuery(false));
+      if (!error && options.search) {
+        const needle = options.search;
+        data = (data || []).filter((row: SupabaseEvent) => matchesEventText(mapToLocalEvent(row), needle));
+      }
+    }
+
+    if (error) {
+      console.error('[Events] Error listing events:', error.message);
+      return isNetworkError(error) ? cachedEvents(options) : [];
+    }
+
+    const events = (data || []).map(mapToLocalEvent).filter((e) => !e.cancelled_at);
+    const visible = options.includeEnded ? events : events.filter((e) => !isEventEnded(e));
+    if (!options.search) void saveToCache(eventsCacheKey(options.includeEnded), visible);
+    return visible;
+  } catch (e) {
+    console.error('[Events] Unexpected error:', e);
+    return isNetworkError(e) ? cachedEvents(options) : [];
+  }
+}
+
+/**
+ * Client-side equivalent of the full-text search: every word must be a prefix
+ * of some word in the title, description or place name.
+ */
+export function matchesEventText(event: LocalEvent, text: string): boolean {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return true;
+  const haystack = `${event.title} ${event.description ?? ''} ${event.place_name ?? ''}`.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+  return words.every((w) => {
+    const needle = w.replace(/[^\p{L}\p{N}]/gu, '');
+    return !needle || haystack.some((h) => h.startsWith(needle));
+  });
+}
+
+/** Map area to query: the visible viewport or a circle around a point. Positions are [lng, lat] like Mapbox. */
+export type EventArea =
+  | { kind: 'bounds'; ne: [number, number]; sw: [number, number] }
+  | { kind: 'radius'; center: [number, number]; radiusKm: number };
+
+export const EVENTS_PAGE_SIZE = 100;
+
+function isInArea(event: LocalEvent, area: EventArea): boolean {
+  if (event.meeting_lat == null || event.meeting_lng == null) return false;
+  if (area.kind === 'bounds') {
+    const [east, north] = area.ne;
+    const [west, south] = area.sw;
+    return event.meeting_lat >= south && event.meeting_lat <= north && event.meeting_lng >= west && event.meeting_lng <= east;
+  }
+  const [lng, lat] = area.center;
+  return distanceKm(lat, lng, event.meeting_lat, event.meeting_lng) <= area.radiusKm;
+}
+
+/**
+ * Cached events inside `area`: the last map fetch plus the cached event list.
  */
-export async function listEvents(): Promise<LocalEvent[]> {
+async function cachedEventsInArea(area: EventArea, page: number): Promise<{ events: LocalEvent[]; hasMore: boolean }> {
+  if (page > 0) return { events: [], hasMore: false };
+  const [lastArea, upcoming] = await Promise.all([
+    loadFromCache<LocalEvent[]>('events:area'),
+    loadFromCache<LocalEvent[]>(eventsCacheKey(false)),
+  ]);
+  const byId = new Map([...(upcoming ?? []), ...(lastArea ?? [])].map((e) => [e.id, e]));
+  return { events: [...byId.values()].filter((e) => !isEventEnded(e) && isInArea(e, area)), hasMore: false };
+}
+
+/**
+ * Upcoming/live events with a meeting point inside `area`, one page at a time.
+ * Uses the events_in_bounds / events_within_radius RPCs (PostGIS); if they're missing
+ * (add_events_geo.sql not applied) falls back to listEvents() filtered on the client.
+ * Offline, returns cached events inside the area.
+ */
+export async function listEventsInArea(
+  area: EventArea,
+  page = 0,
+  pageSize = EVENTS_PAGE_SIZE
+): Promise<{ events: LocalEvent[]; hasMore: boolean }> {
+  const paging = { p_limit: pageSize, p_offset: page * pageSize };
+  const query =
+    area.kind === 'bounds'
+      ? supabase.rpc('events_in_bounds', {
+          p_min_lat: area.sw[1],
+          p_min_lng: area.sw[0],
+          p_max_lat: area.ne[1],
+          p_max_lng: area.ne[0],
+          ...paging,
+        })
+      : supabase.rpc('events_within_radius', {
+          p_lat: area.center[1],
+          p_lng: area.center[0],
+          p_radius_km: area.radiusKm,
+          ...paging,
+        });
+
   try {
+    const { data, error } = await query.select(`
+      *,
+      profiles:creator_id (
+        name,
+        avatar_url,
+        vibe
+      )
+    `);
+
+    if (error) {
+      if (isMissingFunctionError(error)) {
+        const all = await listEvents();
+        return { events: page === 0 ? all.filter((e) => isInArea(e, area)) : [], hasMore: false };
+      }
+      console.error('[Events] Error listing events in area:', error.message);
+      return isNetworkError(error) ? cachedEventsInArea(area, page) : { events: [], hasMore: false };
+    }
+
+    const rows = (data || []) as SupabaseEvent[];
+    const events = rows.map(mapToLocalEvent).filter((e) => !isEventEnded(e) && !e.cancelled_at);
+    if (page === 0) void saveToCache('events:area', events);
+    return { events, hasMore: rows.length === pageSize };
+  } catch (e) {
+    console.error('[Events] Unexpected error:', e);
+    return isNetworkError(e) ? cachedEventsInArea(area, page) : { events: [], hasMore: false };
+  }
+}
+
+/**
+ * Ended events the user created or was approved for, most recent first.
+ * Used by the "Past events" section on the profile screen.
+ */
+export async function listPastEventsForUser(userId: string): Promise<LocalEvent[]> {
+  try {
+    const { data: joined, error: joinedError } = await supabase
+      .from('event_participants')
+      .select('event_id')
+      .eq('user_id', userId)
+      .eq('status', 'approved');
+
+    if (joinedError) {
+      console.error('[Events] Error listing joined events:', joinedError.message);
+    }
+
+    const joinedIds = (joined || []).map((row: { event_id: string }) => row.event_id);
+    const ownerFilter = joinedIds.length
+      ? `creator_id.eq.${userId},id.in.(${joinedIds.join(',')})`
+      : `creator_id.eq.${userId}`;
+
     const { data, error } = await supabase
       .from('events')
       .select(`
@@ -132,10 +449,13 @@ export async function listEvents(): Promise<LocalEvent[]> {
           vibe
         )
       `)
-      .order('created_at', { ascending: false });
+      .or(ownerFilter)
+      .lt('end_time', new Date().toISOString())
+      .order('end_time', { ascending: false })
+      .limit(50);
 
     if (error) {
-      console.error('[Events] Error listing events:', error.message);
+      console.error('[Events] Error listing past events:', error.message);
       return [];
     }
 
@@ -146,10 +466,7 @@ export async function listEvents(): Promise<LocalEvent[]> {
   }
 }
 
-/**
- * Create a new event in Supabase
- */
-export async function createEvent(input: {
+export type CreateEventInput = {
   title: string;
   description: string | null;
   meeting_place: string | null;
@@ -161,8 +478,15 @@ export async function createEvent(input: {
   creator_id: string;
   /** If false, join requests require creator approval (face control) */
   auto_accept?: boolean;
-}): Promise<LocalEvent> {
-  const payload = {
+  max_participants?: number | null;
+  visibility?: EventVisibility;
+  checkin_radius_m?: number;
+  start_time?: string | null;
+  end_time?: string | null;
+};
+
+function toEventPayload(input: CreateEventInput) {
+  return {
     title: input.title,
     description: input.description,
     place_name: input.place_name || input.meeting_place,
@@ -171,7 +495,21 @@ export async function createEvent(input: {
     emoji: input.emoji || '📍',
     creator_id: input.creator_id,
     auto_accept: input.auto_accept !== false,
+    ...(input.max_participants ? { max_participants: input.max_participants } : {}),
+    ...(input.visibility && input.visibility !== 'public' ? { visibility: input.visibility } : {}),
+    ...(input.checkin_radius_m && input.checkin_radius_m !== DEFAULT_CHECK_IN_RADIUS_M
+      ? { checkin_radius_m: input.checkin_radius_m }
+      : {}),
+    start_time: input.start_time ?? null,
+    end_time: input.end_time ?? null,
   };
+}
+
+/**
+ * Create a new event in Supabase
+ */
+export async function createEvent(input: CreateEventInput): Promise<LocalEvent> {
+  const payload = toEventPayload(input);
 
   let result = await supabase
     .from('events')
@@ -204,16 +542,79 @@ export async function createEvent(input: {
 }
 
 /**
- * Update event (title, description, cover_image_url). Creator only.
+ * Create a recurring event: one event_series row plus one events row per occurrence,
+ * each with its own participant list. Returns the first occurrence.
+ */
+export async function createEventSeries(
+  input: CreateEventInput & { start_time: string; end_time: string },
+  rule: RecurrenceRule,
+  options: { shared_chat: boolean }
+): Promise<LocalEvent> {
+  const { data: series, error: seriesError } = await supabase
+    .from('event_series')
+    .insert({
+      creator_id: input.creator_id,
+      freq: rule.freq,
+      interval: rule.interval,
+      until: rule.until,
+      count: rule.count,
+      shared_chat: options.shared_chat,
+    })
+    .select('id')
+    .single();
+
+  if (seriesError) {
+    console.error('[Events] Error creating series:', seriesError.message);
+    throw seriesError;
+  }
+
+  const start = new Date(input.start_time);
+  const durationMin = Math.round((new Date(input.end_time).getTime() - start.getTime()) / 60000);
+  const base = toEventPayload(input);
+  const rows = buildOccurrences(start, durationMin, rule).map((occ, index) => ({
+    ...base,
+    start_time: occ.start.toISOString(),
+    end_time: occ.end.toISOString(),
+    series_id: series.id,
+    series_index: index,
+  }));
+
+  const { data, error } = await supabase
+    .from('events')
+    .insert(rows)
+    .select()
+    .order('start_time', { ascending: true });
+
+  if (error || !data?.length) {
+    console.error('[Events] Error creating series occurrences:', error?.message);
+    await supabase.from('event_series').delete().eq('id', series.id);
+    throw error ?? new Error('Не удалось создать повторяющийся ивент');
+  }
+
+  return mapToLocalEvent(data[0]);
+}
+
+/**
+ * Update event (title, description, cover and its thumbnail, schedule). Hosts only (creator and co-hosts).
  */
 export async function updateEvent(
   eventId: string,
-  updates: { title?: string; description?: string | null; cover_image_url?: string | null }
+  updates: {
+    title?: string;
+    description?: string | null;
+    cover_image_url?: string | null;
+    cover_thumbnail_url?: string | null;
+    start_time?: string | null;
+    end_time?: string | null;
+  }
 ): Promise<LocalEvent | null> {
   const payload: Record<string, unknown> = {};
   if (updates.title !== undefined) payload.title = updates.title;
   if (updates.description !== undefined) payload.description = updates.description;
   if (updates.cover_image_url !== undefined) payload.cover_image_url = updates.cover_image_url;
+  if (updates.cover_thumbnail_url !== undefined) payload.cover_thumbnail_url = updates.cover_thumbnail_url;
+  if (updates.start_time !== undefined) payload.start_time = updates.start_time;
+  if (updates.end_time !== undefined) payload.end_time = updates.end_time;
 
   if (Object.keys(payload).length === 0) return getEventById(eventId);
 
@@ -222,6 +623,9 @@ export async function updateEvent(
     p_title: updates.title,
     p_description: updates.description ?? null,
     p_cover_image_url: updates.cover_image_url ?? null,
+    p_cover_thumbnail_url: updates.cover_thumbnail_url ?? null,
+    p_start_time: updates.start_time ?? null,
+    p_end_time: updates.end_time ?? null,
   });
 
   if (!rpcError) {
@@ -231,12 +635,7 @@ export async function updateEvent(
     throw new Error(msg);
   }
 
-  const isMissingFunction =
-    rpcError.code === '42883' ||
-    (typeof rpcError.message === 'string' &&
-      (rpcError.message.includes('does not exist') || rpcError.message.includes('Could not find the function') || rpcError.message.includes('schema cache')));
-
-  if (isMissingFunction) {
+  if (isMissingFunctionError(rpcError)) {
     const { data, error } = await supabase.from('events').update(payload).eq('id', eventId).select('id');
     if (error) {
       console.error('[Events] Error updating event:', error.message);
@@ -250,11 +649,12 @@ export async function updateEvent(
   }
 
   console.error('[Events] Error updating event:', rpcError.message);
+  if (rpcError.message?.includes('event_cancelled')) throw new Error('Ивент отменён, его нельзя изменить');
   throw rpcError;
 }
 
 /**
- * Get event by ID from Supabase
+ * Get event by ID from Supabase (with its recurring series, if any)
  */
 export async function getEventById(id: string): Promise<LocalEvent | null> {
   try {
@@ -266,6 +666,14 @@ export async function getEventById(id: string): Promise<LocalEvent | null> {
           name,
           avatar_url,
           vibe
+        ),
+        series:series_id (
+          id,
+          freq,
+          interval,
+          until,
+          count,
+          shared_chat
         )
       `)
       .eq('id', id)
@@ -273,22 +681,145 @@ export async function getEventById(id: string): Promise<LocalEvent | null> {
 
     if (error) {
       console.error('[Events] Error getting event:', error.message);
-      return null;
+      return isNetworkError(error) ? cachedEvent(id) : null;
     }
 
-    return mapToLocalEvent(data);
+    const event = mapToLocalEvent(data);
+    void saveToCache(`event:${id}`, event);
+    return event;
   } catch (e) {
     console.error('[Events] Unexpected error:', e);
-    return null;
+    return isNetworkError(e) ? cachedEvent(id) : null;
   }
 }
 
 /**
- * List messages for an event from Supabase
+ * Cached copy of one event, from its own entry or the cached lists. A copy taken
+ * from a list stays stale until this event itself is fetched again.
  */
-export async function listMessages(eventId: string): Promise<LocalMessage[]> {
+async function cachedEvent(id: string): Promise<LocalEvent | null> {
+  const own = await loadFromCache<LocalEvent>(`event:${id}`);
+  if (own) return own;
+  for (const key of [eventsCacheKey(false), eventsCacheKey(true), 'events:area']) {
+    const found = (await peekCache<LocalEvent[]>(key))?.find((e) => e.id === id);
+    if (found) {
+      await loadFromCache<LocalEvent[]>(key, `event:${id}`);
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply an edit to this occurrence and every later one in the same series.
+ * Schedule changes are applied as a shift: each occurrence moves by the same
+ * offset as this one and gets the new duration. Uses the update_future_occurrences
+ * RPC (one transaction); without it, updates the occurrences one by one.
+ */
+export async function updateFutureOccurrences(
+  event: LocalEvent,
+  updates: Parameters<typeof updateEvent>[1]
+): Promise<void> {
+  if (!event.series_id) {
+    await updateEvent(event.id, updates);
+    return;
+  }
+
+  const { data: rpcData, error: rpcError } = await supabase.rpc('update_future_occurrences', {
+    p_event_id: event.id,
+    p_title: updates.title,
+    p_description: updates.description ?? null,
+    p_cover_image_url: updates.cover_image_url ?? null,
+    p_cover_thumbnail_url: updates.cover_thumbnail_url ?? null,
+    p_start_time: updates.start_time ?? null,
+    p_end_time: updates.end_time ?? null,
+  });
+
+  if (!rpcError) {
+    const result = rpcData as { ok?: boolean; error?: string } | null;
+    if (result?.ok) return;
+    throw new Error(result?.error === 'event_not_found' ? 'Ивент не найден' : 'Не удалось обновить ивенты серии');
+  }
+  if (!isMissingFunctionError(rpcError)) {
+    console.error('[Events] Error updating series:', rpcError.message);
+    if (rpcError.message?.includes('not_creator')) throw new Error('Нет прав на редактирование');
+    if (rpcError.message?.includes('event_cancelled')) throw new Error('Ивент отменён, его нельзя изменить');
+    throw rpcError;
+  }
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, start_time, end_time, created_at')
+    .eq('series_id', event.series_id)
+    .is('cancelled_at', null)
+    .gte('start_time', getEventStart(event).toISOString());
+
+  if (error) {
+    console.error('[Events] Error loading series occurrences:', error.message);
+    throw error;
+  }
+
+  const shiftMs = updates.start_time
+    ? new Date(updates.start_time).getTime() - getEventStart(event).getTime()
+    : 0;
+  const durationMs = updates.start_time && updates.end_time
+    ? new Date(updates.end_time).getTime() - new Date(updates.start_time).getTime()
+    : null;
+
+  for (const occ of data || []) {
+    const occUpdates = { ...updates };
+    if (updates.start_time) {
+      const occStart = new Date(getEventStart(occ).getTime() + shiftMs);
+      const occDuration = durationMs ?? getEventDurationMinutes(occ) * 60000;
+      occUpdates.start_time = occStart.toISOString();
+      occUpdates.end_time = new Date(occStart.getTime() + occDuration).toISOString();
+    }
+    await updateEvent(occ.id, occUpdates);
+  }
+}
+
+/**
+ * Event ids whose messages make up this event's chat: the whole series if it
+ * shares one chat, otherwise just the event itself.
+ */
+export async function getChatEventIds(event: LocalEvent): Promise<string[]> {
+  if (!event.series_id || !event.series?.shared_chat) return [event.id];
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('id')
+    .eq('series_id', event.series_id);
+
+  if (error || !data?.length) {
+    if (error) console.error('[Events] Error loading series events:', error.message);
+    return [event.id];
+  }
+  return data.map((row: { id: string }) => row.id);
+}
+
+/** Position in a chat's history: messages strictly older than this are "before" it */
+export type MessageCursor = Pick<LocalMessage, 'created_at' | 'id'>;
+
+export const MESSAGES_PAGE_SIZE = 50;
+
+/**
+ * One page of messages for an event (or several events sharing one chat), oldest
+ * first. Without `before` returns the latest page; pass the oldest loaded message
+ * as `before` to fetch the page preceding it. The latest page is cached per chat
+ * and returned (without older pages) when offline.
+ */
+export async function listMessages(
+  eventId: string | string[],
+  options: { before?: MessageCursor; pageSize?: number } = {}
+): Promise<{ messages: LocalMessage[]; hasMore: boolean }> {
+  const pageSize = options.pageSize ?? MESSAGES_PAGE_SIZE;
+  const cacheKey = `messages:${(Array.isArray(eventId) ? eventId : [eventId]).join(',')}`;
+  const fromCache = async (error: unknown) => {
+    if (options.before || !isNetworkError(error)) return { messages: [], hasMore: false };
+    return { messages: (await loadFromCache<LocalMessage[]>(cacheKey)) ?? [], hasMore: false };
+  };
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('messages')
       .select(`
         *,
@@ -298,28 +829,177 @@ export async function listMessages(eventId: string): Promise<LocalMessage[]> {
           vibe
         )
       `)
-      .eq('event_id', eventId)
-      .order('created_at', { ascending: true });
+      .in('event_id', Array.isArray(eventId) ? eventId : [eventId]);
+
+    // (created_at, id) keyset: ties on created_at are broken by id
+    if (options.before) {
+      const { created_at, id } = options.before;
+      query = query.or(`created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`);
+    }
+
+    // One extra row tells us whether there's an older page
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pageSize + 1);
 
     if (error) {
       console.error('[Messages] Error listing messages:', error.message);
-      return [];
+      return fromCache(error);
     }
 
-    return (data || []).map(mapToLocalMessage);
+    const rows = (data || []) as SupabaseMessage[];
+    const messages = rows.slice(0, pageSize).reverse().map(mapToLocalMessage);
+    if (!options.before) void saveToCache(cacheKey, messages);
+    return { messages, hasMore: rows.length > pageSize };
   } catch (e) {
     console.error('[Messages] Unexpected error:', e);
-    return [];
+    return fromCache(e);
   }
 }
 
+/** One row of the Chats tab: an event chat with its latest message */
+export type EventChatSummary = {
+  event: LocalEvent;
+  lastMessage: LocalMessage | null;
+  unread: number;
+};
+
+export const EVENT_CHATS_PAGE_SIZE = 30;
+
+type EventChatRow = {
+  event: SupabaseEvent;
+  last_message_id: string | null;
+  last_message_user_id: string | null;
+  last_message_content: string | null;
+  last_message_kind: string | null;
+  last_message_attachments: MessageAttachment[] | null;
+  last_message_created_at: string | null;
+  last_author_name: string | null;
+  last_author_avatar_url: string | null;
+  last_author_vibe: string | null;
+  unread: number;
+};
+
+/**
+ * Event chats relevant to `userId` (created, joined or written in), newest activity
+ * first, one page per call. Uses the get_my_event_chats RPC; without it, falls back
+ * to a few plain queries (no unread counts). The first page is cached for offline use.
+ */
+export async function listMyEventChats(
+  userId: string,
+  page = 0,
+  pageSize = EVENT_CHATS_PAGE_SIZE
+): Promise<{ chats: EventChatSummary[]; hasMore: boolean }> {
+  try {
+    const { data, error } = await supabase.rpc('get_my_event_chats', {
+      p_limit: pageSize,
+      p_offset: page * pageSize,
+    });
+
+    if (error) {
+      if (isMissingFunctionError(error)) return listMyEventChatsFallback(userId, page, pageSize);
+      console.error('[Messages] Error listing chats:', error.message);
+      return isNetworkError(error) ? cachedEventChats(page) : { chats: [], hasMore: false };
+    }
+
+    const rows = (data || []) as EventChatRow[];
+    const result = {
+      chats: rows.map((row) => ({
+        event: mapToLocalEvent(row.event),
+        lastMessage:
+          row.last_message_id && row.last_message_user_id && row.last_message_created_at
+            ? mapToLocalMessage({
+                id: row.last_message_id,
+                event_id: row.event.id,
+                user_id: row.last_message_user_id,
+                content: row.last_message_content ?? '',
+                kind: row.last_message_kind,
+                attachments: row.last_message_attachments,
+                created_at: row.last_message_created_at,
+                profiles: {
+                  name: row.last_author_name,
+                  avatar_url: row.last_author_avatar_url,
+                  vibe: row.last_author_vibe,
+                },
+              })
+            : null,
+        unread: row.unread ?? 0,
+      })),
+      hasMore: rows.length === pageSize,
+    };
+    if (page === 0) void saveToCache('event-chats', result.chats);
+    return result;
+  } catch (e) {
+    console.error('[Messages] Unexpected error:', e);
+    return isNetworkError(e) ? cachedEventChats(page) : { chats: [], hasMore: false };
+  }
+}
+
+async function cachedEventChats(page: number): Promise<{ chats: EventChatSummary[]; hasMore: boolean }> {
+  if (page > 0) return { chats: [], hasMore: false };
+  return { chats: (await loadFromCache<EventChatSummary[]>('event-chats')) ?? [], hasMore: false };
+}
+
+async function listMyEventChatsFallback(
+  userId: string,
+  page: number,
+  pageSize: number
+): Promise<{ chats: EventChatSummary[]; hasMore: boolean }> {
+  const [{ data: created }, { data: joined }, { data: written }] = await Promise.all([
+    supabase.from('events').select('id').eq('creator_id', userId),
+    supabase.from('event_participants').select('event_id').eq('user_id', userId).neq('status', 'rejected'),
+    supabase.from('messages').select('event_id').eq('user_id', userId),
+  ]);
+  const ids = [
+    ...new Set([
+      ...(created || []).map((r: { id: string }) => r.id),
+      ...(joined || []).map((r: { event_id: string }) => r.event_id),
+      ...(written || []).map((r: { event_id: string }) => r.event_id),
+    ]),
+  ];
+  if (!ids.length) return { chats: [], hasMore: false };
+
+  const [{ data: events }, { data: latest }] = await Promise.all([
+    supabase.from('events').select('*').in('id', ids),
+    supabase
+      .from('messages')
+      .select(`
+        *,
+        profiles:user_id (
+          name,
+          avatar_url,
+          vibe
+        )
+      `)
+      .in('event_id', ids)
+      .order('created_at', { ascending: false })
+      .limit(500),
+  ]);
+
+  const lastByEvent = new Map<string, LocalMessage>();
+  for (const row of (latest || []) as SupabaseMessage[]) {
+    if (!lastByEvent.has(row.event_id)) lastByEvent.set(row.event_id, mapToLocalMessage(row));
+  }
+
+  const chats = ((events || []) as SupabaseEvent[])
+    .map((row) => ({ event: mapToLocalEvent(row), lastMessage: lastByEvent.get(row.id) ?? null, unread: 0 }))
+    .sort((a, b) => {
+      const timeA = a.lastMessage?.created_at || a.event.created_at;
+      const timeB = b.lastMessage?.created_at || b.event.created_at;
+      return timeA > timeB ? -1 : 1;
+    });
+
+  const start = page * pageSize;
+  return { chats: chats.slice(start, start + pageSize), hasMore: chats.length > start + pageSize };
+}
+
 /**
  * Add a message to an event in Supabase
  */
-export async function addMessage(input: {
+export async function addMessage(input: MessageInput & {
   event_id: string;
   user_id: string;
-  body: string;
   author: {
     name: string;
     avatar_url: string | null;
@@ -329,9 +1009,12 @@ export async function addMessage(input: {
   const { data, error } = await supabase
     .from('messages')
     .insert({
+      ...(input.id ? { id: input.id } : {}),
       event_id: input.event_id,
       user_id: input.user_id,
+      kind: input.kind ?? 'text',
       content: input.body,
+      attachments: input.attachments ?? [],
     })
     .select(`
       *,
@@ -352,29 +1035,197 @@ export async function addMessage(input: {
 }
 
 /**
- * Delete an event and its associated messages from Supabase
- * Note: Messages are deleted automatically via ON DELETE CASCADE
+ * Delete a chat message: my own, or anyone's if I host the event (RLS decides).
  */
-export async function deleteEvent(eventId: string): Promise<void> {
+export async function deleteMessage(messageId: string): Promise<void> {
+  const { data, error } = await supabase.from('messages').delete().eq('id', messageId).select('id');
+
+  if (error) {
+    console.error('[Messages] Error deleting message:', error.message);
+    throw error;
+  }
+  if (!data?.length) throw new Error('Нет прав на удаление сообщения');
+}
+
+/**
+ * Move my read cursor to now for every event in a chat (all occurrences when a series shares one).
+ * The server stamps the time (see chat_read_cursors.sql).
+ */
+export async function markEventChatRead(eventIds: string[], userId: string): Promise<void> {
+  if (!eventIds.length) return;
   const { error } = await supabase
+    .from('event_chat_reads')
+    .upsert(
+      eventIds.map((event_id) => ({ user_id: userId, event_id })),
+      { onConflict: 'user_id,event_id' }
+    );
+  if (error) {
+    console.error('[Messages] Error marking chat read:', error.message);
+  }
+}
+
+/**
+ * Realtime for an event chat: new and deleted messages in any of `eventIds`
+ * (several when a series shares one chat). Returns an unsubscribe function.
+ */
+export function subscribeToEventMessages(
+  eventIds: string[],
+  handlers: { onInsert: (msg: LocalMessage) => void; onDelete: (messageId: string) => void }
+): () => void {
+  const ids = new Set(eventIds);
+  let closed = false;
+
+  const channel = supabase
+    .channel(`messages:${eventIds.join(',')}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'messages', filter: `event_id=in.(${eventIds.join(',')})` },
+      async (payload) => {
+        // The payload has no author profile; fetch the joined row
+        const { data } = await supabase
+          .from('messages')
+          .select(`
+            *,
+            profiles:user_id (
+              name,
+              avatar_url,
+              vibe
+            )
+          `)
+          .eq('id', (payload.new as SupabaseMessage).id)
+          .maybeSingle();
+        if (data && !closed) handlers.onInsert(mapToLocalMessage(data));
+      }
+    )
+    // Deletes can't be filtered server-side and only carry the primary key
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages' }, (payload) => {
+      const old = payload.old as Partial<SupabaseMessage>;
+      if (old.id && (!old.event_id || ids.has(old.event_id))) handlers.onDelete(old.id);
+    })
+    .subscribe();
+
+  return () => {
+    closed = true;
+    void supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Realtime for event_participants of one event: joins, status changes (approve,
+ * waitlist promotion) and leaves. `onChange` should refetch participants.
+ */
+export function subscribeToEventParticipants(eventId: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`participants:${eventId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'event_participants', filter: `event_id=eq.${eventId}` },
+      () => onChange()
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'event_participants', filter: `event_id=eq.${eventId}` },
+      () => onChange()
+    )
+    // Primary key is (event_id, user_id), so old.event_id is present even without replica identity full
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'event_participants' }, (payload) => {
+      if ((payload.old as { event_id?: string }).event_id === eventId) onChange();
+    })
+    .subscribe();
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Cancel my event: it stays visible to its guests but read-only, the chat gets a
+ * system message and approved/pending guests are notified. Creator only.
+ */
+export async function cancelEvent(eventId: string, reason: string | null): Promise<void> {
+  const { data, error } = await supabase.rpc('cancel_event', {
+    p_event_id: eventId,
+    p_reason: reason?.trim() || null,
+  });
+
+  if (error) {
+    console.error('[Events] Error cancelling event:', error.message);
+    throw error;
+  }
+  const result = data as { ok?: boolean; error?: string } | null;
+  if (!result?.ok) {
+    throw new Error(result?.error === 'not_creator' ? 'Отменить ивент может только организатор' : 'Не удалось отменить ивент');
+  }
+}
+
+/**
+ * Delete an event and its associated messages from Supabase.
+ * Only cancelled or ended events can be deleted (RLS); messages go with it (ON DELETE CASCADE).
+ */
+export async function deleteEvent(eventId: string): Promise<void> {
+  const { data, error } = await supabase
     .from('events')
     .delete()
-    .eq('id', eventId);
+    .eq('id', eventId)
+    .select('id');
 
   if (error) {
     console.error('[Events] Error deleting event:', error.message);
     throw error;
   }
+  if (!data?.length) throw new Error('Удалить можно только отменённый или завершённый ивент');
 }
 
 /**
- * Join an event (or request to join). Status is 'approved' if event.auto_accept, else 'pending'.
+ * Join an event (or request to join). Status is 'approved' if event.auto_accept, else 'pending';
+ * 'waitlisted' once max_participants approved people are in.
+ * Uses the join_event RPC so the capacity check is atomic; without it falls back to a client-side check.
  * If DB has no status column, inserts without it (everyone is treated as approved).
  */
 export async function joinEvent(eventId: string, userId: string): Promise<ParticipantStatus> {
+  const { data: rpcData, error: rpcError } = await supabase.rpc('join_event', { p_event_id: eventId });
+
+  if (!rpcError) {
+    const result = rpcData as { ok?: boolean; status?: ParticipantStatus; error?: string } | null;
+    if (result?.ok && result.status) return result.status;
+    throw new Error(result?.error === 'event_not_found' ? 'Event not found' : 'Не удалось присоединиться');
+  }
+
+  if (rpcError.message?.includes('event_cancelled')) {
+    throw new Error('Ивент отменён');
+  }
+  if (!isMissingFunctionError(rpcError)) {
+    console.error('[Events] Error joining event:', rpcError.message);
+    throw rpcError;
+  }
+
   const event = await getEventById(eventId);
   if (!event) throw new Error('Event not found');
 
+  // Like join_event(): an existing row is kept as is, so a rejected guest stays rejected
+  const existing = await getMyParticipantStatus(eventId, userId);
+  if (existing) return existing;
+
+  if (event.max_participants != null) {
+    const participants = await getEventParticipantsWithStatus(eventId);
+    const approved = participants.filter((p) => p.status === 'approved').length;
+    if (approved >= event.max_participants) {
+      const waitlisted = participants.filter((p) => p.status === 'waitlisted');
+      const lastPosition = Math.max(0, ...waitlisted.map((p) => p.waitlist_position ?? 0));
+      const { error } = await supabase
+        .from('event_participants')
+        .upsert(
+          { event_id: eventId, user_id: userId, status: 'waitlisted', waitlist_position: lastPosition + 1 },
+          { onConflict: 'event_id,user_id' }
+        );
+      if (error) {
+        console.error('[Events] Error joining waitlist:', error.message);
+        throw error;
+      }
+      return 'waitlisted';
+    }
+  }
+
   const status: ParticipantStatus = event.auto_accept ? 'approved' : 'pending';
 
   let result = await supabase
@@ -431,14 +1282,18 @@ export async function getMyParticipantStatus(
       return row ? 'approved' : null;
     }
     console.error('[Events] Error getting participant status:', error.message);
-    return null;
+    if (!isNetworkError(error)) return null;
+    const cached = await loadFromCache<EventParticipant[]>(`participants:${eventId}`);
+    return cached?.find((p) => p.id === userId)?.status ?? null;
   }
 
   return data?.status ?? null;
 }
 
 /**
- * Update participant status (approve or reject). Creator only.
+ * Update participant status (approve or reject). Hosts only (creator and co-hosts).
+ * Approving past max_participants fails with "event full"; rejecting an approved
+ * participant promotes the head of the waitlist (DB trigger).
  * If DB has no status column, no-op (nothing to update).
  */
 export async function updateParticipantStatus(
@@ -447,7 +1302,7 @@ export async function updateParticipantStatus(
   status: ParticipantStatus
 ): Promise<void> {
   if (status !== 'approved' && status !== 'rejected') {
-    throw new Error('Only approved or rejected can be set by creator');
+    throw new Error('Only approved or rejected can be set by a host');
   }
 
   const { error } = await supabase
@@ -460,13 +1315,93 @@ export async function updateParticipantStatus(
     if (error.message?.includes('status') && error.message?.includes('does not exist')) {
       return;
     }
+    if (isEventFullError(error)) {
+      throw new Error('Мест больше нет');
+    }
     console.error('[Events] Error updating participant status:', error.message);
     throw error;
   }
 }
 
 /**
- * Leave an event (remove user from participants)
+ * Make an approved participant a co-host, or back a guest. Creator only.
+ */
+export async function setParticipantRole(
+  eventId: string,
+  participantUserId: string,
+  role: ParticipantRole
+): Promise<void> {
+  const { error } = await supabase
+    .from('event_participants')
+    .update({ role })
+    .eq('event_id', eventId)
+    .eq('user_id', participantUserId);
+
+  if (error) {
+    console.error('[Events] Error updating participant role:', error.message);
+    if (error.message?.includes('not_creator')) throw new Error('Назначать со-организаторов может только организатор');
+    throw error;
+  }
+}
+
+/**
+ * Hand my event to an approved participant (or co-host); I leave it. Creator only.
+ */
+export async function transferEventOwnership(eventId: string, newOwnerId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('transfer_event_ownership', {
+    p_event_id: eventId,
+    p_new_owner: newOwnerId,
+  });
+
+  if (error) {
+    console.error('[Events] Error transferring event:', error.message);
+    throw error;
+  }
+  const result = data as { ok?: boolean; error?: string } | null;
+  if (!result?.ok) {
+    throw new Error(
+      result?.error === 'not_creator'
+        ? 'Передать ивент может только организатор'
+        : result?.error === 'not_participant'
+          ? 'Передать ивент можно только участнику'
+          : 'Не удалось передать ивент'
+    );
+  }
+}
+
+/**
+ * My upcoming events with who could take each over (approved participants,
+ * co-hosts first). Used before deleting the account.
+ */
+export async function listHostedEventsForHandover(
+  userId: string
+): Promise<{ event: LocalEvent; candidates: EventParticipant[] }[]> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('*')
+    .eq('creator_id', userId)
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    console.error('[Events] Error loading hosted events:', error.message);
+    throw error;
+  }
+
+  const events = (data || []).map(mapToLocalEvent).filter((e) => !isEventEnded(e) && !e.cancelled_at);
+  return Promise.all(
+    events.map(async (event) => {
+      const participants = await getEventParticipantsWithStatus(event.id);
+      const candidates = participants
+        .filter((p) => p.status === 'approved' && p.id !== userId)
+        .sort((a, b) => Number(b.role === 'cohost') - Number(a.role === 'cohost'));
+      return { event, candidates };
+    })
+  );
+}
+
+/**
+ * Leave an event (remove user from participants).
+ * If the user was approved, the first waitlisted person is promoted by a DB trigger.
  */
 export async function leaveEvent(eventId: string, userId: string): Promise<void> {
   const { error } = await supabase
@@ -482,20 +1417,15 @@ export async function leaveEvent(eventId: string, userId: string): Promise<void>
 }
 
 /**
- * Get event participants with status (for creator: separate Requests vs Going).
- * If DB has no status column, returns all as 'approved'.
+ * Get event participants with status (for creator: separate Requests vs Going vs Waitlist).
+ * Waitlisted participants come sorted by position; pending ones carry attendance stats.
+ * If DB has no status column, returns all as 'approved'. Offline, returns the cached list.
  */
-export async function getEventParticipantsWithStatus(eventId: string): Promise<Array<{
-  id: string;
-  name: string;
-  avatar_url: string | null;
-  vibe: string | null;
-  status: ParticipantStatus;
-}>> {
+export async function getEventParticipantsWithStatus(eventId: string): Promise<EventParticipant[]> {
   const { data, error } = await supabase
     .from('event_participants')
     .select(`
-      status,
+      *,
       profiles:user_id (
         id,
         name,
@@ -526,13 +1456,16 @@ export async function getEventParticipantsWithStatus(eventId: string): Promise<A
           avatar_url: row.profiles.avatar_url,
           vibe: row.profiles.vibe,
           status: 'approved' as ParticipantStatus,
+          waitlist_position: null,
+          role: 'guest' as ParticipantRole,
         }));
     }
     console.error('[Events] Error getting participants:', error.message);
-    return [];
+    if (!isNetworkError(error)) return [];
+    return (await loadFromCache<EventParticipant[]>(`participants:${eventId}`)) ?? [];
   }
 
-  return (data || [])
+  const participants: EventParticipant[] = (data || [])
     .filter((row: any) => row.profiles)
     .map((row: any) => ({
       id: row.profiles.id,
@@ -540,7 +1473,89 @@ export async function getEventParticipantsWithStatus(eventId: string): Promise<A
       avatar_url: row.profiles.avatar_url,
       vibe: row.profiles.vibe,
       status: (row.status || 'approved') as ParticipantStatus,
-    }));
+      waitlist_position: row.waitlist_position ?? null,
+      role: (row.role || 'guest') as ParticipantRole,
+    }))
+    .sort((a, b) => (a.waitlist_position ?? 0) - (b.waitlist_position ?? 0));
+
+  const pending = participants.filter((p) => p.status === 'pending');
+  if (pending.length) {
+    const stats = await getAttendanceStats(pending.map((p) => p.id));
+    for (const p of pending) p.stats = stats.get(p.id);
+  }
+  void saveToCache(`participants:${eventId}`, participants);
+  return participants;
+}
+
+/**
+ * Approved participant count per event, for "has free spots" checks on lists.
+ */
+export async function getApprovedCounts(eventIds: string[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (!eventIds.length) return counts;
+
+  const { data, error } = await supabase
+    .from('event_participants')
+    .select('event_id')
+    .in('event_id', eventIds)
+    .eq('status', 'approved');
+
+  if (error) {
+    console.error('[Events] Error counting participants:', error.message);
+    return counts;
+  }
+  for (const row of (data || []) as { event_id: string }[]) {
+    counts.set(row.event_id, (counts.get(row.event_id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Which of the given events at least one of `userIds` is approved for (e.g. "friends are going").
+ */
+export async function getEventIdsWithParticipants(eventIds: string[], userIds: string[]): Promise<Set<string>> {
+  if (!eventIds.length || !userIds.length) return new Set();
+
+  const { data, error } = await supabase
+    .from('event_participants')
+    .select('event_id')
+    .in('event_id', eventIds)
+    .in('user_id', userIds)
+    .eq('status', 'approved');
+
+  if (error) {
+    console.error('[Events] Error loading participants:', error.message);
+    return new Set();
+  }
+  return new Set(((data || []) as { event_id: string }[]).map((row) => row.event_id));
+}
+
+/**
+ * Creator or approved co-host: can approve joins, edit the event and delete chat messages.
+ */
+export function isEventHost(
+  event: Pick<LocalEvent, 'creator_id'>,
+  participants: EventParticipant[],
+  userId: string | null
+): boolean {
+  if (!userId) return false;
+  if (event.creator_id === userId) return true;
+  return participants.some((p) => p.id === userId && p.role === 'cohost' && p.status === 'approved');
+}
+
+/**
+ * Headcount for "5/6 going, 3 waiting".
+ */
+export function summarizeParticipants(participants: EventParticipant[]): {
+  going: number;
+  pending: number;
+  waiting: number;
+} {
+  return {
+    going: participants.filter((p) => p.status === 'approved').length,
+    pending: participants.filter((p) => p.status === 'pending').length,
+    waiting: participants.filter((p) => p.status === 'waitlisted').length,
+  };
 }
 
 /**
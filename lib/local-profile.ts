@@ -1,3 +1,4 @@
+import { unregisterPushNotifications } from './push-notifications';
 import { supabase } from './supabase';
 
 export type VibeIntent = 'just-coffee' | 'networking' | 'romantic-date' | 'language-practice' | 'friendship' | 'adventure';
@@ -203,7 +204,7 @@ export async function updateProfile(
     if (updates.favoriteSpots !== undefined) {
       supabaseUpdates.favorite_spots = updates.favoriteSpots;
     }
-    // if (updates.privacy !== undefined) supabaseUpdates.privacy = updates.privacy;
+    if (updates.privacy !== undefined) supabaseUpdates.privacy = updates.privacy;
     if (updates.location !== undefined) supabaseUpdates.location = updates.location;
     if (updates.is_ghost !== undefined) supabaseUpdates.is_ghost = updates.is_ghost;
     if (updates.latitude !== undefined) supabaseUpdates.latitude = updates.latitude;
@@ -269,6 +270,57 @@ export async function getNearbyUsers(myUserId: string | null): Promise<NearbyUse
     }));
 }
 
+/**
+ * Delete my account. `handover` maps my event ids to the participant who takes
+ * each over; my other upcoming events are cancelled and their attendees notified.
+ * This device stops getting pushes once the account is gone.
+ * The session is gone afterwards, so sign out locally.
+ */
+export async function deleteAccount(handover: Record<string, string>): Promise<void> {
+  const { data, error } = await supabase.rpc('delete_my_account', { p_handover: handover });
+  if (error) {
+    console.error('[Profile] Error deleting account:', error.message);
+    throw new Error(error.message.includes('handover_failed') ? 'Не удалось передать один из ивентов' : error.message);
+  }
+  const result = data as { ok?: boolean; error?: string } | null;
+  if (!result?.ok) throw new Error('Не удалось удалить аккаунт');
+
+  // Only now: if deletion failed, this device should keep getting pushes
+  await unregisterPushNotifications();
+  await supabase.auth.signOut({ scope: 'local' });
+}
+
+export type PublicProfile = {
+  id: string;
+  name: string | null;
+  avatar_url: string | null;
+  vibe: VibeIntent | null;
+};
+
+/**
+ * Someone else's public profile. Used when /user/<id> is opened from a link,
+ * without the name and avatar the in-app screens pass along.
+ */
+export async function getPublicProfile(userId: string): Promise<PublicProfile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, name, avatar_url, vibe')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('[Profile] getPublicProfile error:', error.message);
+    return null;
+  }
+  if (!data) return null;
+  return {
+    id: data.id,
+    name: data.name ?? null,
+    avatar_url: data.avatar_url ?? null,
+    vibe: (data.vibe as VibeIntent) || null,
+  };
+}
+
 /**
  * Check if the current user has a complete profile (row exists with name and avatar).
  * Used to redirect to create-profile when profile is missing or incomplete after sign-up.
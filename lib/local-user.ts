@@ -1,16 +1,29 @@
+import { isNetworkError } from './offline-cache';
 import { supabase } from './supabase';
 
+/**
+ * Signed-in user: verified with the server, or taken from the stored session when
+ * the server can't be reached (offline start).
+ */
+async function getAuthUser() {
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (user || !error || !isNetworkError(error)) return user;
+
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user ?? null;
+}
+
 /**
  * Get current user ID from Supabase auth
  * Returns null if not authenticated
  */
 export async function getOrCreateLocalUserId(): Promise<string> {
-  const { data: { user } } = await supabase.auth.getUser();
-  
+  const user = await getAuthUser();
+
   if (!user) {
     throw new Error('User not authenticated');
   }
-  
+
   return user.id;
 }
 
@@ -18,6 +31,6 @@ export async function getOrCreateLocalUserId(): Promise<string> {
  * Get current user ID or null if not authenticated
  */
 export async function getCurrentUserId(): Promise<string | null> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getAuthUser();
   return user?.id || null;
 }
@@ -1,3 +1,6 @@
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+
 import { getProfile } from '@/lib/local-profile';
 import { supabase } from '@/lib/supabase';
 
@@ -26,3 +29,47 @@ export async function updateMyLocation(lat: number, lng: number): Promise<void>
 
   await supabase.from('profiles').update(updates).eq('id', user.id);
 }
+
+/**
+ * Great-circle distance in km (haversine).
+ */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Device position for "distance from me" features. Doesn't prompt for permission;
+ * returns null if it wasn't granted or the position is unavailable.
+ */
+export async function getMyCoords(): Promise<{ lat: number; lng: number } | null> {
+  if (Platform.OS === 'web') return null;
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== 'granted') return null;
+    const loc = (await Location.getLastKnownPositionAsync()) ?? (await Location.getCurrentPositionAsync({}));
+    return { lat: loc.coords.latitude, lng: loc.coords.longitude };
+  } catch (e) {
+    console.warn('Location:', e);
+    return null;
+  }
+}
+
+/**
+ * Like getMyCoords(), but asks for permission first. For explicit actions such as
+ * sharing a location in chat.
+ */
+export async function requestMyCoords(): Promise<{ lat: number; lng: number } | null> {
+  if (Platform.OS === 'web') return null;
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') return null;
+  } catch (e) {
+    console.warn('Location permission:', e);
+    return null;
+  }
+  return getMyCoords();
+}
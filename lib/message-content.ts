@@ -0,0 +1,140 @@
+import { supabaseUrl } from './supabase';
+
+/**
+ * Message model shared by event chats and DMs: a kind, the text (or image caption)
+ * and structured attachments. Stored in the `kind` / `content` / `attachments`
+ * columns of both `messages` and `dm_messages`.
+ */
+
+export type MessageKind = 'text' | 'image' | 'location' | 'system';
+
+export type ImageAttachment = {
+  type: 'image';
+  url: string;
+  /** Pixel size of the original, so bubbles can reserve space before it loads */
+  width: number | null;
+  height: number | null;
+  thumbnail_url: string | null;
+};
+
+export type LocationAttachment = {
+  type: 'location';
+  latitude: number;
+  longitude: number;
+  label: string | null;
+};
+
+export type MessageAttachment = ImageAttachment | LocationAttachment;
+
+/** What a sender provides; `kind` defaults to text */
+export type MessageInput = {
+  /** Client-generated id (createMessageId), so a retried send can't post twice */
+  id?: string;
+  kind?: MessageKind;
+  /** Message text, or the caption of an image */
+  body: string;
+  attachments?: MessageAttachment[];
+};
+
+const KINDS: MessageKind[] = ['text', 'image', 'location', 'system'];
+
+/**
+ * Random v4 UUID for MessageInput.id.
+ */
+export function createMessageId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.floor(Math.random() * 16);
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Postgres unique violation: a message with this client id was already stored.
+ */
+export function isDuplicateMessageError(error: { code?: string }): boolean {
+  return error.code === '23505';
+}
+
+/**
+ * Before message kinds existed, images were sent as a bare public URL in the body.
+ */
+export function isImageUrl(body: string): boolean {
+  const t = body.trim().toLowerCase();
+  if (!(t.startsWith('http://') || t.startsWith('https://'))) return false;
+  return (
+    t.endsWith('.jpg') ||
+    t.endsWith('.jpeg') ||
+    t.endsWith('.png') ||
+    t.includes('.jpg?') ||
+    t.includes('.jpeg?') ||
+    t.includes('.png?')
+  );
+}
+
+/**
+ * Normalize a DB row's kind/content/attachments. Rows written before the columns
+ * existed (or not yet backfilled) are read as text, or as an image if the body is
+ * an image URL.
+ */
+export function toMessageContent(row: {
+  content: string;
+  kind?: string | null;
+  attachments?: unknown;
+}): { kind: MessageKind; body: string; attachments: MessageAttachment[] } {
+  const kind = KINDS.includes(row.kind as MessageKind) ? (row.kind as MessageKind) : 'text';
+  const attachments = Array.isArray(row.attachments) ? (row.attachments as MessageAttachment[]) : [];
+
+  if (kind === 'text' && attachments.length === 0 && isImageUrl(row.content)) {
+    return {
+      kind: 'image',
+      body: '',
+      attachments: [{ type: 'image', url: row.content.trim(), width: null, height: null, thumbnail_url: null }],
+    };
+  }
+  return { kind, body: row.content, attachments };
+}
+
+/**
+ * One-line preview for chat lists.
+ */
+export function messagePreview(message: { kind: MessageKind; body: string }): string {
+  const body = message.body.length > 50 ? message.body.substring(0, 50) + '...' : message.body;
+  switch (message.kind) {
+    case 'image':
+      return body ? `📷 ${body}` : '📷 Фото';
+    case 'location':
+      return body ? `📍 ${body}` : '📍 Локация';
+    default:
+      return body;
+  }
+}
+
+/**
+ * Display size for an image bubble: fits `maxSize` keeping the aspect ratio,
+ * square when the original size is unknown (legacy messages).
+ */
+export function fitImageSize(image: ImageAttachment, maxSize: number): { width: number; height: number } {
+  if (!image.width || !image.height) return { width: maxSize, height: maxSize };
+  const scale = Math.min(maxSize / image.width, maxSize / image.height);
+  return { width: Math.round(image.width * scale), height: Math.round(image.height * scale) };
+}
+
+/**
+ * Whether an image attachment's URL is an https link into this project's Storage.
+ * Attachments are whatever the sender's client wrote, so nothing else is opened.
+ */
+export function isStorageUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && parsed.host === new URL(supabaseUrl).host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Link that opens a location attachment in the device's maps app (or the browser).
+ */
+export function locationUrl(location: LocationAttachment): string {
+  return `https://maps.google.com/?q=${location.latitude},${location.longitude}`;
+}
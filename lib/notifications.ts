@@ -0,0 +1,235 @@
+import React from 'react';
+
+import type { NotificationTarget } from './push-notifications';
+import { supabase } from './supabase';
+
+/**
+ * Activity inbox: the `notifications` table, filled by database triggers (see
+ * add_notifications.sql). The client only reads rows and marks them read.
+ */
+
+export type ActivityType =
+  | 'friend_request'
+  | 'friend_accepted'
+  | 'join_request'
+  | 'join_approved'
+  | 'join_rejected'
+  | 'friend_event'
+  | 'mention'
+  | 'event_transferred'
+  | 'event_cancelled';
+
+export type ActivityItem = {
+  id: string;
+  type: ActivityType;
+  actor: { id: string; name: string; avatar_url: string | null } | null;
+  event: { id: string; title: string; emoji: string } | null;
+  /** Message text for mentions; the full notice for cancellations (the event may be gone) */
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+export const NOTIFICATIONS_PAGE_SIZE = 30;
+
+type SupabaseNotification = {
+  id: string;
+  type: ActivityType;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+  actor: { id: string; name: string | null; avatar_url: string | null } | null;
+  event: { id: string; title: string; emoji: string | null } | null;
+};
+
+const NOTIFICATION_SELECT = `
+  id,
+  type,
+  body,
+  read_at,
+  created_at,
+  actor:actor_id (id, name, avatar_url),
+  event:event_id (id, title, emoji)
+`;
+
+function mapToActivityItem(row: SupabaseNotification): ActivityItem {
+  return {
+    id: row.id,
+    type: row.type,
+    actor: row.actor ? { id: row.actor.id, name: row.actor.name || 'User', avatar_url: row.actor.avatar_url } : null,
+    event: row.event ? { id: row.event.id, title: row.event.title, emoji: row.event.emoji || '📍' } : null,
+    body: row.body,
+    read_at: row.read_at,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * My notifications, newest first, one page per call.
+ */
+export async function listNotifications(
+  page = 0,
+  pageSize = NOTIFICATIONS_PAGE_SIZE
+): Promise<{ items: ActivityItem[]; hasMore: boolean }> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_SELECT)
+    .order('created_at', { ascending: false })
+    .range(page * pageSize, page * pageSize + pageSize - 1);
+
+  if (error) {
+    console.error('[Notifications] Error listing notifications:', error.message);
+    return { items: [], hasMore: false };
+  }
+  const rows = (data || []) as unknown as SupabaseNotification[];
+  return { items: rows.map(mapToActivityItem), hasMore: rows.length === pageSize };
+}
+
+/**
+ * Mark one notification read (on open).
+ */
+export async function markNotificationRead(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('read_at', null);
+  if (error) {
+    console.error('[Notifications] Error marking read:', error.message);
+    return;
+  }
+  void refreshUnreadNotifications();
+}
+
+/**
+ * Mark every unread notification read.
+ */
+export async function markAllNotificationsRead(): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', session.user.id)
+    .is('read_at', null);
+  if (error) {
+    console.error('[Notifications] Error marking all read:', error.message);
+    throw error;
+  }
+  void refreshUnreadNotifications();
+}
+
+/**
+ * One-line description for the inbox row (the actor's name, if any, is shown separately in bold).
+ */
+export function describeNotification(item: ActivityItem): string {
+  const title = item.event ? `«${item.event.title}»` : 'ивент';
+  switch (item.type) {
+    case 'friend_request':
+      return 'хочет добавить тебя в друзья';
+    case 'friend_accepted':
+      return 'принял(а) заявку в друзья';
+    case 'join_request':
+      return `хочет присоединиться к ${title}`;
+    case 'join_approved':
+      return `принял(а) тебя в ${title}`;
+    case 'join_rejected':
+      return `отклонил(а) заявку в ${title}`;
+    case 'friend_event':
+      return `создал(а) ${title}`;
+    case 'mention':
+      return `упомянул(а) тебя в ${title}: ${item.body ?? ''}`;
+    case 'event_transferred':
+      return `передал(а) тебе организацию ${title}`;
+    case 'event_cancelled':
+      return item.body ?? `отменил(а) ${title}`;
+  }
+}
+
+/**
+ * Where tapping a notification leads.
+ */
+export function notificationTarget(item: ActivityItem): NotificationTarget | null {
+  switch (item.type) {
+    case 'friend_request':
+      return { screen: 'friends' };
+    case 'friend_accepted':
+      return item.actor
+        ? { screen: 'user', userId: item.actor.id, name: item.actor.name, avatar: item.actor.avatar_url }
+        : null;
+    default:
+      return item.event ? { screen: 'event', eventId: item.event.id } : null;
+  }
+}
+
+/**
+ * Realtime: a new notification for me. Returns an unsubscribe function.
+ */
+export function subscribeToNotifications(userId: string, onInsert: () => void): () => void {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      () => onInsert()
+    )
+    .subscribe();
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
+
+// ==============================================
+// UNREAD COUNT (bell badge)
+// ==============================================
+
+let unreadCount = 0;
+const listeners = new Set<() => void>();
+
+/**
+ * Reload the unread count and notify useUnreadNotificationCount() subscribers.
+ */
+export async function refreshUnreadNotifications(): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .is('read_at', null);
+  if (error) {
+    console.error('[Notifications] Error counting unread:', error.message);
+    return unreadCount;
+  }
+  unreadCount = count ?? 0;
+  listeners.forEach((l) => l());
+  return unreadCount;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useUnreadNotificationCount(): number {
+  return React.useSyncExternalStore(subscribe, () => unreadCount);
+}
+
+/**
+ * Keep the unread count fresh while the app is open. Returns an unsubscribe function.
+ */
+export function watchNotifications(): () => void {
+  void refreshUnreadNotifications();
+  // RLS only delivers my own rows
+  const channel = supabase
+    .channel('notifications-unread')
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notifications' }, () => {
+      void refreshUnreadNotifications();
+    })
+    .subscribe();
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,198 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import React from 'react';
+
+import { supabase } from './supabase';
+
+/**
+ * Last-known-good copies of server data (events, participants, recent messages),
+ * so screens render instantly and still show something without a connection.
+ * Reads that fall back to the cache mark the app "stale" until the next
+ * successful fetch of the same data or the connection comes back. Entries
+ * belong to the signed-in user and are wiped on sign-out.
+ */
+
+const CACHE_PREFIX = 'nomadtable.cache.v1:';
+/** Recently cached chats (message keys), oldest first; older ones are evicted */
+const MESSAGE_KEYS_INDEX = 'nomadtable.cache.v1.message-keys';
+const MAX_CACHED_CHATS = 30;
+
+/** Signed-in user whose cache is in use; nothing is read or written without one */
+let cacheUserId: string | null = null;
+
+function storageKey(key: string): string | null {
+  return cacheUserId ? `${CACHE_PREFIX}${cacheUserId}:${key}` : null;
+}
+
+type CacheEntry<T> = { data: T; savedAt: string };
+
+export type SyncStatus = {
+  online: boolean;
+  /** Oldest cache entry currently on screen instead of fresh data, or null */
+  staleSince: string | null;
+  /** Outbox operations waiting to be sent */
+  pending: number;
+};
+
+// ==============================================
+// STATUS STORE
+// ==============================================
+
+let status: SyncStatus = { online: true, staleSince: null, pending: 0 };
+const staleKeys = new Map<string, string>();
+const listeners = new Set<() => void>();
+
+function setStatus(patch: Partial<SyncStatus>) {
+  status = { ...status, ...patch };
+  listeners.forEach((l) => l());
+}
+
+function updateStale() {
+  const oldest = [...staleKeys.values()].sort()[0] ?? null;
+  if (oldest !== status.staleSince) setStatus({ staleSince: oldest });
+}
+
+/** Used by the outbox to publish its size */
+export function setPendingCount(pending: number) {
+  if (pending !== status.pending) setStatus({ pending });
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+/** Listen to status changes outside React (the outbox flushes on reconnect) */
+export function subscribeToSyncStatus(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useSyncStatus(): SyncStatus {
+  return React.useSyncExternalStore(subscribeToSyncStatus, () => status);
+}
+
+/**
+ * Call `callback` whenever the connection comes back after being offline.
+ */
+export function useOnReconnect(callback: () => void) {
+  const ref = React.useRef(callback);
+  ref.current = callback;
+  const { online } = useSyncStatus();
+  const wasOnline = React.useRef(online);
+  React.useEffect(() => {
+    if (online && !wasOnline.current) ref.current();
+    wasOnline.current = online;
+  }, [online]);
+}
+
+// Connectivity from the OS; "reachable" is null until the first probe finishes.
+// Back online, screens refetch (useOnReconnect), so cached data no longer counts as on screen.
+NetInfo.addEventListener((state) => {
+  const online = state.isConnected !== false && state.isInternetReachable !== false;
+  if (online === status.online) return;
+  if (online) staleKeys.clear();
+  setStatus({ online });
+  updateStale();
+});
+
+supabase.auth.onAuthStateChange((event, session) => {
+  cacheUserId = session?.user.id ?? null;
+  if (event === 'SIGNED_OUT') void clearCache();
+});
+
+/**
+ * Drop every cached entry (all accounts) and the stale state. Called on sign-out.
+ */
+export async function clearCache(): Promise<void> {
+  staleKeys.clear();
+  updateStale();
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((k) => k.startsWith(CACHE_PREFIX) || k === MESSAGE_KEYS_INDEX));
+  } catch (e) {
+    console.warn('[Cache] Error clearing cache:', e);
+  }
+}
+
+/**
+ * Supabase reports a dropped connection as an error with a fetch failure message
+ * rather than throwing.
+ */
+export function isNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : ((error as { message?: string } | null)?.message ?? '');
+  return /network request failed|failed to fetch|fetch failed|network error|timed? ?out/i.test(message);
+}
+
+// ==============================================
+// CACHE
+// ==============================================
+
+/** `fullKey` is the storage key (user-scoped) */
+async function trackMessageKey(fullKey: string) {
+  try {
+    const raw = await AsyncStorage.getItem(MESSAGE_KEYS_INDEX);
+    const keys = (raw ? (JSON.parse(raw) as string[]) : []).filter((k) => k !== fullKey);
+    keys.push(fullKey);
+    const evicted = keys.splice(0, Math.max(0, keys.length - MAX_CACHED_CHATS));
+    await AsyncStorage.setItem(MESSAGE_KEYS_INDEX, JSON.stringify(keys));
+    if (evicted.length) await AsyncStorage.multiRemove(evicted);
+  } catch (e) {
+    console.warn('[Cache] Error updating message index:', e);
+  }
+}
+
+/**
+ * Store fresh data. Keys starting with "messages:" or "dm:" are kept for the
+ * MAX_CACHED_CHATS most recently opened chats only.
+ */
+export async function saveToCache<T>(key: string, data: T): Promise<void> {
+  if (staleKeys.delete(key)) updateStale();
+  const fullKey = storageKey(key);
+  if (!fullKey) return;
+  try {
+    const entry: CacheEntry<T> = { data, savedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(fullKey, JSON.stringify(entry));
+    if (key.startsWith('messages:') || key.startsWith('dm:')) await trackMessageKey(fullKey);
+  } catch (e) {
+    console.warn('[Cache] Error saving', key, e);
+  }
+}
+
+/**
+ * Cached copy without touching the stale state: for an instant first render
+ * before the real fetch.
+ */
+export async function peekCache<T>(key: string): Promise<T | null> {
+  const fullKey = storageKey(key);
+  if (!fullKey) return null;
+  try {
+    const raw = await AsyncStorage.getItem(fullKey);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>).data : null;
+  } catch (e) {
+    console.warn('[Cache] Error reading', key, e);
+    return null;
+  }
+}
+
+/**
+ * Cached copy used in place of a fetch that failed for lack of a connection; marks
+ * the data as stale. `staleKey` is the key whose next save clears that (defaults
+ * to `key`), for lookups of one item in a cached list.
+ */
+export async function loadFromCache<T>(key: string, staleKey: string = key): Promise<T | null> {
+  const fullKey = storageKey(key);
+  if (!fullKey) return null;
+  try {
+    const raw = await AsyncStorage.getItem(fullKey);
+    if (!raw) return null;
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    staleKeys.set(staleKey, entry.savedAt);
+    updateStale();
+    return entry.data;
+  } catch (e) {
+    console.warn('[Cache] Error reading', key, e);
+    return null;
+  }
+}
@@ -0,0 +1,340 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React from 'react';
+import { AppState } from 'react-native';
+
+import { sendDMMessage, type DMMessage } from './local-dms';
+import { addMessage, joinEvent, type LocalMessage, type ParticipantStatus } from './local-events';
+import { getCurrentUserId } from './local-user';
+import { createMessageId, isDuplicateMessageError, type MessageInput } from './message-content';
+import { getSyncStatus, isNetworkError, setPendingCount, subscribeToSyncStatus } from './offline-cache';
+import { supabase } from './supabase';
+
+/**
+ * Writes made without a connection (chat messages, joins). They are kept on disk
+ * and sent in order once the app is back online; anything the server rejects
+ * stays as "failed" until retried or discarded. Each account has its own queue,
+ * dropped on sign-out.
+ */
+
+/** Stored per user as `${OUTBOX_KEY}:<user id>`; the bare key is the pre-account queue */
+const OUTBOX_KEY = 'nomadtable.outbox.v1';
+/** Retry interval while the OS says we're online but requests still fail */
+const RETRY_MS = 30_000;
+
+type Author = { name: string; avatar_url: string | null; vibe: string | null };
+
+export type OutboxAction =
+  | { type: 'event-message'; eventId: string; userId: string; author: Author; message: MessageInput & { id: string } }
+  | { type: 'dm-message'; chatId: string; userId: string; author: Author; message: MessageInput & { id: string } }
+  | { type: 'join'; eventId: string; userId: string };
+
+export type OutboxOp = {
+  /** Message id for message actions */
+  id: string;
+  action: OutboxAction;
+  status: 'pending' | 'sending' | 'failed';
+  error: string | null;
+  created_at: string;
+};
+
+/** What a flushed operation produced */
+export type OutboxSent = {
+  op: OutboxOp;
+  /** Absent if an earlier, interrupted attempt already stored the message */
+  eventMessage?: LocalMessage;
+  dmMessage?: DMMessage;
+  joinStatus?: ParticipantStatus;
+};
+
+// ==============================================
+// STORE
+// ==============================================
+
+let ops: OutboxOp[] = [];
+/** User whose queue is loaded */
+let owner: string | null = null;
+let flushing = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+const sentListeners = new Set<(sent: OutboxSent) => void>();
+
+function setOps(next: OutboxOp[]) {
+  ops = next;
+  setPendingCount(ops.filter((op) => op.status !== 'failed').length);
+  listeners.forEach((l) => l());
+}
+
+function updateOp(id: string, patch: Partial<OutboxOp>) {
+  setOps(ops.map((op) => (op.id === id ? { ...op, ...patch } : op)));
+}
+
+async function persistOps() {
+  if (!owner) return;
+  try {
+    await AsyncStorage.setItem(`${OUTBOX_KEY}:${owner}`, JSON.stringify(ops));
+  } catch (e) {
+    console.error('[outbox] Error saving outbox:', e);
+  }
+}
+
+async function enqueue(action: OutboxAction, id: string = createMessageId()): Promise<OutboxOp> {
+  const op: OutboxOp = { id, action, status: 'pending', error: null, created_at: new Date().toISOString() };
+  setOps([...ops, op]);
+  await persistOps();
+  void flushOutbox();
+  return op;
+}
+
+/** Send directly only when nothing is queued ahead, so order is kept */
+function shouldQueue(): boolean {
+  return !getSyncStatus().online || ops.some((op) => op.status !== 'failed');
+}
+
+// ==============================================
+// SENDING
+// ==============================================
+
+async function perform(op: OutboxOp): Promise<OutboxSent> {
+  const { action } = op;
+  try {
+    switch (action.type) {
+      case 'event-message': {
+        const eventMessage = await addMessage({
+          ...action.message,
+          event_id: action.eventId,
+          user_id: action.userId,
+          author: action.author,
+        });
+        return { op, eventMessage };
+      }
+      case 'dm-message': {
+        const dmMessage = await sendDMMessage(action.chatId, action.message, action.userId, action.author);
+        return { op, dmMessage };
+      }
+      case 'join':
+        return { op, joinStatus: await joinEvent(action.eventId, action.userId) };
+    }
+  } catch (e) {
+    if (action.type !== 'join' && isDuplicateMessageError(e as { code?: string })) return { op };
+    throw e;
+  }
+}
+
+function scheduleRetry() {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    void flushOutbox();
+  }, RETRY_MS);
+}
+
+/**
+ * Send queued operations oldest first. Stops at the first network failure (the
+ * rest would fail too) and tries again on reconnect, on foreground or after RETRY_MS.
+ */
+export async function flushOutbox(): Promise<void> {
+  if (flushing || !getSyncStatus().online) return;
+  flushing = true;
+  try {
+    for (;;) {
+      const op = ops.find((o) => o.status === 'pending' && o.action.userId === owner);
+      if (!op) break;
+      updateOp(op.id, { status: 'sending', error: null });
+      try {
+        const sent = await perform(op);
+        setOps(ops.filter((o) => o.id !== op.id));
+        await persistOps();
+        sentListeners.forEach((l) => l(sent));
+      } catch (e) {
+        const message = e instanceof Error ? e.message : ((e as { message?: string }).message ?? String(e));
+        if (isNetworkError(e)) {
+          updateOp(op.id, { status: 'pending', error: message });
+          scheduleRetry();
+          break;
+        }
+        console.warn('[outbox] Operation rejected:', op.action.type, message);
+        updateOp(op.id, { status: 'failed', error: message });
+        await persistOps();
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+// ==============================================
+// PUBLIC API
+// ==============================================
+
+/**
+ * Send an event chat message, or queue it when offline. Resolves to the stored
+ * message, or null if it was queued (render it from useOutbox()).
+ */
+export async function sendEventMessage(input: MessageInput & {
+  event_id: string;
+  user_id: string;
+  author: Author;
+}): Promise<LocalMessage | null> {
+  const { event_id, user_id, author, ...rest } = input;
+  const message = { ...rest, id: rest.id ?? createMessageId() };
+  const action: OutboxAction = { type: 'event-message', eventId: event_id, userId: user_id, author, message };
+  if (shouldQueue()) {
+    await enqueue(action, message.id);
+    return null;
+  }
+  try {
+    return await addMessage({ ...message, event_id, user_id, author });
+  } catch (e) {
+    if (!isNetworkError(e)) throw e;
+    await enqueue(action, message.id);
+    return null;
+  }
+}
+
+/**
+ * Send a DM, or queue it when offline. Resolves to the stored message, or null if queued.
+ */
+export async function sendDMMessageOrQueue(
+  chatId: string,
+  body: string | MessageInput,
+  myUserId: string,
+  myProfile: Author
+): Promise<DMMessage | null> {
+  const input: MessageInput = typeof body === 'string' ? { body } : body;
+  const message = { ...input, id: input.id ?? createMessageId() };
+  const action: OutboxAction = { type: 'dm-message', chatId, userId: myUserId, author: myProfile, message };
+  if (shouldQueue()) {
+    await enqueue(action, message.id);
+    return null;
+  }
+  try {
+    return await sendDMMessage(chatId, message, myUserId, myProfile);
+  } catch (e) {
+    if (!isNetworkError(e)) throw e;
+    await enqueue(action, message.id);
+    return null;
+  }
+}
+
+/**
+ * Join an event, or queue the join when offline. Resolves to the new status, or
+ * null if queued (the status arrives through onOutboxSent).
+ */
+export async function joinEventOrQueue(eventId: string, userId: string): Promise<ParticipantStatus | null> {
+  const action: OutboxAction = { type: 'join', eventId, userId };
+  const queued = ops.find((op) => op.action.type === 'join' && op.action.eventId === eventId);
+  if (queued && queued.status !== 'failed') return null;
+  // Joining again replaces a join the server rejected earlier
+  if (queued) await discardOutboxOp(queued.id);
+  if (shouldQueue()) {
+    await enqueue(action);
+    return null;
+  }
+  try {
+    return await joinEvent(eventId, userId);
+  } catch (e) {
+    if (!isNetworkError(e)) throw e;
+    await enqueue(action);
+    return null;
+  }
+}
+
+/**
+ * Put a failed operation back in the queue.
+ */
+export function retryOutboxOp(id: string) {
+  updateOp(id, { status: 'pending', error: null });
+  void persistOps();
+  void flushOutbox();
+}
+
+/**
+ * Drop an operation that isn't being sent right now.
+ */
+export async function discardOutboxOp(id: string) {
+  if (ops.find((op) => op.id === id)?.status === 'sending') return;
+  setOps(ops.filter((op) => op.id !== id));
+  await persistOps();
+}
+
+/**
+ * Called with the result of every operation the outbox sends.
+ */
+export function onOutboxSent(listener: (sent: OutboxSent) => void): () => void {
+  sentListeners.add(listener);
+  return () => {
+    sentListeners.delete(listener);
+  };
+}
+
+// Signing out drops the account's queue, on this device and on disk
+supabase.auth.onAuthStateChange((event) => {
+  if (event !== 'SIGNED_OUT' || !owner) return;
+  const key = `${OUTBOX_KEY}:${owner}`;
+  owner = null;
+  setOps([]);
+  AsyncStorage.removeItem(key).catch((e) => console.error('[outbox] Error clearing outbox:', e));
+});
+
+let resumed = false;
+
+/**
+ * Load the signed-in user's operations left over from the last session and flush
+ * whenever the connection comes back or the app returns to the foreground. Called
+ * again after every sign-in.
+ */
+export async function resumeOutbox(): Promise<void> {
+  const userId = await getCurrentUserId();
+  if (!userId || userId === owner) return;
+  owner = userId;
+  // Queued by this user before the load finished
+  setOps(ops.filter((op) => op.action.userId === userId));
+  try {
+    const raw = await AsyncStorage.getItem(`${OUTBOX_KEY}:${userId}`);
+    let saved = raw ? (JSON.parse(raw) as OutboxOp[]) : [];
+    // Queue from before outboxes were per account: keep this user's operations
+    const legacy = await AsyncStorage.getItem(OUTBOX_KEY);
+    if (legacy) {
+      saved = [...saved, ...(JSON.parse(legacy) as OutboxOp[]).filter((op) => op.action.userId === userId)];
+      await AsyncStorage.removeItem(OUTBOX_KEY);
+    }
+    if (owner !== userId) return;
+    // An operation that was in flight when the app died is sent again (message ids make that safe)
+    const restored = saved.map((op) => (op.status === 'sending' ? { ...op, status: 'pending' as const } : op));
+    setOps([...restored.filter((r) => !ops.some((op) => op.id === r.id)), ...ops]);
+    await persistOps();
+  } catch (e) {
+    console.error('[outbox] Error loading outbox:', e);
+  }
+
+  if (resumed) {
+    void flushOutbox();
+    return;
+  }
+  resumed = true;
+  let wasOnline = getSyncStatus().online;
+  subscribeToSyncStatus(() => {
+    const { online } = getSyncStatus();
+    if (online && !wasOnline) void flushOutbox();
+    wasOnline = online;
+  });
+  AppState.addEventListener('change', (state) => {
+    if (state === 'active') void flushOutbox();
+  });
+  void flushOutbox();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Everything waiting in the outbox (pending, sending or failed), for pending bubbles
+ * and "will sync" states.
+ */
+export function useOutbox(): OutboxOp[] {
+  return React.useSyncExternalStore(subscribe, () => ops);
+}
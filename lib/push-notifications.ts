@@ -0,0 +1,196 @@
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import type { Href } from 'expo-router';
+import { Platform } from 'react-native';
+
+import { getCurrentUserId } from './local-user';
+import { supabase } from './supabase';
+
+/**
+ * Expo push: device token registration (push_tokens), per-type opt-outs
+ * (profiles.notification_prefs) and taps on delivered notifications. The pushes
+ * themselves are sent by database triggers (see add_push_notifications.sql).
+ */
+
+export type NotificationType =
+  | 'join_requests'
+  | 'join_decisions'
+  | 'event_updates'
+  | 'event_messages'
+  | 'dms'
+  | 'friend_requests';
+
+export type NotificationPrefs = Record<NotificationType, boolean>;
+
+/** Settings rows, in display order */
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string; hint: string }[] = [
+  { type: 'join_requests', label: 'Заявки на участие', hint: 'Кто-то хочет на мой ивент' },
+  { type: 'join_decisions', label: 'Решения по заявкам', hint: 'Меня приняли или отклонили' },
+  { type: 'event_updates', label: 'Изменения ивентов', hint: 'Ивент отменён или передан мне' },
+  { type: 'event_messages', label: 'Чаты ивентов', hint: 'Новые сообщения в чатах' },
+  { type: 'dms', label: 'Личные сообщения', hint: 'Новые личные сообщения' },
+  { type: 'friend_requests', label: 'Заявки в друзья', hint: 'Кто-то хочет добавить меня' },
+];
+
+const ALL_ENABLED: NotificationPrefs = {
+  join_requests: true,
+  join_decisions: true,
+  event_updates: true,
+  event_messages: true,
+  dms: true,
+  friend_requests: true,
+};
+
+/** Token registered by this device for the signed-in user, removed again on sign out */
+let registeredToken: string | null = null;
+
+// Show pushes that arrive while the app is open too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Ask for permission and store this device's Expo push token for the signed-in user.
+ * Returns the token, or null when pushes aren't available (web, simulator, denied).
+ */
+export async function registerForPushNotifications(): Promise<string | null> {
+  if (Platform.OS === 'web' || !Device.isDevice) return null;
+
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'default',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') return null;
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+    const { error } = await supabase.rpc('register_push_token', { p_token: token, p_platform: Platform.OS });
+    if (error) {
+      console.error('[Push] Error registering token:', error.message);
+      return null;
+    }
+    registeredToken = token;
+    return token;
+  } catch (e) {
+    console.warn('[Push] Registration failed:', e);
+    return null;
+  }
+}
+
+/**
+ * Stop pushes to this device. Call before signing out, while the session still
+ * allows deleting the row.
+ */
+export async function unregisterPushNotifications(): Promise<void> {
+  if (!registeredToken) return;
+  const { error } = await supabase.from('push_tokens').delete().eq('token', registeredToken);
+  if (error) {
+    console.error('[Push] Error removing token:', error.message);
+    return;
+  }
+  registeredToken = null;
+}
+
+/**
+ * My per-type settings; types never touched are enabled.
+ */
+export async function getNotificationPrefs(): Promise<NotificationPrefs> {
+  const userId = await getCurrentUserId();
+  if (!userId) return ALL_ENABLED;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('notification_prefs')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Push] Error loading preferences:', error.message);
+    return ALL_ENABLED;
+  }
+  return { ...ALL_ENABLED, ...(data?.notification_prefs as Partial<NotificationPrefs> | null) };
+}
+
+/**
+ * Save all per-type settings at once (the settings screen holds the full set).
+ */
+export async function updateNotificationPrefs(prefs: NotificationPrefs): Promise<void> {
+  const userId = await getCurrentUserId();
+  if (!userId) throw new Error('User not authenticated');
+
+  const { error } = await supabase.from('profiles').update({ notification_prefs: prefs }).eq('id', userId);
+  if (error) {
+    console.error('[Push] Error saving preferences:', error.message);
+    throw error;
+  }
+}
+
+/** In-app destination of a tapped notification (push or activity inbox) */
+export type NotificationTarget =
+  | { screen: 'event'; eventId: string }
+  | { screen: 'dm'; userId: string; name: string }
+  | { screen: 'user'; userId: string; name: string; avatar: string | null }
+  | { screen: 'friends' };
+
+export function notificationHref(target: NotificationTarget): Href {
+  switch (target.screen) {
+    case 'event':
+      return { pathname: '/event/[id]', params: { id: target.eventId } };
+    case 'dm':
+      return { pathname: '/dm/[id]', params: { id: target.userId, name: target.name } };
+    case 'user':
+      return { pathname: '/user/[id]', params: { id: target.userId, name: target.name, avatar: target.avatar ?? '' } };
+    case 'friends':
+      return '/friends';
+  }
+}
+
+function toTarget(data: Record<string, unknown> | undefined): NotificationTarget | null {
+  const url = typeof data?.url === 'string' ? data.url : '';
+  const event = url.match(/^\/event\/([\w-]+)$/);
+  if (event) return { screen: 'event', eventId: event[1] };
+  const dm = url.match(/^\/dm\/([\w-]+)$/);
+  if (dm) return { screen: 'dm', userId: dm[1], name: typeof data?.name === 'string' ? data.name : '' };
+  if (url === '/friends') return { screen: 'friends' };
+  return null;
+}
+
+let lastOpenedId: string | null = null;
+
+/**
+ * Call `onOpen` when the user taps a notification, including the one that
+ * launched the app. Returns an unsubscribe function.
+ */
+export function subscribeToNotificationTaps(onOpen: (target: NotificationTarget) => void): () => void {
+  if (Platform.OS === 'web') return () => {};
+
+  const open = (response: Notifications.NotificationResponse | null) => {
+    // The launch notification is reported again on every subscribe
+    const id = response?.notification.request.identifier;
+    if (!id || id === lastOpenedId) return;
+    lastOpenedId = id;
+    const target = toTarget(response?.notification.request.content.data);
+    if (target) onOpen(target);
+  };
+
+  Notifications.getLastNotificationResponseAsync()
+    .then(open)
+    .catch((e) => console.warn('[Push] Launch notification:', e));
+  const subscription = Notifications.addNotificationResponseReceivedListener(open);
+  return () => subscription.remove();
+}
@@ -6,8 +6,8 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 // ==============================================
 // SUPABASE CREDENTIALS - Replace with your keys
 // ==============================================
-const supabaseUrl = 'https://odzylwuxkpjdpagirajx.supabase.co';
-const supabaseAnonKey = 'sb_publishable_XEYwyaEvnqxE7f7COj72Pw_mF1ZCZbL';
+export const supabaseUrl = 'https://odzylwuxkpjdpagirajx.supabase.co';
+export const supabaseAnonKey = 'sb_publishable_XEYwyaEvnqxE7f7COj72Pw_mF1ZCZbL';
 
 // ==============================================
 // SUPABASE CLIENT
@@ -41,6 +41,7 @@ export type Event = {
   lat: number | null;
   lng: number | null;
   start_time: string | null;
+  end_time: string | null;
   emoji: string;
   place_name: string | null;
   created_at: string;
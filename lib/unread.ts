@@ -0,0 +1,83 @@
+import React from 'react';
+
+import { isNetworkError } from './offline-cache';
+import { supabase } from './supabase';
+
+export type UnreadCounts = {
+  /** event id -> unread messages */
+  events: Record<string, number>;
+  /** DM chat id (the other user's id) -> unread messages */
+  dms: Record<string, number>;
+  total: number;
+};
+
+const EMPTY: UnreadCounts = { events: {}, dms: {}, total: 0 };
+
+/**
+ * Unread counts from the server-side read cursors (get_unread_counts RPC).
+ * Returns zeros if the RPC isn't deployed yet, and the last known counts when offline.
+ */
+export async function getUnreadCounts(): Promise<UnreadCounts> {
+  const { data, error } = await supabase.rpc('get_unread_counts');
+  if (error) {
+    if (isNetworkError(error)) return current;
+    console.error('[Unread] Error loading counts:', error.message);
+    return EMPTY;
+  }
+
+  const counts: UnreadCounts = { events: {}, dms: {}, total: 0 };
+  for (const row of (data || []) as { chat_type: 'event' | 'dm'; chat_id: string; unread: number }[]) {
+    if (row.chat_type === 'event') counts.events[row.chat_id] = row.unread;
+    else counts.dms[row.chat_id] = row.unread;
+    counts.total += row.unread;
+  }
+  return counts;
+}
+
+// Shared across screens so the tab badge and the chat list agree
+let current: UnreadCounts = EMPTY;
+const listeners = new Set<() => void>();
+
+/**
+ * Reload counts and notify useUnreadCounts() subscribers. Call after marking a chat read.
+ */
+export async function refreshUnreadCounts(): Promise<UnreadCounts> {
+  current = await getUnreadCounts();
+  listeners.forEach((l) => l());
+  return current;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useUnreadCounts(): UnreadCounts {
+  return React.useSyncExternalStore(subscribe, () => current);
+}
+
+/**
+ * Keep counts fresh while the app is open: refetch (debounced) on any new event
+ * or DM message visible to me. Returns an unsubscribe function.
+ */
+export function watchUnreadCounts(): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void refreshUnreadCounts(), 1000);
+  };
+
+  void refreshUnreadCounts();
+  const channel = supabase
+    .channel('unread')
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, schedule)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'dm_messages' }, schedule)
+    .subscribe();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    void supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,79 @@
+-- ==============================================
+-- ATTENDANCE STATS
+-- Per-user numbers over past (ended, not cancelled) events, derived from
+-- event_participants and event_checkins: events attended (checked in as a
+-- guest), no-shows (approved but didn't check in at an event where others did,
+-- so events from before check-ins or where nobody used them don't count),
+-- events hosted and the average group size of hosted events (host included).
+-- Shown to hosts reviewing join requests and on the profile screen, so only
+-- available for the caller and for people with a pending request to an event
+-- the caller hosts; other ids are left out of the result.
+-- Run in Supabase Dashboard > SQL Editor (after add_event_checkins.sql).
+-- ==============================================
+
+create or replace function public.get_attendance_stats(p_user_ids uuid[])
+returns table (
+  user_id uuid,
+  attended integer,
+  no_shows integer,
+  hosted integer,
+  avg_group_size numeric,
+  check_ins_allowed boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with allowed as (
+    select u.id from unnest(p_user_ids) as u(id)
+    where u.id = auth.uid()
+      or exists (
+        select 1 from public.event_participants p
+        where p.user_id = u.id and p.status = 'pending' and public.is_event_host(p.event_id)
+      )
+  ),
+  past as (
+    select e.id, e.creator_id
+    from public.events e
+    where e.cancelled_at is null
+      and coalesce(e.end_time, coalesce(e.start_time, e.created_at) + interval '2 hours') < now()
+      and (
+        e.creator_id in (select id from allowed)
+        or e.id in (select p.event_id from public.event_participants p where p.user_id in (select id from allowed))
+      )
+  ),
+  -- Past events where check-ins were actually used
+  checked as (
+    select distinct c.event_id from public.event_checkins c join past on past.id = c.event_id
+  ),
+  group_sizes as (
+    select past.id, past.creator_id, 1 + count(p.user_id) filter (where p.status = 'approved') as size
+    from past
+    left join public.event_participants p on p.event_id = past.id
+    group by past.id, past.creator_id
+  )
+  select
+    u.id,
+    (
+      select count(*) from public.event_checkins c
+      join past on past.id = c.event_id
+      where c.user_id = u.id and past.creator_id <> u.id
+    )::integer,
+    -- People who turned check-ins off can't check in, so they're never no-shows
+    case when public.check_ins_allowed(u.id) then (
+      select count(*) from public.event_participants p
+      join checked on checked.event_id = p.event_id
+      where p.user_id = u.id
+        and p.status = 'approved'
+        and not exists (
+          select 1 from public.event_checkins c where c.event_id = p.event_id and c.user_id = u.id
+        )
+    ) else 0 end::integer,
+    (select count(*) from group_sizes g where g.creator_id = u.id)::integer,
+    (select round(avg(g.size), 1) from group_sizes g where g.creator_id = u.id),
+    public.check_ins_allowed(u.id)
+  from allowed as u;
+$$;
+
+grant execute on function public.get_attendance_stats(uuid[]) to authenticated;
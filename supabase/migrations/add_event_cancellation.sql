@@ -0,0 +1,222 @@
+-- ==============================================
+-- EVENT CANCELLATION
+-- Cancelling keeps the event, its chat and its guest list: the event becomes
+-- read-only (no new messages, joins or edits), a system message is posted into the
+-- chat and every approved or pending guest is notified. Hard delete is only
+-- allowed once an event is cancelled or over. Deleting an account no longer
+-- deletes its events: upcoming ones are cancelled the same way, past ones stay
+-- for their guests (creator_id becomes null).
+-- Run in Supabase Dashboard > SQL Editor (after add_event_ownership.sql).
+-- ==============================================
+
+alter table public.events add column if not exists cancelled_at timestamptz;
+alter table public.events add column if not exists cancel_reason text;
+
+-- Shared by cancel_event() and delete_my_account(). A null p_actor means the creator
+-- is deleting their account: no system message and no actor on the notices, since
+-- both would be deleted along with the profile.
+create or replace function public.mark_event_cancelled(p_event_id uuid, p_reason text, p_actor uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events%rowtype;
+  v_reason text := nullif(trim(p_reason), '');
+  v_notice text;
+  v_attendee uuid;
+begin
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found or v_event.cancelled_at is not null then
+    return;
+  end if;
+
+  update public.events
+  set cancelled_at = now(), cancel_reason = v_reason
+  where id = p_event_id;
+
+  if p_actor is not null then
+    insert into public.messages (event_id, user_id, kind, content)
+    values (p_event_id, p_actor, 'system', 'Ивент отменён' || coalesce(': ' || v_reason, ''));
+    v_notice := 'отменил(а) «' || v_event.title || '»' || coalesce(': ' || v_reason, '');
+  else
+    v_notice := coalesce(v_event.emoji || ' ', '') || '«' || v_event.title || '» отменён' || coalesce(': ' || v_reason, '');
+  end if;
+
+  for v_attendee in
+    select user_id from public.event_participants
+    where event_id = p_event_id and status in ('approved', 'pending') and user_id is distinct from p_actor
+  loop
+    insert into public.notifications (user_id, type, actor_id, event_id, body)
+    values (v_attendee, 'event_cancelled', p_actor, p_event_id, v_notice);
+    perform public.send_push(
+      v_attendee,
+      'event_updates',
+      v_event.title,
+      'Ивент отменён' || coalesce(': ' || v_reason, ''),
+      jsonb_build_object('url', '/event/' || p_event_id)
+    );
+  end loop;
+end;
+$$;
+
+-- Internal: only callable from the functions above/below
+revoke all on function public.mark_event_cancelled(uuid, text, uuid) from public, anon, authenticated;
+
+-- Cancel my event with an optional reason. Creator only.
+create or replace function public.cancel_event(p_event_id uuid, p_reason text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_creator uuid;
+begin
+  select creator_id into v_creator from public.events where id = p_event_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+  if auth.uid() is null or auth.uid() is distinct from v_creator then
+    return jsonb_build_object('ok', false, 'error', 'not_creator');
+  end if;
+
+  perform public.mark_event_cancelled(p_event_id, p_reason, v_creator);
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+grant execute on function public.cancel_event(uuid, text) to authenticated;
+
+-- ==============================================
+-- READ-ONLY AFTER CANCELLATION
+-- ==============================================
+
+-- No new chat messages (system messages come from security definer functions)
+drop policy if exists "messages_insert_not_cancelled" on public.messages;
+create policy "messages_insert_not_cancelled"
+on public.messages as restrictive for insert
+to authenticated
+with check (
+  not exists (
+    select 1 from public.events e
+    where e.id = messages.event_id and e.cancelled_at is not null
+  )
+);
+
+-- No new joins; a trigger so it covers join_event() too
+create or replace function public.reject_join_cancelled_event()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from public.events where id = new.event_id and cancelled_at is not null) then
+    raise exception 'event_cancelled';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists event_participants_reject_cancelled on public.event_participants;
+create trigger event_participants_reject_cancelled
+  before insert on public.event_participants
+  for each row execute procedure public.reject_join_cancelled_event();
+
+-- cancelled_at/cancel_reason are only set through mark_event_cancelled() (a direct
+-- update runs as anon/authenticated, a security definer function as its owner), and
+-- a cancelled event can't be edited any more. creator_id and series_id may still
+-- change: they're nulled when the creator's account or the series is deleted.
+create or replace function public.guard_event_cancellation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+  if (new.cancelled_at is distinct from old.cancelled_at or new.cancel_reason is distinct from old.cancel_reason)
+    and current_user in ('anon', 'authenticated') then
+    raise exception 'use_cancel_event';
+  end if;
+  -- Generated columns are left out: they aren't computed yet in a before trigger
+  if old.cancelled_at is not null
+    and to_jsonb(new) - array['creator_id', 'series_id', 'search_vector', 'location']
+      is distinct from to_jsonb(old) - array['creator_id', 'series_id', 'search_vector', 'location'] then
+    raise exception 'event_cancelled';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists events_guard_cancellation on public.events;
+create trigger events_guard_cancellation
+  before update on public.events
+  for each row execute procedure public.guard_event_cancellation();
+
+-- ==============================================
+-- DELETE
+-- Only cancelled or ended events can be removed for good
+-- ==============================================
+
+drop policy if exists "events_delete_own" on public.events;
+create policy "events_delete_own"
+on public.events for delete
+to authenticated
+using (
+  auth.uid() = creator_id
+  and (cancelled_at is not null or coalesce(end_time, start_time + interval '2 hours') < now())
+);
+
+-- ==============================================
+-- ACCOUNT DELETION
+-- Events outlive their creator; upcoming ones not handed over are cancelled
+-- (otherwise same as add_event_ownership.sql)
+-- ==============================================
+
+alter table public.events alter column creator_id drop not null;
+alter table public.events drop constraint if exists events_creator_id_fkey;
+alter table public.events
+add constraint events_creator_id_fkey
+foreign key (creator_id) references public.profiles(id) on delete set null;
+
+create or replace function public.delete_my_account(p_handover jsonb default '{}'::jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_handover record;
+  v_result jsonb;
+  v_event_id uuid;
+begin
+  if v_uid is null then
+    return jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  end if;
+
+  for v_handover in select key, value from jsonb_each_text(coalesce(p_handover, '{}'::jsonb)) loop
+    v_result := public.transfer_event_ownership(v_handover.key::uuid, v_handover.value::uuid);
+    if not coalesce((v_result ->> 'ok')::boolean, false) then
+      raise exception 'handover_failed: % (%)', v_handover.key, v_result ->> 'error';
+    end if;
+  end loop;
+
+  for v_event_id in
+    select id from public.events
+    where creator_id = v_uid
+      and cancelled_at is null
+      and coalesce(end_time, coalesce(start_time, created_at) + interval '2 hours') >= now()
+  loop
+    perform public.mark_event_cancelled(v_event_id, 'организатор удалил аккаунт', null);
+  end loop;
+
+  -- profiles cascade from auth.users; my events keep going with creator_id = null
+  delete from auth.users where id = v_uid;
+
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+grant execute on function public.delete_my_account(jsonb) to authenticated;
@@ -0,0 +1,203 @@
+-- Capacity limits + waitlist for events.
+-- max_participants caps approved participants; extra joins become 'waitlisted' with a position.
+-- When an approved participant leaves or is rejected, the first waitlisted person is promoted;
+-- positions are renumbered 1..n whenever someone leaves the waitlist.
+-- Run in Supabase Dashboard > SQL Editor (after add_auto_accept_and_status.sql).
+
+-- 1. Capacity on events (null = unlimited)
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS max_participants integer CHECK (max_participants IS NULL OR max_participants > 0);
+
+-- 2. Waitlist status + position on event_participants
+ALTER TABLE public.event_participants ADD COLUMN IF NOT EXISTS waitlist_position integer;
+
+ALTER TABLE public.event_participants DROP CONSTRAINT IF EXISTS event_participants_status_check;
+ALTER TABLE public.event_participants
+ADD CONSTRAINT event_participants_status_check
+CHECK (status IN ('pending', 'approved', 'rejected', 'waitlisted'));
+
+CREATE INDEX IF NOT EXISTS event_participants_waitlist_idx
+ON public.event_participants(event_id, waitlist_position)
+WHERE status = 'waitlisted';
+
+-- 3. Never approve past capacity (covers direct updates by the creator too)
+CREATE OR REPLACE FUNCTION public.enforce_event_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max integer;
+  v_approved integer;
+BEGIN
+  IF NEW.status <> 'approved' OR (TG_OP = 'UPDATE' AND OLD.status = 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT max_participants INTO v_max FROM public.events WHERE id = NEW.event_id;
+  IF v_max IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO v_approved
+  FROM public.event_participants
+  WHERE event_id = NEW.event_id AND status = 'approved' AND user_id <> NEW.user_id;
+
+  IF v_approved >= v_max THEN
+    RAISE EXCEPTION 'event_full';
+  END IF;
+
+  NEW.waitlist_position := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_participants_capacity ON public.event_participants;
+CREATE TRIGGER event_participants_capacity
+  BEFORE INSERT OR UPDATE OF status ON public.event_participants
+  FOR EACH ROW EXECUTE PROCEDURE public.enforce_event_capacity();
+
+-- 4. Promote the head of the waitlist when an approved spot frees up
+CREATE OR REPLACE FUNCTION public.promote_from_waitlist()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auto_accept boolean;
+  v_next uuid;
+BEGIN
+  IF OLD.status <> 'approved' OR (TG_OP = 'UPDATE' AND NEW.status = 'approved') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT auto_accept INTO v_auto_accept FROM public.events WHERE id = OLD.event_id;
+  IF NOT FOUND THEN
+    RETURN NULL;  -- event itself is being deleted
+  END IF;
+
+  SELECT user_id INTO v_next
+  FROM public.event_participants
+  WHERE event_id = OLD.event_id AND status = 'waitlisted'
+  ORDER BY waitlist_position ASC NULLS LAST, joined_at ASC
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_next IS NOT NULL THEN
+    -- Face-control events: the promoted person still needs the creator's approval
+    UPDATE public.event_participants
+    SET status = CASE WHEN v_auto_accept THEN 'approved' ELSE 'pending' END,
+        waitlist_position = NULL
+    WHERE event_id = OLD.event_id AND user_id = v_next;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_participants_promote ON public.event_participants;
+CREATE TRIGGER event_participants_promote
+  AFTER DELETE OR UPDATE OF status ON public.event_participants
+  FOR EACH ROW EXECUTE PROCEDURE public.promote_from_waitlist();
+
+-- 5. Keep positions contiguous when someone leaves the waitlist (promoted, rejected or gone).
+-- Only waitlist_position is updated here, so the status triggers don't fire again.
+CREATE OR REPLACE FUNCTION public.compact_waitlist()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'waitlisted' OR (TG_OP = 'UPDATE' AND NEW.status = 'waitlisted') THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.event_participants p
+  SET waitlist_position = w.position
+  FROM (
+    SELECT user_id, row_number() OVER (ORDER BY waitlist_position ASC NULLS LAST, joined_at ASC) AS position
+    FROM public.event_participants
+    WHERE event_id = OLD.event_id AND status = 'waitlisted'
+  ) w
+  WHERE p.event_id = OLD.event_id
+    AND p.user_id = w.user_id
+    AND p.waitlist_position IS DISTINCT FROM w.position;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS event_participants_compact_waitlist ON public.event_participants;
+CREATE TRIGGER event_participants_compact_waitlist
+  AFTER DELETE OR UPDATE OF status ON public.event_participants
+  FOR EACH ROW EXECUTE PROCEDURE public.compact_waitlist();
+
+-- Close gaps left before this trigger existed
+UPDATE public.event_participants p
+SET waitlist_position = w.position
+FROM (
+  SELECT event_id, user_id,
+    row_number() OVER (PARTITION BY event_id ORDER BY waitlist_position ASC NULLS LAST, joined_at ASC) AS position
+  FROM public.event_participants
+  WHERE status = 'waitlisted'
+) w
+WHERE p.event_id = w.event_id
+  AND p.user_id = w.user_id
+  AND p.waitlist_position IS DISTINCT FROM w.position;
+
+-- 6. Join RPC: decides approved / pending / waitlisted atomically
+CREATE OR REPLACE FUNCTION public.join_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_event public.events%ROWTYPE;
+  v_existing public.event_participants%ROWTYPE;
+  v_approved integer;
+  v_status text;
+  v_position integer;
+BEGIN
+  IF v_uid IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  END IF;
+
+  -- Lock the event so concurrent joins see a consistent count
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_not_found');
+  END IF;
+
+  SELECT * INTO v_existing FROM public.event_participants WHERE event_id = p_event_id AND user_id = v_uid;
+  IF FOUND THEN
+    RETURN jsonb_build_object('ok', true, 'status', v_existing.status, 'position', v_existing.waitlist_position);
+  END IF;
+
+  SELECT count(*) INTO v_approved
+  FROM public.event_participants
+  WHERE event_id = p_event_id AND status = 'approved';
+
+  IF v_event.max_participants IS NOT NULL AND v_approved >= v_event.max_participants THEN
+    v_status := 'waitlisted';
+    SELECT COALESCE(max(waitlist_position), 0) + 1 INTO v_position
+    FROM public.event_participants
+    WHERE event_id = p_event_id AND status = 'waitlisted';
+  ELSIF v_event.auto_accept THEN
+    v_status := 'approved';
+  ELSE
+    v_status := 'pending';
+  END IF;
+
+  INSERT INTO public.event_participants (event_id, user_id, status, waitlist_position)
+  VALUES (p_event_id, v_uid, v_status, v_position);
+
+  RETURN jsonb_build_object('ok', true, 'status', v_status, 'position', v_position);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_event(uuid) TO authenticated;
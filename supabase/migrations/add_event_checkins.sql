@@ -0,0 +1,128 @@
+-- ==============================================
+-- EVENT CHECK-INS
+-- Approved guests and hosts check in at the meeting point while the event is on
+-- (from 30 minutes before the start until the end). check_in_event() verifies
+-- the device position is within the event's checkin_radius_m of lat/lng, so a
+-- check-in doubles as an attendance record. The group sees who's there; people
+-- who turned off privacy.allowCheckIns can't check in and are hidden from others.
+-- Run in Supabase Dashboard > SQL Editor (after add_event_cancellation.sql and add_events_geo.sql).
+-- ==============================================
+
+alter table public.events
+add column if not exists checkin_radius_m integer not null default 200
+check (checkin_radius_m between 50 and 1000);
+
+create table if not exists public.event_checkins (
+  event_id uuid not null references public.events(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  checked_in_at timestamptz not null default now(),
+  primary key (event_id, user_id)
+);
+
+create index if not exists event_checkins_user_id_idx on public.event_checkins(user_id);
+
+alter publication supabase_realtime add table public.event_checkins;
+
+alter table public.event_checkins enable row level security;
+
+-- ==============================================
+-- ACCESS CHECKS
+-- ==============================================
+
+-- Creator or approved participant (co-hosts are approved participants)
+create or replace function public.is_event_member(p_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_event_creator(p_event_id)
+    or exists (
+      select 1 from public.event_participants p
+      where p.event_id = p_event_id and p.user_id = auth.uid() and p.status = 'approved'
+    );
+$$;
+
+-- profiles.privacy.allowCheckIns, on unless explicitly turned off
+create or replace function public.check_ins_allowed(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select (privacy ->> 'allowCheckIns')::boolean from public.profiles where id = p_user_id), true);
+$$;
+
+grant execute on function public.is_event_member(uuid) to authenticated;
+grant execute on function public.check_ins_allowed(uuid) to authenticated;
+
+-- Members see the group's check-ins; rows are written only by check_in_event()
+drop policy if exists "checkins_select_members" on public.event_checkins;
+create policy "checkins_select_members"
+on public.event_checkins for select
+to authenticated
+using (
+  public.is_event_member(event_id)
+  and (user_id = auth.uid() or public.check_ins_allowed(user_id))
+);
+
+-- ==============================================
+-- CHECK IN
+-- ==============================================
+
+create or replace function public.check_in_event(p_event_id uuid, p_lat double precision, p_lng double precision)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_event public.events%rowtype;
+  v_start timestamptz;
+  v_end timestamptz;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  end if;
+  select * into v_event from public.events where id = p_event_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+  if v_event.cancelled_at is not null then
+    return jsonb_build_object('ok', false, 'error', 'event_cancelled');
+  end if;
+  if not public.is_event_member(p_event_id) then
+    return jsonb_build_object('ok', false, 'error', 'not_participant');
+  end if;
+  if not public.check_ins_allowed(auth.uid()) then
+    return jsonb_build_object('ok', false, 'error', 'check_ins_disabled');
+  end if;
+
+  v_start := coalesce(v_event.start_time, v_event.created_at);
+  v_end := coalesce(v_event.end_time, v_start + interval '2 hours');
+  if now() < v_start - interval '30 minutes' or now() > v_end then
+    return jsonb_build_object('ok', false, 'error', 'outside_window');
+  end if;
+
+  if v_event.location is null then
+    return jsonb_build_object('ok', false, 'error', 'no_location');
+  end if;
+  if not ST_DWithin(
+    v_event.location,
+    ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography,
+    v_event.checkin_radius_m
+  ) then
+    return jsonb_build_object('ok', false, 'error', 'too_far');
+  end if;
+
+  insert into public.event_checkins (event_id, user_id)
+  values (p_event_id, auth.uid())
+  on conflict (event_id, user_id) do nothing;
+
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+grant execute on function public.check_in_event(uuid, double precision, double precision) to authenticated;
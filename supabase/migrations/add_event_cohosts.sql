@@ -0,0 +1,309 @@
+-- ==============================================
+-- EVENT CO-HOSTS
+-- The creator can make approved participants co-hosts (event_participants.role).
+-- Hosts (creator + co-hosts) approve/reject join requests, edit event details and
+-- delete chat messages. Only the creator grants or removes the role, changes
+-- visibility and deletes the event; co-hosts can't act on other co-hosts.
+-- Joining (join_event() or a direct insert) always makes a guest.
+-- Join requests reach co-hosts too (activity inbox and push).
+-- Run in Supabase Dashboard > SQL Editor (after add_event_visibility.sql and add_push_notifications.sql).
+-- ==============================================
+
+alter table public.event_participants
+add column if not exists role text not null default 'guest'
+check (role in ('guest', 'cohost'));
+
+-- ==============================================
+-- ACCESS CHECKS
+-- Security definer so policies on events/event_participants can use them
+-- without recursing into each other's RLS
+-- ==============================================
+
+create or replace function public.is_event_creator(p_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.events e where e.id = p_event_id and e.creator_id = auth.uid());
+$$;
+
+create or replace function public.is_event_host(p_event_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_event_creator(p_event_id)
+    or exists (
+      select 1 from public.event_participants p
+      where p.event_id = p_event_id
+        and p.user_id = auth.uid()
+        and p.role = 'cohost'
+        and p.status = 'approved'
+    );
+$$;
+
+grant execute on function public.is_event_creator(uuid) to anon, authenticated;
+grant execute on function public.is_event_host(uuid) to anon, authenticated;
+
+-- ==============================================
+-- POLICIES
+-- ==============================================
+
+drop policy if exists "events_update_own" on public.events;
+drop policy if exists "events_update_host" on public.events;
+create policy "events_update_host"
+on public.events for update
+to authenticated
+using (public.is_event_host(id))
+with check (public.is_event_host(id));
+
+-- Hosts approve/reject guests; co-hosts can't touch other co-hosts
+drop policy if exists "participants_update_creator" on public.event_participants;
+drop policy if exists "participants_update_host" on public.event_participants;
+create policy "participants_update_host"
+on public.event_participants for update
+to authenticated
+using (public.is_event_host(event_id) and (role = 'guest' or public.is_event_creator(event_id)))
+with check (public.is_event_host(event_id));
+
+drop policy if exists "participants_delete_creator" on public.event_participants;
+drop policy if exists "participants_delete_host" on public.event_participants;
+create policy "participants_delete_host"
+on public.event_participants for delete
+to authenticated
+using (public.is_event_host(event_id) and (role = 'guest' or public.is_event_creator(event_id)));
+
+drop policy if exists "messages_delete_creator" on public.messages;
+drop policy if exists "messages_delete_host" on public.messages;
+create policy "messages_delete_host"
+on public.messages for delete
+to authenticated
+using (public.is_event_host(event_id));
+
+-- ==============================================
+-- GUARDS
+-- RLS can't restrict columns, so creator-only fields are checked here.
+-- auth.uid() is null for dashboard/service-role edits, which are allowed.
+-- ==============================================
+
+-- series_id may go null when the series row is deleted (ON DELETE SET NULL), e.g. its
+-- creator deleting their account after handing an occurrence over to someone else.
+create or replace function public.guard_event_creator_fields()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and auth.uid() is distinct from old.creator_id and (
+    new.creator_id is distinct from old.creator_id
+    or new.visibility is distinct from old.visibility
+    or (
+      new.series_id is distinct from old.series_id
+      and (new.series_id is not null or exists (select 1 from public.event_series where id = old.series_id))
+    )
+  ) then
+    raise exception 'not_creator';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists events_guard_creator_fields on public.events;
+create trigger events_guard_creator_fields
+  before update on public.events
+  for each row execute procedure public.guard_event_creator_fields();
+
+-- Insert: non-creators always join as guests, with the status join_event() would
+-- pick (so a direct insert can't self-approve). Update: role changes are creator-only.
+create or replace function public.guard_participant_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events%rowtype;
+  v_approved integer;
+begin
+  if tg_op = 'INSERT' then
+    if auth.uid() is null or public.is_event_creator(new.event_id) then
+      return new;
+    end if;
+    new.role := 'guest';
+    select * into v_event from public.events where id = new.event_id;
+    select count(*) into v_approved
+    from public.event_participants
+    where event_id = new.event_id and status = 'approved';
+    if v_event.max_participants is not null and v_approved >= v_event.max_participants then
+      new.status := 'waitlisted';
+      select coalesce(max(waitlist_position), 0) + 1 into new.waitlist_position
+      from public.event_participants
+      where event_id = new.event_id and status = 'waitlisted';
+    else
+      new.status := case when v_event.auto_accept then 'approved' else 'pending' end;
+      new.waitlist_position := null;
+    end if;
+    return new;
+  end if;
+
+  if new.role is distinct from old.role
+    and auth.uid() is not null
+    and not public.is_event_creator(new.event_id) then
+    raise exception 'not_creator';
+  end if;
+  -- Only approved participants can be co-hosts
+  if new.status <> 'approved' then
+    new.role := 'guest';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists event_participants_guard_role on public.event_participants;
+create trigger event_participants_guard_role
+  before insert or update on public.event_participants
+  for each row execute procedure public.guard_participant_role();
+
+-- Backstop for the trigger above: guests can only add themselves as guests
+drop policy if exists "participants_insert_guest" on public.event_participants;
+create policy "participants_insert_guest"
+on public.event_participants as restrictive for insert
+to authenticated
+with check (
+  public.is_event_creator(event_id)
+  or (role = 'guest' and status in ('pending', 'approved', 'waitlisted'))
+);
+
+-- ==============================================
+-- EDIT RPC
+-- Hosts instead of creator only (otherwise same as add_event_schedule.sql)
+-- ==============================================
+
+create or replace function public.update_event_by_creator(
+  p_event_id uuid,
+  p_title text default null,
+  p_description text default null,
+  p_cover_image_url text default null,
+  p_start_time timestamptz default null,
+  p_end_time timestamptz default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.events where id = p_event_id) then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+  if auth.uid() is null or not public.is_event_host(p_event_id) then
+    return jsonb_build_object('ok', false, 'error', 'not_creator');
+  end if;
+
+  update public.events
+  set
+    title = coalesce(nullif(trim(p_title), ''), title),
+    description = case when p_description is null then description else nullif(trim(p_description), '') end,
+    cover_image_url = case when p_cover_image_url is null then cover_image_url else nullif(trim(p_cover_image_url), '') end,
+    start_time = coalesce(p_start_time, start_time),
+    end_time = coalesce(p_end_time, end_time)
+  where id = p_event_id;
+
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+-- ==============================================
+-- NOTIFICATIONS
+-- Join requests go to every host; decisions come from whoever made them
+-- (otherwise same as add_notifications.sql / add_push_notifications.sql)
+-- ==============================================
+
+create or replace function public.event_host_ids(p_event_id uuid)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select creator_id from public.events where id = p_event_id
+  union
+  select user_id from public.event_participants
+  where event_id = p_event_id and role = 'cohost' and status = 'approved';
+$$;
+
+create or replace function public.notifications_on_participant()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_creator uuid;
+begin
+  select creator_id into v_creator from public.events where id = new.event_id;
+  if v_creator is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and new.status = 'pending' then
+    insert into public.notifications (user_id, type, actor_id, event_id)
+    select h, 'join_request', new.user_id, new.event_id
+    from public.event_host_ids(new.event_id) as h;
+  elsif tg_op = 'UPDATE' and new.status is distinct from old.status and new.status in ('approved', 'rejected') then
+    insert into public.notifications (user_id, type, actor_id, event_id)
+    values (
+      new.user_id,
+      case when new.status = 'approved' then 'join_approved' else 'join_rejected' end,
+      coalesce(auth.uid(), v_creator),
+      new.event_id
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.notify_event_participants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event record;
+  v_name text;
+  v_host uuid;
+begin
+  select id, title, creator_id into v_event from public.events where id = new.event_id;
+  if v_event.id is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and new.status = 'pending' then
+    select coalesce(name, 'Кто-то') into v_name from public.profiles where id = new.user_id;
+    for v_host in select h from public.event_host_ids(new.event_id) as h loop
+      perform public.send_push(
+        v_host,
+        'join_requests',
+        v_event.title,
+        v_name || ' хочет присоединиться',
+        jsonb_build_object('url', '/event/' || v_event.id)
+      );
+    end loop;
+  elsif tg_op = 'UPDATE' and new.status is distinct from old.status and new.status in ('approved', 'rejected') then
+    perform public.send_push(
+      new.user_id,
+      'join_decisions',
+      v_event.title,
+      case when new.status = 'approved' then 'Тебя приняли — до встречи!' else 'Заявка отклонена' end,
+      jsonb_build_object('url', '/event/' || v_event.id)
+    );
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,117 @@
+-- ==============================================
+-- EVENT COVER THUMBNAIL
+-- The upload queue stores a small variant next to every cover; keep its URL so
+-- list rows don't load the full-size image. Whenever the cover is set, the
+-- thumbnail is replaced along with it (null if none was uploaded).
+-- Run in Supabase Dashboard > SQL Editor (after add_event_cohosts.sql and add_event_series.sql).
+-- ==============================================
+
+alter table public.events add column if not exists cover_thumbnail_url text;
+
+-- Same as add_event_cohosts.sql, plus p_cover_thumbnail_url
+drop function if exists public.update_event_by_creator(uuid, text, text, text, timestamptz, timestamptz);
+
+create or replace function public.update_event_by_creator(
+  p_event_id uuid,
+  p_title text default null,
+  p_description text default null,
+  p_cover_image_url text default null,
+  p_start_time timestamptz default null,
+  p_end_time timestamptz default null,
+  p_cover_thumbnail_url text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.events where id = p_event_id) then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+  if auth.uid() is null or not public.is_event_host(p_event_id) then
+    return jsonb_build_object('ok', false, 'error', 'not_creator');
+  end if;
+
+  update public.events
+  set
+    title = coalesce(nullif(trim(p_title), ''), title),
+    description = case when p_description is null then description else nullif(trim(p_description), '') end,
+    cover_image_url = case when p_cover_image_url is null then cover_image_url else nullif(trim(p_cover_image_url), '') end,
+    cover_thumbnail_url = case when p_cover_image_url is null then cover_thumbnail_url else nullif(trim(p_cover_thumbnail_url), '') end,
+    start_time = coalesce(p_start_time, start_time),
+    end_time = coalesce(p_end_time, end_time)
+  where id = p_event_id;
+
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+grant execute on function public.update_event_by_creator(uuid, text, text, text, timestamptz, timestamptz, text) to authenticated;
+
+-- Same as add_event_series.sql, plus p_cover_thumbnail_url
+drop function if exists public.update_future_occurrences(uuid, text, text, text, timestamptz, timestamptz);
+
+create or replace function public.update_future_occurrences(
+  p_event_id uuid,
+  p_title text default null,
+  p_description text default null,
+  p_cover_image_url text default null,
+  p_start_time timestamptz default null,
+  p_end_time timestamptz default null,
+  p_cover_thumbnail_url text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events%rowtype;
+  v_start timestamptz;
+  v_shift interval;
+  v_occ record;
+  v_occ_start timestamptz;
+  v_new_start timestamptz;
+  v_result jsonb;
+begin
+  select * into v_event from public.events where id = p_event_id;
+  if not found then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+  v_start := coalesce(v_event.start_time, v_event.created_at);
+  v_shift := p_start_time - v_start;
+
+  for v_occ in
+    select e.id, e.start_time, e.end_time, e.created_at
+    from public.events e
+    where e.id = p_event_id
+      or (
+        v_event.series_id is not null
+        and e.series_id = v_event.series_id
+        and coalesce(e.start_time, e.created_at) >= v_start
+        and e.cancelled_at is null
+      )
+    order by coalesce(e.start_time, e.created_at)
+  loop
+    v_occ_start := coalesce(v_occ.start_time, v_occ.created_at);
+    v_new_start := v_occ_start + v_shift;
+    v_result := public.update_event_by_creator(
+      v_occ.id,
+      p_title,
+      p_description,
+      p_cover_image_url,
+      v_new_start,
+      v_new_start + coalesce(p_end_time - p_start_time, coalesce(v_occ.end_time, v_occ_start + interval '2 hours') - v_occ_start),
+      p_cover_thumbnail_url
+    );
+    if not coalesce((v_result ->> 'ok')::boolean, false) then
+      raise exception '%', v_result ->> 'error';
+    end if;
+  end loop;
+
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+grant execute on function public.update_future_occurrences(uuid, text, text, text, timestamptz, timestamptz, text) to authenticated;
@@ -0,0 +1,137 @@
+-- ==============================================
+-- EVENT OWNERSHIP TRANSFER AND ACCOUNT DELETION
+-- events.creator_id cascades, so deleting a profile used to silently wipe every
+-- event it hosted. The creator can now hand an event to an approved participant
+-- (or co-host), and delete_my_account() hands events over as chosen and tells
+-- attendees of the remaining upcoming ones that they're cancelled before the
+-- account (and, by cascade, those events) goes away.
+-- Run in Supabase Dashboard > SQL Editor (after add_event_cohosts.sql).
+-- ==============================================
+
+-- New activity types: event handed to me, event I was going to was cancelled
+alter table public.notifications drop constraint if exists notifications_type_check;
+alter table public.notifications add constraint notifications_type_check check (type in (
+  'friend_request',
+  'friend_accepted',
+  'join_request',
+  'join_approved',
+  'join_rejected',
+  'friend_event',
+  'mention',
+  'event_transferred',
+  'event_cancelled'
+));
+
+comment on column public.notifications.body is
+  'Message text for mentions; full notice for event_cancelled (the event may be gone)';
+
+-- ==============================================
+-- TRANSFER
+-- ==============================================
+
+-- Make an approved participant the creator. Their guest row is removed (creators
+-- aren't participants); the old creator leaves the event. Creator only.
+create or replace function public.transfer_event_ownership(p_event_id uuid, p_new_owner uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event public.events%rowtype;
+  v_name text;
+begin
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+  if auth.uid() is null or auth.uid() <> v_event.creator_id then
+    return jsonb_build_object('ok', false, 'error', 'not_creator');
+  end if;
+  if not exists (
+    select 1 from public.event_participants
+    where event_id = p_event_id and user_id = p_new_owner and status = 'approved'
+  ) then
+    return jsonb_build_object('ok', false, 'error', 'not_participant');
+  end if;
+
+  update public.events set creator_id = p_new_owner where id = p_event_id;
+  delete from public.event_participants where event_id = p_event_id and user_id = p_new_owner;
+
+  select coalesce(name, 'Участник') into v_name from public.profiles where id = p_new_owner;
+  insert into public.messages (event_id, user_id, kind, content)
+  values (p_event_id, p_new_owner, 'system', v_name || ' теперь организатор');
+
+  insert into public.notifications (user_id, type, actor_id, event_id)
+  values (p_new_owner, 'event_transferred', v_event.creator_id, p_event_id);
+
+  perform public.send_push(
+    p_new_owner,
+    'event_updates',
+    v_event.title,
+    'Теперь ты организатор',
+    jsonb_build_object('url', '/event/' || p_event_id)
+  );
+
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+grant execute on function public.transfer_event_ownership(uuid, uuid) to authenticated;
+
+-- ==============================================
+-- ACCOUNT DELETION
+-- ==============================================
+
+-- p_handover: {"<event id>": "<new owner id>", ...}. Every handover must succeed
+-- or nothing is deleted. Upcoming events not handed over are cancelled: approved
+-- and pending attendees get a notice that survives the event row.
+create or replace function public.delete_my_account(p_handover jsonb default '{}'::jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_handover record;
+  v_result jsonb;
+  v_event record;
+  v_notice text;
+  v_attendee uuid;
+begin
+  if v_uid is null then
+    return jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  end if;
+
+  for v_handover in select key, value from jsonb_each_text(coalesce(p_handover, '{}'::jsonb)) loop
+    v_result := public.transfer_event_ownership(v_handover.key::uuid, v_handover.value::uuid);
+    if not coalesce((v_result ->> 'ok')::boolean, false) then
+      raise exception 'handover_failed: % (%)', v_handover.key, v_result ->> 'error';
+    end if;
+  end loop;
+
+  for v_event in
+    select id, title, emoji from public.events
+    where creator_id = v_uid and (end_time is null or end_time >= now())
+  loop
+    v_notice := coalesce(v_event.emoji || ' ', '') || '«' || v_event.title || '» отменён: организатор удалил аккаунт';
+    for v_attendee in
+      select user_id from public.event_participants
+      where event_id = v_event.id and status in ('approved', 'pending') and user_id <> v_uid
+    loop
+      -- No actor/event reference: both are deleted with the account
+      insert into public.notifications (user_id, type, body)
+      values (v_attendee, 'event_cancelled', v_notice);
+      perform public.send_push(v_attendee, 'event_updates', v_event.title, 'Ивент отменён: организатор удалил аккаунт', '{}'::jsonb);
+    end loop;
+  end loop;
+
+  -- profiles (and everything hanging off them) cascade from auth.users
+  delete from auth.users where id = v_uid;
+
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+grant execute on function public.delete_my_account(jsonb) to authenticated;
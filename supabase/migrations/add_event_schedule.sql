@@ -0,0 +1,61 @@
+-- Event schedule: start_time already exists, add end_time and let the creator RPC edit both.
+-- Run in Supabase Dashboard > SQL Editor (after update_event_rpc.sql).
+
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS start_time timestamptz;
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS end_time timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'events_end_after_start_check'
+  ) THEN
+    ALTER TABLE public.events
+    ADD CONSTRAINT events_end_after_start_check
+    CHECK (end_time IS NULL OR start_time IS NULL OR end_time > start_time);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS events_start_time_idx ON public.events(start_time);
+
+-- Replace RPC with a version that also accepts the schedule.
+DROP FUNCTION IF EXISTS public.update_event_by_creator(uuid, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.update_event_by_creator(
+  p_event_id uuid,
+  p_title text DEFAULT NULL,
+  p_description text DEFAULT NULL,
+  p_cover_image_url text DEFAULT NULL,
+  p_start_time timestamptz DEFAULT NULL,
+  p_end_time timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_creator_id uuid;
+BEGIN
+  SELECT creator_id INTO v_creator_id FROM public.events WHERE id = p_event_id;
+  IF v_creator_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_not_found');
+  END IF;
+  IF auth.uid() IS NULL OR auth.uid() != v_creator_id THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_creator');
+  END IF;
+
+  UPDATE public.events
+  SET
+    title = COALESCE(NULLIF(trim(p_title), ''), title),
+    description = CASE WHEN p_description IS NULL THEN description ELSE NULLIF(trim(p_description), '') END,
+    cover_image_url = CASE WHEN p_cover_image_url IS NULL THEN cover_image_url ELSE NULLIF(trim(p_cover_image_url), '') END,
+    start_time = COALESCE(p_start_time, start_time),
+    end_time = COALESCE(p_end_time, end_time)
+  WHERE id = p_event_id;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_event_by_creator(uuid, text, text, text, timestamptz, timestamptz) TO anon;
+GRANT EXECUTE ON FUNCTION public.update_event_by_creator(uuid, text, text, text, timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,116 @@
+-- Recurring events: a series row holds the repeat rule, every occurrence is a normal
+-- events row (own participants) pointing at it via series_id.
+-- Run in Supabase Dashboard > SQL Editor (after add_event_schedule.sql).
+
+CREATE TABLE IF NOT EXISTS public.event_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  freq text NOT NULL CHECK (freq IN ('daily', 'weekly', 'monthly')),
+  interval integer NOT NULL DEFAULT 1 CHECK (interval >= 1),
+  until date,
+  count integer CHECK (count IS NULL OR count >= 1),
+  shared_chat boolean NOT NULL DEFAULT false,  -- If true, all occurrences share one chat history
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS event_series_creator_id_idx ON public.event_series(creator_id);
+
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES public.event_series(id) ON DELETE SET NULL;
+ALTER TABLE public.events ADD COLUMN IF NOT EXISTS series_index integer;
+
+CREATE INDEX IF NOT EXISTS events_series_id_idx ON public.events(series_id);
+
+ALTER TABLE public.event_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "event_series_select_public" ON public.event_series;
+CREATE POLICY "event_series_select_public"
+ON public.event_series FOR SELECT
+TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "event_series_insert_own" ON public.event_series;
+CREATE POLICY "event_series_insert_own"
+ON public.event_series FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = creator_id);
+
+DROP POLICY IF EXISTS "event_series_update_own" ON public.event_series;
+CREATE POLICY "event_series_update_own"
+ON public.event_series FOR UPDATE
+TO authenticated
+USING (auth.uid() = creator_id)
+WITH CHECK (auth.uid() = creator_id);
+
+DROP POLICY IF EXISTS "event_series_delete_own" ON public.event_series;
+CREATE POLICY "event_series_delete_own"
+ON public.event_series FOR DELETE
+TO authenticated
+USING (auth.uid() = creator_id);
+
+-- Edit this occurrence and every later one in one transaction. A new start time is
+-- applied as a shift: each occurrence moves by the same offset and gets the new
+-- duration (or keeps its own if p_end_time is null). Each row goes through
+-- update_event_by_creator(), so the same host check applies; any refusal rolls
+-- back the whole edit.
+CREATE OR REPLACE FUNCTION public.update_future_occurrences(
+  p_event_id uuid,
+  p_title text DEFAULT NULL,
+  p_description text DEFAULT NULL,
+  p_cover_image_url text DEFAULT NULL,
+  p_start_time timestamptz DEFAULT NULL,
+  p_end_time timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events%ROWTYPE;
+  v_start timestamptz;
+  v_shift interval;
+  v_occ record;
+  v_occ_start timestamptz;
+  v_new_start timestamptz;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'event_not_found');
+  END IF;
+  v_start := coalesce(v_event.start_time, v_event.created_at);
+  v_shift := p_start_time - v_start;
+
+  -- Cancelled occurrences are skipped (read via jsonb: cancelled_at comes with add_event_cancellation.sql)
+  FOR v_occ IN
+    SELECT e.id, e.start_time, e.end_time, e.created_at
+    FROM public.events e
+    WHERE e.id = p_event_id
+      OR (
+        v_event.series_id IS NOT NULL
+        AND e.series_id = v_event.series_id
+        AND coalesce(e.start_time, e.created_at) >= v_start
+        AND to_jsonb(e) ->> 'cancelled_at' IS NULL
+      )
+    ORDER BY coalesce(e.start_time, e.created_at)
+  LOOP
+    v_occ_start := coalesce(v_occ.start_time, v_occ.created_at);
+    v_new_start := v_occ_start + v_shift;
+    v_result := public.update_event_by_creator(
+      v_occ.id,
+      p_title,
+      p_description,
+      p_cover_image_url,
+      v_new_start,
+      v_new_start + coalesce(p_end_time - p_start_time, coalesce(v_occ.end_time, v_occ_start + interval '2 hours') - v_occ_start)
+    );
+    IF NOT coalesce((v_result ->> 'ok')::boolean, false) THEN
+      RAISE EXCEPTION '%', v_result ->> 'error';
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_future_occurrences(uuid, text, text, text, timestamptz, timestamptz) TO authenticated;
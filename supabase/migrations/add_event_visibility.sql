@@ -0,0 +1,308 @@
+-- ==============================================
+-- EVENT VISIBILITY
+-- Events are public (everyone), friends-only (accepted friendships of the
+-- creator) or invite-only (reachable through a revocable invite code). The
+-- events select policy hides non-public events from anyone else, which also
+-- covers listEvents and the map RPCs (security invoker), and their guest lists. Redeeming a code adds
+-- the user to event_invitees; the creator can rotate or revoke the code, which
+-- stops new redemptions but keeps people who already got in.
+-- Run in Supabase Dashboard > SQL Editor (after add_notifications.sql).
+-- ==============================================
+
+alter table public.events
+add column if not exists visibility text not null default 'public'
+check (visibility in ('public', 'friends', 'invite'));
+
+-- One active code per event; only the creator can read it
+create table if not exists public.event_invites (
+  event_id uuid primary key references public.events(id) on delete cascade,
+  code text not null unique,
+  created_at timestamptz not null default now()
+);
+
+-- Who redeemed a code (keeps access after the code is revoked)
+create table if not exists public.event_invitees (
+  event_id uuid not null references public.events(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (event_id, user_id)
+);
+
+create index if not exists event_invitees_user_id_idx on public.event_invitees(user_id);
+
+-- ==============================================
+-- ACCESS CHECK
+-- Security definer so policies can use it without recursing into each other's RLS
+-- ==============================================
+
+create or replace function public.can_view_event(p_event_id uuid, p_creator_id uuid, p_visibility text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_visibility = 'public'
+    or p_creator_id = auth.uid()
+    or (
+      p_visibility = 'friends' and exists (
+        select 1 from public.friendships f
+        where f.status = 'accepted'
+          and (
+            (f.requester_id = p_creator_id and f.receiver_id = auth.uid())
+            or (f.receiver_id = p_creator_id and f.requester_id = auth.uid())
+          )
+      )
+    )
+    or exists (select 1 from public.event_invitees i where i.event_id = p_event_id and i.user_id = auth.uid())
+    -- Anyone already on the guest list keeps seeing the event
+    or exists (select 1 from public.event_participants p where p.event_id = p_event_id and p.user_id = auth.uid());
+$$;
+
+grant execute on function public.can_view_event(uuid, uuid, text) to anon, authenticated;
+
+-- ==============================================
+-- POLICIES
+-- ==============================================
+
+drop policy if exists "events_select_public" on public.events;
+drop policy if exists "events_select_visible" on public.events;
+create policy "events_select_visible"
+on public.events for select
+to anon, authenticated
+using (public.can_view_event(id, creator_id, visibility));
+
+-- Chats of hidden events are hidden too
+drop policy if exists "messages_select_public" on public.messages;
+drop policy if exists "messages_select_visible" on public.messages;
+create policy "messages_select_visible"
+on public.messages for select
+to anon, authenticated
+using (
+  exists (
+    select 1 from public.events e
+    where e.id = messages.event_id
+      and public.can_view_event(e.id, e.creator_id, e.visibility)
+  )
+);
+
+-- Guest lists are as visible as their event
+drop policy if exists "participants_select_public" on public.event_participants;
+drop policy if exists "participants_select_visible" on public.event_participants;
+create policy "participants_select_visible"
+on public.event_participants for select
+to anon, authenticated
+using (
+  exists (
+    select 1 from public.events e
+    where e.id = event_participants.event_id
+      and public.can_view_event(e.id, e.creator_id, e.visibility)
+  )
+);
+
+-- Joining without join_event() still needs the event to be visible
+drop policy if exists "participants_insert_visible_event" on public.event_participants;
+create policy "participants_insert_visible_event"
+on public.event_participants as restrictive for insert
+to authenticated
+with check (exists (select 1 from public.events e where e.id = event_participants.event_id));
+
+alter table public.event_invites enable row level security;
+
+drop policy if exists "event_invites_select_creator" on public.event_invites;
+create policy "event_invites_select_creator"
+on public.event_invites for select
+to authenticated
+using (
+  exists (
+    select 1 from public.events
+    where events.id = event_invites.event_id
+    and events.creator_id = auth.uid()
+  )
+);
+
+alter table public.event_invitees enable row level security;
+
+drop policy if exists "event_invitees_select_own" on public.event_invitees;
+create policy "event_invitees_select_own"
+on public.event_invitees for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- ==============================================
+-- INVITE CODES
+-- ==============================================
+
+-- New code for the event (replaces the old one, so old links stop working). Creator only.
+create or replace function public.create_event_invite(p_event_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_creator_id uuid;
+  v_code text := substr(replace(gen_random_uuid()::text, '-', ''), 1, 12);
+begin
+  select creator_id into v_creator_id from public.events where id = p_event_id;
+  if v_creator_id is null then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+  if auth.uid() is null or auth.uid() <> v_creator_id then
+    return jsonb_build_object('ok', false, 'error', 'not_creator');
+  end if;
+
+  insert into public.event_invites (event_id, code, created_at)
+  values (p_event_id, v_code, now())
+  on conflict (event_id) do update set code = excluded.code, created_at = excluded.created_at;
+
+  return jsonb_build_object('ok', true, 'code', v_code);
+end;
+$$;
+
+-- Drop the code; people who already redeemed it keep access. Creator only.
+create or replace function public.revoke_event_invite(p_event_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_creator_id uuid;
+begin
+  select creator_id into v_creator_id from public.events where id = p_event_id;
+  if v_creator_id is null then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+  if auth.uid() is null or auth.uid() <> v_creator_id then
+    return jsonb_build_object('ok', false, 'error', 'not_creator');
+  end if;
+
+  delete from public.event_invites where event_id = p_event_id;
+  return jsonb_build_object('ok', true);
+end;
+$$;
+
+-- Let the caller see the event behind a code. Returns its id.
+create or replace function public.redeem_event_invite(p_code text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event_id uuid;
+begin
+  if auth.uid() is null then
+    return jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  end if;
+
+  select event_id into v_event_id from public.event_invites where code = lower(trim(p_code));
+  if v_event_id is null then
+    return jsonb_build_object('ok', false, 'error', 'invalid_code');
+  end if;
+
+  insert into public.event_invitees (event_id, user_id)
+  values (v_event_id, auth.uid())
+  on conflict do nothing;
+
+  return jsonb_build_object('ok', true, 'event_id', v_event_id);
+end;
+$$;
+
+grant execute on function public.create_event_invite(uuid) to authenticated;
+grant execute on function public.revoke_event_invite(uuid) to authenticated;
+grant execute on function public.redeem_event_invite(text) to authenticated;
+
+-- ==============================================
+-- JOIN
+-- join_event() is security definer, so it checks visibility itself
+-- (otherwise same as add_event_capacity_waitlist.sql)
+-- ==============================================
+
+create or replace function public.join_event(p_event_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_event public.events%rowtype;
+  v_existing public.event_participants%rowtype;
+  v_approved integer;
+  v_status text;
+  v_position integer;
+begin
+  if v_uid is null then
+    return jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  end if;
+
+  -- Lock the event so concurrent joins see a consistent count
+  select * into v_event from public.events where id = p_event_id for update;
+  if not found or not public.can_view_event(v_event.id, v_event.creator_id, v_event.visibility) then
+    return jsonb_build_object('ok', false, 'error', 'event_not_found');
+  end if;
+
+  select * into v_existing from public.event_participants where event_id = p_event_id and user_id = v_uid;
+  if found then
+    return jsonb_build_object('ok', true, 'status', v_existing.status, 'position', v_existing.waitlist_position);
+  end if;
+
+  select count(*) into v_approved
+  from public.event_participants
+  where event_id = p_event_id and status = 'approved';
+
+  if v_event.max_participants is not null and v_approved >= v_event.max_participants then
+    v_status := 'waitlisted';
+    select coalesce(max(waitlist_position), 0) + 1 into v_position
+    from public.event_participants
+    where event_id = p_event_id and status = 'waitlisted';
+  elsif v_event.auto_accept then
+    v_status := 'approved';
+  else
+    v_status := 'pending';
+  end if;
+
+  insert into public.event_participants (event_id, user_id, status, waitlist_position)
+  values (p_event_id, v_uid, v_status, v_position);
+
+  return jsonb_build_object('ok', true, 'status', v_status, 'position', v_position);
+end;
+$$;
+
+-- ==============================================
+-- ACTIVITY
+-- Friends aren't told about invite-only events (otherwise same as add_notifications.sql)
+-- ==============================================
+
+create or replace function public.notifications_on_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.visibility = 'invite' then
+    return new;
+  end if;
+
+  if new.series_id is not null and exists (
+    select 1 from public.events e
+    where e.series_id = new.series_id
+      and (e.start_time < new.start_time or (e.start_time = new.start_time and e.id < new.id))
+  ) then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, type, actor_id, event_id)
+  select case when f.requester_id = new.creator_id then f.receiver_id else f.requester_id end,
+         'friend_event',
+         new.creator_id,
+         new.id
+  from public.friendships f
+  where f.status = 'accepted'
+    and (f.requester_id = new.creator_id or f.receiver_id = new.creator_id);
+  return new;
+end;
+$$;
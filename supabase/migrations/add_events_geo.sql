@@ -0,0 +1,69 @@
+-- Server-side geo queries for the map: events inside the viewport or within N km.
+-- Adds a PostGIS point derived from lat/lng (GiST-indexed) and two paginated RPCs.
+-- Run in Supabase Dashboard > SQL Editor (after events_expiry.sql).
+
+-- 1. PostGIS lives in the "extensions" schema on Supabase
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- 2. Point column kept in sync with lat/lng automatically
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS location extensions.geography(Point, 4326)
+GENERATED ALWAYS AS (
+  CASE
+    WHEN lat IS NOT NULL AND lng IS NOT NULL
+    THEN extensions.ST_SetSRID(extensions.ST_MakePoint(lng, lat), 4326)::extensions.geography
+  END
+) STORED;
+
+CREATE INDEX IF NOT EXISTS events_location_idx ON public.events USING gist(location);
+
+-- 3. Events inside a bounding box (Mapbox viewport), soonest first.
+-- SECURITY INVOKER so the normal events RLS still applies.
+CREATE OR REPLACE FUNCTION public.events_in_bounds(
+  p_min_lat double precision,
+  p_min_lng double precision,
+  p_max_lat double precision,
+  p_max_lng double precision,
+  p_limit integer DEFAULT 100,
+  p_offset integer DEFAULT 0
+)
+RETURNS SETOF public.events
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT e.*
+  FROM public.events e
+  WHERE e.location IS NOT NULL
+    AND e.location && ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)::geography
+    AND (e.end_time IS NULL OR e.end_time >= now())
+  ORDER BY e.start_time ASC NULLS LAST, e.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 500)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- 4. Events within p_radius_km of a point, nearest first
+CREATE OR REPLACE FUNCTION public.events_within_radius(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_km double precision,
+  p_limit integer DEFAULT 100,
+  p_offset integer DEFAULT 0
+)
+RETURNS SETOF public.events
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT e.*
+  FROM public.events e
+  WHERE e.location IS NOT NULL
+    AND ST_DWithin(e.location, ST_MakePoint(p_lng, p_lat)::geography, p_radius_km * 1000)
+    AND (e.end_time IS NULL OR e.end_time >= now())
+  ORDER BY e.location <-> ST_MakePoint(p_lng, p_lat)::geography, e.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 500)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.events_in_bounds(double precision, double precision, double precision, double precision, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.events_within_radius(double precision, double precision, double precision, integer, integer) TO anon, authenticated;
@@ -0,0 +1,11 @@
+-- Full-text search for the Events tab over title, description and place name.
+-- "simple" config: no stemming, works the same for Russian and English text.
+-- Run in Supabase Dashboard > SQL Editor.
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '') || ' ' || coalesce(place_name, ''))
+) STORED;
+
+CREATE INDEX IF NOT EXISTS events_search_vector_idx ON public.events USING gin(search_vector);
@@ -0,0 +1,199 @@
+-- Structured messages for event chats and DMs: a kind (text, image, location,
+-- system) and an attachments array with image size/thumbnail or coordinates.
+-- `content` stays the message text, or the caption of an image.
+-- Run in Supabase Dashboard > SQL Editor (after paginate_messages.sql).
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'text',
+  ADD COLUMN IF NOT EXISTS attachments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.dm_messages
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'text',
+  ADD COLUMN IF NOT EXISTS attachments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_kind_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_kind_check
+  CHECK (kind IN ('text', 'image', 'location', 'system') AND jsonb_typeof(attachments) = 'array');
+
+ALTER TABLE public.dm_messages DROP CONSTRAINT IF EXISTS dm_messages_kind_check;
+ALTER TABLE public.dm_messages ADD CONSTRAINT dm_messages_kind_check
+  CHECK (kind IN ('text', 'image', 'location', 'system') AND jsonb_typeof(attachments) = 'array');
+
+-- Images and locations may come without text
+ALTER TABLE public.dm_messages DROP CONSTRAINT IF EXISTS dm_messages_content_check;
+ALTER TABLE public.dm_messages ADD CONSTRAINT dm_messages_content_check
+  CHECK (length(content) > 0 OR jsonb_array_length(attachments) > 0);
+
+-- Old image messages were just the public URL in the body
+UPDATE public.messages
+SET kind = 'image',
+    attachments = jsonb_build_array(jsonb_build_object(
+      'type', 'image', 'url', btrim(content), 'width', NULL, 'height', NULL, 'thumbnail_url', NULL
+    )),
+    content = ''
+WHERE kind = 'text'
+  AND attachments = '[]'::jsonb
+  AND btrim(content) ~* '^https?://\S+\.(jpe?g|png)(\?\S*)?$';
+
+-- System messages are written by the backend only (security definer functions)
+DROP POLICY IF EXISTS "messages_insert_not_system" ON public.messages;
+CREATE POLICY "messages_insert_not_system"
+ON public.messages AS RESTRICTIVE FOR INSERT
+TO authenticated
+WITH CHECK (kind <> 'system');
+
+DROP POLICY IF EXISTS "dm_messages_insert_not_system" ON public.dm_messages;
+CREATE POLICY "dm_messages_insert_not_system"
+ON public.dm_messages AS RESTRICTIVE FOR INSERT
+TO authenticated
+WITH CHECK (kind <> 'system');
+
+-- DM list preview: captionless media gets a label
+CREATE OR REPLACE FUNCTION public.dm_messages_touch_chat()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.dm_chats
+  SET last_message = left(
+        CASE new.kind
+          WHEN 'image' THEN '📷 ' || coalesce(nullif(new.content, ''), 'Фото')
+          WHEN 'location' THEN '📍 ' || coalesce(nullif(new.content, ''), 'Локация')
+          ELSE new.content
+        END, 200),
+      updated_at = new.created_at
+  WHERE id = new.chat_id AND (last_message IS NULL OR updated_at <= new.created_at);
+  RETURN new;
+END;
+$$;
+
+-- Chats whose history was uploaded with older timestamps before the trigger
+-- accepted backdated messages have no preview and are hidden from the DM list
+UPDATE public.dm_chats c
+SET last_message = left(
+      CASE m.kind
+        WHEN 'image' THEN '📷 ' || coalesce(nullif(m.content, ''), 'Фото')
+        WHEN 'location' THEN '📍 ' || coalesce(nullif(m.content, ''), 'Локация')
+        ELSE m.content
+      END, 200),
+    updated_at = m.created_at
+FROM (
+  SELECT DISTINCT ON (chat_id) chat_id, kind, content, created_at
+  FROM public.dm_messages
+  ORDER BY chat_id, created_at DESC
+) m
+WHERE m.chat_id = c.id AND c.last_message IS NULL;
+
+-- Chat list rows need the kind for their preview (return type changes, so drop first)
+DROP FUNCTION IF EXISTS public.get_my_event_chats(integer, integer);
+
+CREATE FUNCTION public.get_my_event_chats(p_limit integer DEFAULT 30, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  event jsonb,
+  last_message_id uuid,
+  last_message_user_id uuid,
+  last_message_content text,
+  last_message_kind text,
+  last_message_attachments jsonb,
+  last_message_created_at timestamptz,
+  last_author_name text,
+  last_author_avatar_url text,
+  last_author_vibe text,
+  unread integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH mine AS (
+    SELECT e.id AS event_id, true AS member
+    FROM public.events e
+    WHERE e.creator_id = auth.uid()
+    UNION ALL
+    SELECT p.event_id, p.status = 'approved'
+    FROM public.event_participants p
+    WHERE p.user_id = auth.uid() AND p.status <> 'rejected'
+    UNION ALL
+    SELECT DISTINCT m.event_id, false
+    FROM public.messages m
+    WHERE m.user_id = auth.uid()
+  ),
+  relevant AS (
+    SELECT event_id, bool_or(member) AS member
+    FROM mine
+    GROUP BY event_id
+  )
+  SELECT
+    to_jsonb(e) - 'search_vector' - 'location',
+    lm.id,
+    lm.user_id,
+    lm.content,
+    lm.kind,
+    lm.attachments,
+    lm.created_at,
+    pr.name,
+    pr.avatar_url,
+    pr.vibe,
+    CASE WHEN r.member THEN (
+      SELECT count(*)::integer
+      FROM public.messages u
+      LEFT JOIN public.event_chat_reads cr ON cr.event_id = u.event_id AND cr.user_id = auth.uid()
+      WHERE u.event_id = e.id
+        AND u.user_id <> auth.uid()
+        AND (cr.last_read_at IS NULL OR u.created_at > cr.last_read_at)
+    ) ELSE 0 END
+  FROM relevant r
+  JOIN public.events e ON e.id = r.event_id
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.user_id, m.content, m.kind, m.attachments, m.created_at
+    FROM public.messages m
+    WHERE m.event_id = e.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) lm ON true
+  LEFT JOIN public.profiles pr ON pr.id = lm.user_id
+  ORDER BY COALESCE(lm.created_at, e.created_at) DESC, e.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_event_chats(integer, integer) TO authenticated;
+
+-- Message pages carry the new fields too
+CREATE OR REPLACE FUNCTION public.get_messages_with_authors(
+  event_uuid uuid,
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 50
+)
+RETURNS json AS $$
+  SELECT coalesce(json_agg(
+    json_build_object(
+      'id', page.id,
+      'kind', page.kind,
+      'content', page.content,
+      'attachments', page.attachments,
+      'created_at', page.created_at,
+      'author', json_build_object(
+        'id', page.author_id,
+        'name', page.name,
+        'avatar_url', page.avatar_url,
+        'vibe', page.vibe
+      )
+    ) ORDER BY page.created_at ASC, page.id ASC
+  ), '[]'::json)
+  FROM (
+    SELECT m.id, m.kind, m.content, m.attachments, m.created_at, p.id AS author_id, p.name, p.avatar_url, p.vibe
+    FROM public.messages m
+    JOIN public.profiles p ON m.user_id = p.id
+    WHERE m.event_id = event_uuid
+      AND (
+        before_created_at IS NULL
+        OR (m.created_at, m.id) < (before_created_at, coalesce(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+      )
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT least(greatest(page_size, 1), 200)
+  ) page;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,195 @@
+-- ==============================================
+-- NOTIFICATIONS (activity inbox)
+-- One row per thing that happened to a user: friend requests and acceptances,
+-- join requests and approve/reject decisions, events created by friends and
+-- @mentions in event chats. Rows are written only by the triggers below;
+-- users can read, mark read and delete their own.
+-- Run in Supabase Dashboard > SQL Editor (after add_push_notifications.sql).
+-- ==============================================
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null check (type in (
+    'friend_request',
+    'friend_accepted',
+    'join_request',
+    'join_approved',
+    'join_rejected',
+    'friend_event',
+    'mention'
+  )),
+  -- Who did it (requester, creator, message author)
+  actor_id uuid references public.profiles(id) on delete cascade,
+  event_id uuid references public.events(id) on delete cascade,
+  -- Message text for mentions
+  body text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_created_at_idx
+  on public.notifications(user_id, created_at desc);
+create index if not exists notifications_user_id_unread_idx
+  on public.notifications(user_id) where read_at is null;
+
+alter publication supabase_realtime add table public.notifications;
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "notifications_select_own" on public.notifications;
+create policy "notifications_select_own"
+on public.notifications for select
+to authenticated
+using (auth.uid() = user_id);
+
+drop policy if exists "notifications_update_own" on public.notifications;
+create policy "notifications_update_own"
+on public.notifications for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+drop policy if exists "notifications_delete_own" on public.notifications;
+create policy "notifications_delete_own"
+on public.notifications for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- ==============================================
+-- TRIGGERS
+-- ==============================================
+
+create or replace function public.notifications_on_friendship()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and new.status = 'pending' then
+    insert into public.notifications (user_id, type, actor_id)
+    values (new.receiver_id, 'friend_request', new.requester_id);
+  elsif tg_op = 'UPDATE' and new.status = 'accepted' and old.status is distinct from 'accepted' then
+    insert into public.notifications (user_id, type, actor_id)
+    values (new.requester_id, 'friend_accepted', new.receiver_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists friendships_notifications on public.friendships;
+create trigger friendships_notifications
+  after insert or update of status on public.friendships
+  for each row execute procedure public.notifications_on_friendship();
+
+create or replace function public.notifications_on_participant()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_creator uuid;
+begin
+  select creator_id into v_creator from public.events where id = new.event_id;
+  if v_creator is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and new.status = 'pending' then
+    insert into public.notifications (user_id, type, actor_id, event_id)
+    values (v_creator, 'join_request', new.user_id, new.event_id);
+  elsif tg_op = 'UPDATE' and new.status is distinct from old.status and new.status in ('approved', 'rejected') then
+    insert into public.notifications (user_id, type, actor_id, event_id)
+    values (
+      new.user_id,
+      case when new.status = 'approved' then 'join_approved' else 'join_rejected' end,
+      v_creator,
+      new.event_id
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists event_participants_notifications on public.event_participants;
+create trigger event_participants_notifications
+  after insert or update of status on public.event_participants
+  for each row execute procedure public.notifications_on_participant();
+
+-- Friends of the creator hear about a new event; a series counts once (its first occurrence)
+create or replace function public.notifications_on_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.series_id is not null and exists (
+    select 1 from public.events e
+    where e.series_id = new.series_id
+      and (e.start_time < new.start_time or (e.start_time = new.start_time and e.id < new.id))
+  ) then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, type, actor_id, event_id)
+  select case when f.requester_id = new.creator_id then f.receiver_id else f.requester_id end,
+         'friend_event',
+         new.creator_id,
+         new.id
+  from public.friendships f
+  where f.status = 'accepted'
+    and (f.requester_id = new.creator_id or f.receiver_id = new.creator_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists events_notifications on public.events;
+create trigger events_notifications
+  after insert on public.events
+  for each row execute procedure public.notifications_on_event();
+
+-- "@name" in an event chat: the word after @ is compared with each chat member's
+-- profiles.name with whitespace removed, case-insensitive (profiles have no
+-- separate handle column)
+create or replace function public.notifications_on_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_mentions text[];
+begin
+  if new.kind = 'system' or position('@' in new.content) = 0 then
+    return new;
+  end if;
+
+  select array_agg(m[1]) into v_mentions
+  from regexp_matches(lower(new.content), '@([[:alnum:]_]+)', 'g') as m;
+  if v_mentions is null then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, type, actor_id, event_id, body)
+  select distinct p.id, 'mention', new.user_id, new.event_id, left(new.content, 200)
+  from public.profiles p
+  where p.id <> new.user_id
+    and lower(regexp_replace(coalesce(p.name, ''), '\s+', '', 'g')) = any (v_mentions)
+    and (
+      exists (select 1 from public.events e where e.id = new.event_id and e.creator_id = p.id)
+      or exists (
+        select 1 from public.event_participants ep
+        where ep.event_id = new.event_id and ep.user_id = p.id and ep.status = 'approved'
+      )
+    );
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_notifications on public.messages;
+create trigger messages_notifications
+  after insert on public.messages
+  for each row execute procedure public.notifications_on_message();
@@ -0,0 +1,269 @@
+-- ==============================================
+-- PUSH NOTIFICATIONS
+-- Expo push tokens per device, per-type opt-outs on profiles, and triggers that
+-- send pushes through the Expo push API (pg_net) for join requests, approve/reject
+-- decisions, event chat messages, DMs and friend requests.
+-- Run in Supabase Dashboard > SQL Editor (after add_message_kinds.sql and friendships.sql).
+-- Requires the pg_net extension (Database > Extensions).
+-- ==============================================
+
+create extension if not exists pg_net;
+
+create table if not exists public.push_tokens (
+  token text primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  platform text,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists push_tokens_user_id_idx on public.push_tokens(user_id);
+
+alter table public.push_tokens enable row level security;
+
+-- A device registers (or re-registers after switching accounts) its own token
+drop policy if exists "push_tokens_own" on public.push_tokens;
+create policy "push_tokens_own"
+on public.push_tokens for all
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- A token moves to whoever signed in on the device last; the old owner's row
+-- isn't visible to the new one, so claiming goes through this function
+create or replace function public.register_push_token(p_token text, p_platform text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.push_tokens (token, user_id, platform, updated_at)
+  values (p_token, auth.uid(), p_platform, now())
+  on conflict (token) do update
+  set user_id = auth.uid(), platform = excluded.platform, updated_at = now();
+$$;
+
+grant execute on function public.register_push_token(text, text) to authenticated;
+
+-- Opt-outs: {"join_requests": false, ...}; a missing key means enabled
+alter table public.profiles
+  add column if not exists notification_prefs jsonb not null default '{}'::jsonb;
+
+-- ==============================================
+-- SENDING
+-- ==============================================
+
+create or replace function public.send_push(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_body text,
+  p_data jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_messages jsonb;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where id = p_user_id and coalesce((notification_prefs ->> p_type)::boolean, true)
+  ) then
+    return;
+  end if;
+
+  select jsonb_agg(jsonb_build_object(
+    'to', t.token,
+    'title', p_title,
+    'body', p_body,
+    'sound', 'default',
+    'data', p_data || jsonb_build_object('type', p_type)
+  ))
+  into v_messages
+  from public.push_tokens t
+  where t.user_id = p_user_id;
+
+  if v_messages is null then
+    return;
+  end if;
+
+  perform net.http_post(
+    url := 'https://exp.host/--/api/v2/push/send',
+    body := v_messages,
+    headers := '{"Content-Type": "application/json", "Accept": "application/json"}'::jsonb
+  );
+end;
+$$;
+
+revoke execute on function public.send_push(uuid, text, text, text, jsonb) from public, anon, authenticated;
+
+create or replace function public.push_preview(p_kind text, p_content text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when p_kind = 'image' then case when p_content <> '' then '📷 ' || left(p_content, 100) else '📷 Фото' end
+    when p_kind = 'location' then '📍 Геопозиция'
+    else left(p_content, 140)
+  end;
+$$;
+
+-- Join requests to the creator; approve/reject (and waitlist promotions) to the participant
+create or replace function public.notify_event_participants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event record;
+  v_name text;
+begin
+  select id, title, creator_id into v_event from public.events where id = new.event_id;
+  if v_event.id is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and new.status = 'pending' then
+    select coalesce(name, 'Кто-то') into v_name from public.profiles where id = new.user_id;
+    perform public.send_push(
+      v_event.creator_id,
+      'join_requests',
+      v_event.title,
+      v_name || ' хочет присоединиться',
+      jsonb_build_object('url', '/event/' || v_event.id)
+    );
+  elsif tg_op = 'UPDATE' and new.status is distinct from old.status and new.status in ('approved', 'rejected') then
+    perform public.send_push(
+      new.user_id,
+      'join_decisions',
+      v_event.title,
+      case when new.status = 'approved' then 'Тебя приняли — до встречи!' else 'Заявка отклонена' end,
+      jsonb_build_object('url', '/event/' || v_event.id)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists event_participants_notify on public.event_participants;
+create trigger event_participants_notify
+  after insert or update of status on public.event_participants
+  for each row execute procedure public.notify_event_participants();
+
+-- New chat message to the creator and approved participants, except the sender
+create or replace function public.notify_event_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_event record;
+  v_name text;
+  v_recipient uuid;
+begin
+  -- Backdated rows are history being migrated from the device, not new messages
+  if new.kind = 'system' or new.created_at < now() - interval '1 minute' then
+    return new;
+  end if;
+  select id, title, creator_id into v_event from public.events where id = new.event_id;
+  if v_event.id is null then
+    return new;
+  end if;
+  select coalesce(name, 'Кто-то') into v_name from public.profiles where id = new.user_id;
+
+  for v_recipient in
+    select v_event.creator_id
+    union
+    select p.user_id from public.event_participants p
+    where p.event_id = new.event_id and p.status = 'approved'
+  loop
+    if v_recipient <> new.user_id then
+      perform public.send_push(
+        v_recipient,
+        'event_messages',
+        v_event.title,
+        v_name || ': ' || public.push_preview(new.kind, new.content),
+        jsonb_build_object('url', '/event/' || v_event.id)
+      );
+    end if;
+  end loop;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_notify on public.messages;
+create trigger messages_notify
+  after insert on public.messages
+  for each row execute procedure public.notify_event_message();
+
+create or replace function public.notify_dm_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_recipient uuid;
+  v_name text;
+begin
+  -- Skip history migrated from the device (see migrateLocalDMs)
+  if new.created_at < now() - interval '1 minute' then
+    return new;
+  end if;
+  select case when c.user_a = new.sender_id then c.user_b else c.user_a end
+  into v_recipient
+  from public.dm_chats c where c.id = new.chat_id;
+  if v_recipient is null then
+    return new;
+  end if;
+  select coalesce(name, 'Кто-то') into v_name from public.profiles where id = new.sender_id;
+
+  perform public.send_push(
+    v_recipient,
+    'dms',
+    v_name,
+    public.push_preview(new.kind, new.content),
+    jsonb_build_object('url', '/dm/' || new.sender_id, 'name', v_name)
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists dm_messages_notify on public.dm_messages;
+create trigger dm_messages_notify
+  after insert on public.dm_messages
+  for each row execute procedure public.notify_dm_message();
+
+create or replace function public.notify_friend_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text;
+begin
+  if new.status <> 'pending' then
+    return new;
+  end if;
+  select coalesce(name, 'Кто-то') into v_name from public.profiles where id = new.requester_id;
+  perform public.send_push(
+    new.receiver_id,
+    'friend_requests',
+    'Заявка в друзья',
+    v_name || ' хочет добавить тебя в друзья',
+    jsonb_build_object('url', '/friends')
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists friendships_notify on public.friendships;
+create trigger friendships_notify
+  after insert on public.friendships
+  for each row execute procedure public.notify_friend_request();
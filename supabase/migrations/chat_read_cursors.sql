@@ -0,0 +1,125 @@
+-- ==============================================
+-- READ CURSORS
+-- Per-user "read up to" timestamps for event chats and DM threads, so unread
+-- counts sync across devices and DMs can show "seen". Cursors are stamped with
+-- the server clock, whatever the client sends.
+-- Run in Supabase SQL Editor (after dm_chats.sql).
+-- ==============================================
+
+create table if not exists public.event_chat_reads (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  event_id uuid not null references public.events(id) on delete cascade,
+  last_read_at timestamptz not null default now(),
+  primary key (user_id, event_id)
+);
+
+create table if not exists public.dm_chat_reads (
+  chat_id uuid not null references public.dm_chats(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  last_read_at timestamptz not null default now(),
+  primary key (chat_id, user_id)
+);
+
+-- Writing a cursor moves it to the server's now(); a skewed device clock would
+-- otherwise hide or resurface messages
+create or replace function public.stamp_chat_read()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.last_read_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists event_chat_reads_stamp on public.event_chat_reads;
+create trigger event_chat_reads_stamp
+  before insert or update on public.event_chat_reads
+  for each row execute procedure public.stamp_chat_read();
+
+drop trigger if exists dm_chat_reads_stamp on public.dm_chat_reads;
+create trigger dm_chat_reads_stamp
+  before insert or update on public.dm_chat_reads
+  for each row execute procedure public.stamp_chat_read();
+
+-- "Seen" ticks update live for the other member
+alter publication supabase_realtime add table public.dm_chat_reads;
+
+alter table public.event_chat_reads enable row level security;
+alter table public.dm_chat_reads enable row level security;
+
+-- Event chat cursors are private
+drop policy if exists "event_chat_reads_own" on public.event_chat_reads;
+create policy "event_chat_reads_own"
+on public.event_chat_reads for all
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- Both DM members can read each other's cursor (that's what "seen" is)
+drop policy if exists "dm_chat_reads_select_member" on public.dm_chat_reads;
+create policy "dm_chat_reads_select_member"
+on public.dm_chat_reads for select
+to authenticated
+using (
+  exists (
+    select 1 from public.dm_chats c
+    where c.id = chat_id and (auth.uid() = c.user_a or auth.uid() = c.user_b)
+  )
+);
+
+drop policy if exists "dm_chat_reads_insert_own" on public.dm_chat_reads;
+create policy "dm_chat_reads_insert_own"
+on public.dm_chat_reads for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.dm_chats c
+    where c.id = chat_id and (auth.uid() = c.user_a or auth.uid() = c.user_b)
+  )
+);
+
+drop policy if exists "dm_chat_reads_update_own" on public.dm_chat_reads;
+create policy "dm_chat_reads_update_own"
+on public.dm_chat_reads for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- Unread counts for the current user.
+-- Event chats count only for events I created or was approved for;
+-- DMs are keyed by the other member's id (the app's DM chat id).
+create or replace function public.get_unread_counts()
+returns table (chat_type text, chat_id uuid, unread integer)
+language sql
+stable
+set search_path = public
+as $$
+  select 'event'::text, m.event_id, count(*)::integer
+  from public.messages m
+  left join public.event_chat_reads r on r.event_id = m.event_id and r.user_id = auth.uid()
+  where m.user_id <> auth.uid()
+    and (r.last_read_at is null or m.created_at > r.last_read_at)
+    and (
+      exists (select 1 from public.events e where e.id = m.event_id and e.creator_id = auth.uid())
+      or exists (
+        select 1 from public.event_participants p
+        where p.event_id = m.event_id and p.user_id = auth.uid() and p.status = 'approved'
+      )
+    )
+  group by m.event_id
+
+  union all
+
+  select 'dm'::text, case when c.user_a = auth.uid() then c.user_b else c.user_a end, count(*)::integer
+  from public.dm_messages m
+  join public.dm_chats c on c.id = m.chat_id
+  left join public.dm_chat_reads r on r.chat_id = m.chat_id and r.user_id = auth.uid()
+  where (auth.uid() = c.user_a or auth.uid() = c.user_b)
+    and m.sender_id <> auth.uid()
+    and (r.last_read_at is null or m.created_at > r.last_read_at)
+  group by c.id, c.user_a, c.user_b;
+$$;
+
+grant execute on function public.get_unread_counts() to authenticated;
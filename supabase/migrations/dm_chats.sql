@@ -0,0 +1,98 @@
+-- ==============================================
+-- DIRECT MESSAGES
+-- One dm_chats row per pair of users, messages in dm_messages.
+-- Only the two members can read or write. Run in Supabase SQL Editor.
+-- ==============================================
+
+create table if not exists public.dm_chats (
+  id uuid primary key default gen_random_uuid(),
+  -- Members are stored ordered (user_a < user_b) so a pair maps to exactly one row
+  user_a uuid not null references public.profiles(id) on delete cascade,
+  user_b uuid not null references public.profiles(id) on delete cascade,
+  last_message text,
+  updated_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  check (user_a < user_b),
+  unique(user_a, user_b)
+);
+
+create index if not exists dm_chats_user_a_idx on public.dm_chats(user_a);
+create index if not exists dm_chats_user_b_idx on public.dm_chats(user_b);
+
+create table if not exists public.dm_messages (
+  id uuid primary key default gen_random_uuid(),
+  chat_id uuid not null references public.dm_chats(id) on delete cascade,
+  sender_id uuid not null references public.profiles(id) on delete cascade,
+  content text not null check (length(content) > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists dm_messages_chat_id_created_at_idx on public.dm_messages(chat_id, created_at);
+
+-- Keep the chat list preview in sync (runs as owner: members have no update policy on dm_chats).
+-- Backdated inserts (history uploaded by migrateLocalDMs) still fill an empty preview.
+create or replace function public.dm_messages_touch_chat()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.dm_chats
+  set last_message = left(new.content, 200),
+      updated_at = new.created_at
+  where id = new.chat_id and (last_message is null or updated_at <= new.created_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists dm_messages_touch_chat on public.dm_messages;
+create trigger dm_messages_touch_chat
+  after insert on public.dm_messages
+  for each row execute procedure public.dm_messages_touch_chat();
+
+-- Realtime delivery (RLS below still applies to subscribers)
+alter publication supabase_realtime add table public.dm_messages;
+
+alter table public.dm_chats enable row level security;
+alter table public.dm_messages enable row level security;
+
+-- Members can see their chats
+drop policy if exists "dm_chats_select_member" on public.dm_chats;
+create policy "dm_chats_select_member"
+on public.dm_chats for select
+to authenticated
+using (auth.uid() = user_a or auth.uid() = user_b);
+
+-- Anyone can open a chat they are a member of
+drop policy if exists "dm_chats_insert_member" on public.dm_chats;
+create policy "dm_chats_insert_member"
+on public.dm_chats for insert
+to authenticated
+with check (auth.uid() = user_a or auth.uid() = user_b);
+
+-- Messages are visible to both members
+drop policy if exists "dm_messages_select_member" on public.dm_messages;
+create policy "dm_messages_select_member"
+on public.dm_messages for select
+to authenticated
+using (
+  exists (
+    select 1 from public.dm_chats c
+    where c.id = chat_id and (auth.uid() = c.user_a or auth.uid() = c.user_b)
+  )
+);
+
+-- Members can only send as themselves
+drop policy if exists "dm_messages_insert_member" on public.dm_messages;
+create policy "dm_messages_insert_member"
+on public.dm_messages for insert
+to authenticated
+with check (
+  auth.uid() = sender_id
+  and created_at <= now() + interval '1 minute'
+  and exists (
+    select 1 from public.dm_chats c
+    where c.id = chat_id and (auth.uid() = c.user_a or auth.uid() = c.user_b)
+  )
+);
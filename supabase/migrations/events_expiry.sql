@@ -0,0 +1,26 @@
+-- Event expiry: every event gets an end_time so "ended" can be filtered on the server.
+-- Run in Supabase Dashboard > SQL Editor (after add_event_schedule.sql).
+
+-- 1. Backfill legacy events: start = created_at, end = start + 2h (same default as the app)
+UPDATE public.events SET start_time = created_at WHERE start_time IS NULL;
+UPDATE public.events SET end_time = start_time + interval '2 hours' WHERE end_time IS NULL;
+
+-- 2. Fill the schedule on insert when the client didn't send one
+CREATE OR REPLACE FUNCTION public.set_event_default_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.start_time := COALESCE(NEW.start_time, NEW.created_at, now());
+  NEW.end_time := COALESCE(NEW.end_time, NEW.start_time + interval '2 hours');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS events_default_schedule ON public.events;
+CREATE TRIGGER events_default_schedule
+  BEFORE INSERT ON public.events
+  FOR EACH ROW EXECUTE PROCEDURE public.set_event_default_schedule();
+
+-- 3. listEvents() filters on end_time >= now()
+CREATE INDEX IF NOT EXISTS events_end_time_idx ON public.events(end_time);
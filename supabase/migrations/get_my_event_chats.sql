@@ -0,0 +1,76 @@
+-- Chat list in one round trip: the current user's event chats with the last
+-- message, its author and the unread count, newest activity first, paginated.
+-- "Relevant" = events I created, joined (any status but rejected) or wrote in.
+-- Unread counts only where I'm the creator or approved, same as get_unread_counts().
+-- Run in Supabase Dashboard > SQL Editor (after chat_read_cursors.sql).
+
+CREATE OR REPLACE FUNCTION public.get_my_event_chats(p_limit integer DEFAULT 30, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  event jsonb,
+  last_message_id uuid,
+  last_message_user_id uuid,
+  last_message_content text,
+  last_message_created_at timestamptz,
+  last_author_name text,
+  last_author_avatar_url text,
+  last_author_vibe text,
+  unread integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH mine AS (
+    SELECT e.id AS event_id, true AS member
+    FROM public.events e
+    WHERE e.creator_id = auth.uid()
+    UNION ALL
+    SELECT p.event_id, p.status = 'approved'
+    FROM public.event_participants p
+    WHERE p.user_id = auth.uid() AND p.status <> 'rejected'
+    UNION ALL
+    SELECT DISTINCT m.event_id, false
+    FROM public.messages m
+    WHERE m.user_id = auth.uid()
+  ),
+  relevant AS (
+    SELECT event_id, bool_or(member) AS member
+    FROM mine
+    GROUP BY event_id
+  )
+  SELECT
+    to_jsonb(e) - 'search_vector' - 'location',
+    lm.id,
+    lm.user_id,
+    lm.content,
+    lm.created_at,
+    pr.name,
+    pr.avatar_url,
+    pr.vibe,
+    CASE WHEN r.member THEN (
+      SELECT count(*)::integer
+      FROM public.messages u
+      LEFT JOIN public.event_chat_reads cr ON cr.event_id = u.event_id AND cr.user_id = auth.uid()
+      WHERE u.event_id = e.id
+        AND u.user_id <> auth.uid()
+        AND (cr.last_read_at IS NULL OR u.created_at > cr.last_read_at)
+    ) ELSE 0 END
+  FROM relevant r
+  JOIN public.events e ON e.id = r.event_id
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.user_id, m.content, m.created_at
+    FROM public.messages m
+    WHERE m.event_id = e.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) lm ON true
+  LEFT JOIN public.profiles pr ON pr.id = lm.user_id
+  ORDER BY COALESCE(lm.created_at, e.created_at) DESC, e.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_event_chats(integer, integer) TO authenticated;
+
+-- Last-message lookup above
+CREATE INDEX IF NOT EXISTS messages_event_id_created_at_idx ON public.messages(event_id, created_at DESC);
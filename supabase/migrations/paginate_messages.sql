@@ -0,0 +1,43 @@
+-- Cursor-paginated message history.
+-- get_messages_with_authors() used to return an event's whole history; it now
+-- returns one page (oldest first) of messages older than the (created_at, id)
+-- cursor, or the latest page when no cursor is given.
+-- Run in Supabase Dashboard > SQL Editor (after get_my_event_chats.sql).
+
+-- Page lookups use messages_event_id_created_at_idx (get_my_event_chats.sql)
+
+DROP FUNCTION IF EXISTS public.get_messages_with_authors(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_messages_with_authors(
+  event_uuid uuid,
+  before_created_at timestamptz DEFAULT NULL,
+  before_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 50
+)
+RETURNS json AS $$
+  SELECT coalesce(json_agg(
+    json_build_object(
+      'id', page.id,
+      'content', page.content,
+      'created_at', page.created_at,
+      'author', json_build_object(
+        'id', page.author_id,
+        'name', page.name,
+        'avatar_url', page.avatar_url,
+        'vibe', page.vibe
+      )
+    ) ORDER BY page.created_at ASC, page.id ASC
+  ), '[]'::json)
+  FROM (
+    SELECT m.id, m.content, m.created_at, p.id AS author_id, p.name, p.avatar_url, p.vibe
+    FROM public.messages m
+    JOIN public.profiles p ON m.user_id = p.id
+    WHERE m.event_id = event_uuid
+      AND (
+        before_created_at IS NULL
+        OR (m.created_at, m.id) < (before_created_at, coalesce(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+      )
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT least(greatest(page_size, 1), 200)
+  ) page;
+$$ LANGUAGE sql STABLE;
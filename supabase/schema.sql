@@ -84,15 +84,23 @@ create trigger on_auth_user_created
 -- ==============================================
 create table if not exists public.events (
   id uuid primary key default gen_random_uuid(),
-  creator_id uuid not null references public.profiles(id) on delete cascade,
+  -- Null once the creator deleted their account: delete_my_account() hands events over
+  -- or cancels them first (migrations/add_event_ownership.sql, add_event_cancellation.sql)
+  creator_id uuid references public.profiles(id) on delete set null,
   title text not null,
   description text,
   lat double precision,  -- Meeting point latitude
   lng double precision,  -- Meeting point longitude
   place_name text,       -- Human-readable place name
   start_time timestamptz,
+  end_time timestamptz,  -- Null = start_time + default duration (2h) on the client
   emoji text not null default '📍',
   auto_accept boolean not null default true,  -- If false, join requests need creator approval
+  max_participants integer check (max_participants is null or max_participants > 0),  -- Null = unlimited
+  visibility text not null default 'public' check (visibility in ('public', 'friends', 'invite')),
+  cancelled_at timestamptz,  -- Set by cancel_event(); the event stays, read-only
+  cancel_reason text,
+  checkin_radius_m integer not null default 200 check (checkin_radius_m between 50 and 1000),  -- Check-in geofence, see migrations/add_event_checkins.sql
   created_at timestamptz not null default now()
 );
 
@@ -105,8 +113,71 @@ BEGIN
   IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'events' AND column_name = 'auto_accept') THEN
     ALTER TABLE public.events ADD COLUMN auto_accept boolean not null default true;
   END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'events' AND column_name = 'end_time') THEN
+    ALTER TABLE public.events ADD COLUMN end_time timestamptz;
+  END IF;
 END $$;
 
+-- Index for upcoming/ended queries
+create index if not exists events_start_time_idx on public.events(start_time);
+create index if not exists events_end_time_idx on public.events(end_time);
+
+-- Map queries: PostGIS point derived from lat/lng (see events_in_bounds / events_within_radius below)
+create extension if not exists postgis with schema extensions;
+alter table public.events
+add column if not exists location extensions.geography(Point, 4326)
+generated always as (
+  case
+    when lat is not null and lng is not null
+    then extensions.st_setsrid(extensions.st_makepoint(lng, lat), 4326)::extensions.geography
+  end
+) stored;
+create index if not exists events_location_idx on public.events using gist(location);
+
+-- Events tab search over title/description/place (see listEvents search option)
+alter table public.events
+add column if not exists search_vector tsvector
+generated always as (
+  to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '') || ' ' || coalesce(place_name, ''))
+) stored;
+create index if not exists events_search_vector_idx on public.events using gin(search_vector);
+
+-- Fill start/end on insert so ended events can be filtered by end_time
+create or replace function public.set_event_default_schedule()
+returns trigger as $$
+begin
+  new.start_time := coalesce(new.start_time, new.created_at, now());
+  new.end_time := coalesce(new.end_time, new.start_time + interval '2 hours');
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists events_default_schedule on public.events;
+create trigger events_default_schedule
+  before insert on public.events
+  for each row execute procedure public.set_event_default_schedule();
+
+-- ==============================================
+-- 2b. EVENT SERIES TABLE
+-- Repeat rule for recurring events; each occurrence is an events row with series_id
+-- ==============================================
+create table if not exists public.event_series (
+  id uuid primary key default gen_random_uuid(),
+  creator_id uuid not null references public.profiles(id) on delete cascade,
+  freq text not null check (freq in ('daily', 'weekly', 'monthly')),
+  interval integer not null default 1 check (interval >= 1),
+  until date,
+  count integer check (count is null or count >= 1),
+  shared_chat boolean not null default false,  -- If true, all occurrences share one chat history
+  created_at timestamptz not null default now()
+);
+
+create index if not exists event_series_creator_id_idx on public.event_series(creator_id);
+
+alter table public.events add column if not exists series_id uuid references public.event_series(id) on delete set null;
+alter table public.events add column if not exists series_index integer;
+create index if not exists events_series_id_idx on public.events(series_id);
+
 -- ==============================================
 -- 3. EVENT PARTICIPANTS TABLE
 -- Many-to-many: users joining events (with approval status)
@@ -114,7 +185,9 @@ END $$;
 create table if not exists public.event_participants (
   event_id uuid not null references public.events(id) on delete cascade,
   user_id uuid not null references public.profiles(id) on delete cascade,
-  status text not null default 'approved' check (status in ('pending', 'approved', 'rejected')),
+  status text not null default 'approved' check (status in ('pending', 'approved', 'rejected', 'waitlisted')),
+  waitlist_position integer,  -- Set only while status = 'waitlisted'
+  role text not null default 'guest' check (role in ('guest', 'cohost')),  -- Co-hosts moderate with the creator
   joined_at timestamptz not null default now(),
   primary key (event_id, user_id)
 );
@@ -131,6 +204,9 @@ END $$;
 create index if not exists event_participants_user_id_idx on public.event_participants(user_id);
 create index if not exists event_participants_event_id_idx on public.event_participants(event_id);
 
+-- Capacity + waitlist promotion triggers and the join_event() RPC:
+-- see migrations/add_event_capacity_waitlist.sql
+
 -- ==============================================
 -- 4. MESSAGES TABLE
 -- Chat messages within event chats
@@ -139,12 +215,19 @@ create table if not exists public.messages (
   id uuid primary key default gen_random_uuid(),
   event_id uuid not null references public.events(id) on delete cascade,
   user_id uuid not null references public.profiles(id) on delete cascade,
+  -- text | image | location | system; content is the text or image caption
+  kind text not null default 'text',
   content text not null,
-  created_at timestamptz not null default now()
+  -- [{type:'image', url, width, height, thumbnail_url}] or [{type:'location', latitude, longitude, label}]
+  attachments jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  constraint messages_kind_check
+    check (kind in ('text', 'image', 'location', 'system') and jsonb_typeof(attachments) = 'array')
 );
 
 -- Index for faster message retrieval
 create index if not exists messages_event_id_idx on public.messages(event_id);
+create index if not exists messages_event_id_created_at_idx on public.messages(event_id, created_at desc);
 create index if not exists messages_created_at_idx on public.messages(created_at);
 
 -- ==============================================
@@ -164,6 +247,7 @@ alter table public.profiles enable row level security;
 alter table public.events enable row level security;
 alter table public.event_participants enable row level security;
 alter table public.messages enable row level security;
+alter table public.event_series enable row level security;
 
 -- ----------------------------------------------
 -- PROFILES POLICIES
@@ -192,7 +276,9 @@ with check (auth.uid() = id);
 -- EVENTS POLICIES
 -- ----------------------------------------------
 
--- Anyone can view events (public read)
+-- Anyone can view events (public read).
+-- Friends-only / invite-only events: migrations/add_event_visibility.sql replaces this
+-- policy (and messages_select_public) with visibility checks.
 create policy "events_select_public"
 on public.events for select
 to anon, authenticated
@@ -205,6 +291,8 @@ to authenticated
 with check (auth.uid() = creator_id);
 
 -- Only creator can update their event
+-- (migrations/add_event_cohosts.sql extends this and the creator-only participant
+-- and message policies below to co-hosts)
 create policy "events_update_own"
 on public.events for update
 to authenticated
@@ -212,11 +300,37 @@ using (auth.uid() = creator_id)
 with check (auth.uid() = creator_id);
 
 -- Only creator can delete their event
+-- (migrations/add_event_cancellation.sql limits this to cancelled or ended events)
 create policy "events_delete_own"
 on public.events for delete
 to authenticated
 using (auth.uid() = creator_id);
 
+-- ----------------------------------------------
+-- EVENT SERIES POLICIES
+-- ----------------------------------------------
+
+create policy "event_series_select_public"
+on public.event_series for select
+to anon, authenticated
+using (true);
+
+create policy "event_series_insert_own"
+on public.event_series for insert
+to authenticated
+with check (auth.uid() = creator_id);
+
+create policy "event_series_update_own"
+on public.event_series for update
+to authenticated
+using (auth.uid() = creator_id)
+with check (auth.uid() = creator_id);
+
+create policy "event_series_delete_own"
+on public.event_series for delete
+to authenticated
+using (auth.uid() = creator_id);
+
 -- ----------------------------------------------
 -- EVENT PARTICIPANTS POLICIES
 -- ----------------------------------------------
@@ -286,6 +400,12 @@ on public.messages for insert
 to authenticated
 with check (auth.uid() = user_id);
 
+-- System messages are written by the backend only
+create policy "messages_insert_not_system"
+on public.messages as restrictive for insert
+to authenticated
+with check (kind <> 'system');
+
 -- Users can delete their own messages
 create policy "messages_delete_own"
 on public.messages for delete
@@ -320,25 +440,84 @@ returns json as $$
   where e.id = event_uuid;
 $$ language sql stable;
 
--- Function to get messages with author profiles
-create or replace function public.get_messages_with_authors(event_uuid uuid)
+-- Map: events inside the viewport, soonest first (paginated, skips ended events)
+create or replace function public.events_in_bounds(
+  p_min_lat double precision,
+  p_min_lng double precision,
+  p_max_lat double precision,
+  p_max_lng double precision,
+  p_limit integer default 100,
+  p_offset integer default 0
+)
+returns setof public.events as $$
+  select e.*
+  from public.events e
+  where e.location is not null
+    and e.location && st_makeenvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)::geography
+    and (e.end_time is null or e.end_time >= now())
+  order by e.start_time asc nulls last, e.id
+  limit least(greatest(p_limit, 1), 500)
+  offset greatest(p_offset, 0);
+$$ language sql stable set search_path = public, extensions;
+
+-- Map: events within p_radius_km of a point, nearest first
+create or replace function public.events_within_radius(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_km double precision,
+  p_limit integer default 100,
+  p_offset integer default 0
+)
+returns setof public.events as $$
+  select e.*
+  from public.events e
+  where e.location is not null
+    and st_dwithin(e.location, st_makepoint(p_lng, p_lat)::geography, p_radius_km * 1000)
+    and (e.end_time is null or e.end_time >= now())
+  order by e.location <-> st_makepoint(p_lng, p_lat)::geography, e.id
+  limit least(greatest(p_limit, 1), 500)
+  offset greatest(p_offset, 0);
+$$ language sql stable set search_path = public, extensions;
+
+grant execute on function public.events_in_bounds(double precision, double precision, double precision, double precision, integer, integer) to anon, authenticated;
+grant execute on function public.events_within_radius(double precision, double precision, double precision, integer, integer) to anon, authenticated;
+
+-- Function to get one page of messages with author profiles (oldest first).
+-- Pass the oldest loaded message's (created_at, id) to get the page before it.
+create or replace function public.get_messages_with_authors(
+  event_uuid uuid,
+  before_created_at timestamptz default null,
+  before_id uuid default null,
+  page_size integer default 50
+)
 returns json as $$
   select coalesce(json_agg(
     json_build_object(
-      'id', m.id,
-      'content', m.content,
-      'created_at', m.created_at,
+      'id', page.id,
+      'kind', page.kind,
+      'content', page.content,
+      'attachments', page.attachments,
+      'created_at', page.created_at,
       'author', json_build_object(
-        'id', p.id,
-        'name', p.name,
-        'avatar_url', p.avatar_url,
-        'vibe', p.vibe
+        'id', page.author_id,
+        'name', page.name,
+        'avatar_url', page.avatar_url,
+        'vibe', page.vibe
       )
-    ) order by m.created_at asc
+    ) order by page.created_at asc, page.id asc
   ), '[]'::json)
-  from public.messages m
-  join public.profiles p on m.user_id = p.id
-  where m.event_id = event_uuid;
+  from (
+    select m.id, m.kind, m.content, m.attachments, m.created_at, p.id as author_id, p.name, p.avatar_url, p.vibe
+    from public.messages m
+    join public.profiles p on m.user_id = p.id
+    where m.event_id = event_uuid
+      and (
+        before_created_at is null
+        or (m.created_at, m.id) < (before_created_at, coalesce(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::uuid))
+      )
+    order by m.created_at desc, m.id desc
+    limit least(greatest(page_size, 1), 200)
+  ) page;
 $$ language sql stable;
 
 -- ==============================================